@@ -2,7 +2,7 @@
  * Decision Wheel Application
  *
  * Main application component for comparing multiple decision opportunities.
- * Users can create up to 3 wheels, rate various considerations, and export visualizations.
+ * Users can create as many wheels as their chosen limit allows, rate various considerations, and export visualizations.
  *
  * Security features:
  * - All user inputs are validated and sanitized
@@ -14,22 +14,114 @@
  * @version 1.0.0
  */
 
-import React, { useState } from 'react';
-import { Plus, Trash2, X, Copy, Download, Eye, Edit2 } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2, X, Copy, Download, Eye, Edit2, Upload, Star, Undo2, Redo2, Share2, LayoutTemplate, Scale, Command } from 'lucide-react';
 
 // Import types and utilities
-import { Wheel, SelectedSegment, APP_CONSTANTS } from './types';
+import {
+  Wheel,
+  SelectedSegment,
+  PersistedAppState,
+  Project,
+  WheelsSnapshot,
+  AlignmentSettings,
+  ScoringMethodId,
+  GroupSettings,
+  RatingRange,
+  CriteriaComparison,
+  ConsiderationTemplate,
+  APP_CONSTANTS
+} from './types';
 import {
   validateWheelName,
   validateSegmentName,
+  validateRange,
   validateValue,
-  validateColor
+  validateWeight,
+  validateColor,
+  validateWheelLimit
 } from './utils/validation';
-import { exportToJSON, exportToSVG } from './utils/exports';
+import {
+  exportProjectToJSON,
+  exportToCSV,
+  exportToImage,
+  exportToPDF,
+  exportToSVG,
+  exportToTSV,
+  exportWorkspaceToJSON
+} from './utils/exports';
+import { applyImport, ImportMode } from './utils/imports';
+import { loadAppState, LoadResult } from './utils/storage';
+import { decodeShareFragment, getShareFragment, SharedDecision } from './utils/sharing';
+import { createBlankWheel, createBlankWheels, createDefaultAppState } from './utils/defaults';
+import { createProject, duplicateProject, pickFallbackProjectId, updateProject } from './utils/projects';
+import { formatRelativeTime } from './utils/format';
+import { SegmentNotes, WheelNotes, withSegmentNotes, withWheelNotes } from './utils/notes';
+import { applyTemplate, createTemplateFromWheel, mergeTemplates } from './utils/templates';
+import { Tournament } from './utils/tournament';
+import { applyPairwiseWeights } from './utils/pairwise';
+import { addSnapshot, createSnapshot } from './utils/snapshots';
+import { isTypingTarget, MODIFIER_LABEL, PaletteCommand } from './utils/keyboard';
+import { describeDealBreakers, getDealBreakerFailures, isDisqualified, scoreWheels } from './utils/calculations';
+import { renderDecisionSvg } from './utils/svgRenderer';
+import {
+  addMissingConsiderations,
+  alignConsiderations,
+  applyRenames,
+  RenameSuggestion,
+  syncConsiderations
+} from './utils/alignment';
+import {
+  addRater,
+  applyAggregation,
+  areResultsHidden,
+  fillUnrated,
+  isGroupRating,
+  removeRater,
+  setRaterRating,
+  wheelsForRater
+} from './utils/group';
+import { useAutosave } from './hooks/useAutosave';
+import { useHistory } from './hooks/useHistory';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 
 // Import components
 import CircleWheel from './components/CircleWheel';
 import ComparisonBars from './components/ComparisonBars';
+import SaveStatus from './components/SaveStatus';
+import ImportModal from './components/ImportModal';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import ShareModal from './components/ShareModal';
+import ImageExportPanel from './components/ImageExportPanel';
+import PdfExportPanel from './components/PdfExportPanel';
+import AlignmentPanel from './components/AlignmentPanel';
+import ComparisonMatrix from './components/ComparisonMatrix';
+import RadarChart from './components/RadarChart';
+import SensitivityPanel from './components/SensitivityPanel';
+import GroupPanel from './components/GroupPanel';
+import WheelNotesEditor from './components/WheelNotesEditor';
+import RationaleEditor from './components/RationaleEditor';
+import TemplateModal from './components/TemplateModal';
+import SharedDecisionView from './components/SharedDecisionView';
+import MiniWheelGrid from './components/MiniWheelGrid';
+import Leaderboard from './components/Leaderboard';
+import TournamentPanel from './components/TournamentPanel';
+import WeightWizard from './components/WeightWizard';
+import SnapshotPanel from './components/SnapshotPanel';
+import CommandPalette from './components/CommandPalette';
+import ShortcutHelp from './components/ShortcutHelp';
+
+/** Ways of laying out the opportunities, with their switch labels */
+const VIEW_MODES = {
+  wheels: 'Wheels',
+  mini: 'Mini',
+  leaderboard: 'Leaderboard',
+  tournament: 'Tournament',
+  matrix: 'Matrix',
+  radar: 'Radar'
+} as const;
+
+type ViewMode = keyof typeof VIEW_MODES;
 
 /**
  * Main Application Component
@@ -37,40 +129,336 @@ import ComparisonBars from './components/ComparisonBars';
 const DecisionWheelApp: React.FC = () => {
   // ========== STATE MANAGEMENT ==========
 
+  // Restore saved state (or fall back to the sample data) once on mount
+  const [initialLoad] = useState<LoadResult>(() => loadAppState());
+  const [initialState] = useState<PersistedAppState>(() =>
+    initialLoad.status === 'loaded' ? initialLoad.state : createDefaultAppState()
+  );
+
   const [showExportMenu, setShowExportMenu] = useState<boolean>(false);
   const [showPreview, setShowPreview] = useState<boolean>(false);
-  const [useNumberSelector, setUseNumberSelector] = useState<boolean>(false);
-  const [nextWheelId, setNextWheelId] = useState<number>(3);
-  const [selectedSegment, setSelectedSegment] = useState<SelectedSegment | null>(null);
-
-  // Initial wheels with sample data
-  const [wheels, setWheels] = useState<Wheel[]>([
-    {
-      id: 1,
-      name: 'Opportunity A',
-      color: '#60A5FA',
-      segments: [
-        { id: 1, name: 'Location', value: 10 },
-        { id: 2, name: 'Investment', value: 7 },
-        { id: 3, name: 'Time', value: 5 },
-        { id: 4, name: 'Interior Design', value: 5 },
-        { id: 5, name: 'Space', value: 10 },
-        { id: 6, name: 'Neighbours', value: 5 }
-      ]
-    },
-    {
-      id: 2,
-      name: 'Opportunity B',
-      color: '#34D399',
-      segments: [
-        { id: 1, name: 'Location', value: 8 },
-        { id: 2, name: 'Investment', value: 5 },
-        { id: 3, name: 'Time', value: 7 },
-        { id: 4, name: 'Interior Design', value: 6 }
-      ]
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const [showShare, setShowShare] = useState<boolean>(false);
+  const [showTemplates, setShowTemplates] = useState<boolean>(false);
+  const [showWeightWizard, setShowWeightWizard] = useState<boolean>(false);
+  const [showPalette, setShowPalette] = useState<boolean>(false);
+  const [showShortcuts, setShowShortcuts] = useState<boolean>(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('wheels');
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [sharedDecision, setSharedDecision] = useState<SharedDecision | null>(null);
+  const [useNumberSelector, setUseNumberSelector] = useState<boolean>(initialState.useNumberSelector);
+  const [weightedWedges, setWeightedWedges] = useState<boolean>(initialState.weightedWedges);
+  const [alignmentSettings, setAlignmentSettings] = useState<AlignmentSettings>(initialState.alignment);
+  const [scoringMethod, setScoringMethod] = useState<ScoringMethodId>(initialState.scoringMethod);
+  const [templates, setTemplates] = useState<ConsiderationTemplate[]>(initialState.templates);
+  const [wheelLimit, setWheelLimit] = useState<number>(() => validateWheelLimit(initialState.wheelLimit));
+  const [selectedSegment, setSelectedSegment] = useState<SelectedSegment | null>(initialState.selectedSegment);
+  const [loadError, setLoadError] = useState<string | null>(
+    initialLoad.status === 'error' ? initialLoad.message : null
+  );
+
+  const [projects, setProjects] = useState<Project[]>(initialState.projects);
+  const [activeProjectId, setActiveProjectId] = useState<string>(initialState.activeProjectId);
+  const [activeRaterId, setActiveRaterId] = useState<string | null>(null);
+
+  // The open project owns the wheels being edited
+  const activeProject = projects.find(p => p.id === activeProjectId) ?? projects[0];
+  const group = activeProject.group;
+  // Rated segments always show the group aggregate under the current settings
+  const wheels = useMemo(
+    () => applyAggregation(activeProject.wheels, activeProject.group),
+    [activeProject.wheels, activeProject.group]
+  );
+  const nextWheelId = activeProject.nextWheelId;
+
+  // Whose ratings are on screen, and whether they may be changed
+  const activeRater = group.raters.find(r => r.id === activeRaterId) ?? null;
+  const resultsHidden = areResultsHidden(group);
+  const canRate = !isGroupRating(group) || (activeRater !== null && !activeRater.submitted);
+
+  // The wheels on screen: the group result, one rater's own ratings, or
+  // nothing while blind rating keeps them hidden
+  const visibleWheels = useMemo((): Wheel[] | null => {
+    if (!isGroupRating(group)) return wheels;
+    if (activeRater && !(resultsHidden && activeRater.submitted)) return wheelsForRater(wheels, activeRater.id);
+    return resultsHidden ? null : wheels;
+  }, [wheels, group, activeRater, resultsHidden]);
+
+  // Exports, sharing and snapshots would reveal hidden results, so they wait too
+  const hiddenResultsReason = visibleWheels ? undefined : 'Ratings are hidden until everyone has submitted';
+
+  // Scores the comparison shows, so each wheel can announce its own
+  const visibleScores = useMemo(
+    () => (visibleWheels ? scoreWheels(visibleWheels, scoringMethod, alignmentSettings, activeProject.criteriaComparisons) : null),
+    [visibleWheels, scoringMethod, alignmentSettings, activeProject.criteriaComparisons]
+  );
+
+  // How considerations line up across the open project's wheels
+  const alignmentReport = useMemo(
+    () => alignConsiderations(visibleWheels ?? wheels, alignmentSettings),
+    [visibleWheels, wheels, alignmentSettings]
+  );
+
+  // ========== HISTORY ==========
+
+  const history = useHistory<WheelsSnapshot>(APP_CONSTANTS.MAX_HISTORY);
+
+  /**
+   * Applies a change to the open project's wheels and records it for undo
+   *
+   * All wheel and segment mutations go through here. Changes that leave the
+   * wheels untouched are ignored so they don't create empty undo steps.
+   *
+   * @param next - New wheels
+   * @param label - Description shown on the undo/redo buttons
+   * @param coalesceKey - Merges rapid edits to the same field into one step
+   * @param nextId - New next wheel ID counter
+   */
+  const commitWheels = (
+    next: Wheel[],
+    label: string,
+    coalesceKey: string | null = null,
+    nextId: number = nextWheelId
+  ): void => {
+    if (nextId === nextWheelId && JSON.stringify(next) === JSON.stringify(wheels)) {
+      return;
     }
+
+    history.record({ wheels, nextWheelId, group }, label, coalesceKey);
+    setProjects(prev => updateProject(prev, activeProject.id, { wheels: next, nextWheelId: nextId }));
+  };
+
+  /**
+   * Restores wheels and group settings from an undo/redo snapshot
+   */
+  const restoreSnapshot = (snapshot: WheelsSnapshot | null): void => {
+    if (!snapshot) return;
+    setProjects(prev => updateProject(prev, activeProject.id, snapshot));
+  };
+
+  const handleUndo = (): void => restoreSnapshot(history.undo({ wheels, nextWheelId, group }));
+  const handleRedo = (): void => restoreSnapshot(history.redo({ wheels, nextWheelId, group }));
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) to redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || sharedDecision) return;
+
+      // Leave native text undo alone while typing
+      if (isTypingTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // ========== PERSISTENCE ==========
+
+  const persistedState = useMemo<PersistedAppState>(() => ({
+    projects,
+    activeProjectId,
+    selectedSegment,
+    useNumberSelector,
+    weightedWedges,
+    alignment: alignmentSettings,
+    scoringMethod,
+    templates,
+    wheelLimit
+  }), [
+    projects,
+    activeProjectId,
+    selectedSegment,
+    useNumberSelector,
+    weightedWedges,
+    alignmentSettings,
+    scoringMethod,
+    templates,
+    wheelLimit
   ]);
 
+  const { lastSaved, saveError, clearSavedData } = useAutosave(
+    persistedState,
+    initialLoad.status === 'loaded' ? initialLoad.savedAt : null
+  );
+
+  /**
+   * Clears all saved data and resets the app to the sample comparison
+   */
+  const handleClearData = (): void => {
+    if (!window.confirm('Clear all saved data? This will reset the app and cannot be undone.')) {
+      return;
+    }
+
+    if (!clearSavedData()) {
+      alert('Saved data could not be cleared. Please try again.');
+      return;
+    }
+
+    const defaults = createDefaultAppState();
+    setProjects(defaults.projects);
+    setActiveProjectId(defaults.activeProjectId);
+    history.reset();
+    setSelectedSegment(defaults.selectedSegment);
+    setUseNumberSelector(defaults.useNumberSelector);
+    setWeightedWedges(defaults.weightedWedges);
+    setAlignmentSettings(defaults.alignment);
+    setScoringMethod(defaults.scoringMethod);
+    setTemplates(defaults.templates);
+    setWheelLimit(defaults.wheelLimit);
+    setTournament(null);
+    setActiveRaterId(null);
+    setViewMode('wheels');
+    setLoadError(null);
+  };
+
+  // ========== SHARE LINKS ==========
+
+  // Open a read-only view when the page is loaded from (or navigates to) a share link
+  useEffect(() => {
+    let cancelled = false;
+
+    const openFromHash = (): void => {
+      const fragment = getShareFragment(window.location.hash);
+      if (!fragment) {
+        setSharedDecision(null);
+        return;
+      }
+
+      decodeShareFragment(fragment)
+        .then(decision => {
+          if (!cancelled) setSharedDecision(decision);
+        })
+        .catch(error => {
+          if (!cancelled) {
+            setLoadError(`Share link could not be opened: ${error instanceof Error ? error.message : 'unknown error'}`);
+          }
+        });
+    };
+
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', openFromHash);
+    };
+  }, []);
+
+  /**
+   * Leaves the shared view and removes the share link from the address bar
+   */
+  const closeSharedDecision = (): void => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setSharedDecision(null);
+  };
+
+  /**
+   * Copies the shared decision into the workspace as a new, editable project
+   */
+  const forkSharedDecision = (): void => {
+    if (!sharedDecision) return;
+
+    const project = createProject(sharedDecision.title, sharedDecision.wheels);
+    setProjects([...projects, project]);
+    switchProject(project.id);
+    closeSharedDecision();
+  };
+
+  // ========== PROJECT HANDLERS ==========
+
+  /**
+   * Opens a project
+   */
+  const switchProject = (projectId: string): void => {
+    setActiveProjectId(projectId);
+    setActiveRaterId(null);
+    setSelectedSegment(null);
+    setTournament(null);
+    history.reset();
+  };
+
+  /**
+   * Creates a new project with blank wheels and opens it
+   */
+  const createNewProject = (): void => {
+    const project = createProject('New Decision', createBlankWheels());
+    setProjects([...projects, project]);
+    switchProject(project.id);
+  };
+
+  /**
+   * Renames a project
+   */
+  const renameProject = (projectId: string, name: string): void => {
+    setProjects(updateProject(projects, projectId, { name }));
+  };
+
+  /**
+   * Updates the open project's description
+   */
+  const updateProjectDescription = (description: string): void => {
+    setProjects(updateProject(projects, activeProject.id, { description }));
+  };
+
+  /**
+   * Duplicates a project and opens the copy
+   */
+  const duplicateProjectById = (projectId: string): void => {
+    const source = projects.find(p => p.id === projectId);
+    if (!source) return;
+
+    const copy = duplicateProject(source);
+    setProjects([...projects, copy]);
+    switchProject(copy.id);
+  };
+
+  /**
+   * Archives or restores a project
+   * The open project is switched away from when it is archived
+   */
+  const toggleArchiveProject = (projectId: string): void => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+
+    const updated = updateProject(projects, projectId, { archived: !project.archived });
+    if (!project.archived && projectId === activeProject.id) {
+      const fallbackId = pickFallbackProjectId(updated);
+      if (!fallbackId) return;
+      switchProject(fallbackId);
+    }
+    setProjects(updated);
+  };
+
+  /**
+   * Deletes a project after confirmation
+   * At least one unarchived project always remains
+   */
+  const deleteProject = (projectId: string): void => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+
+    const remaining = projects.filter(p => p.id !== projectId);
+    const fallbackId = pickFallbackProjectId(remaining);
+    if (!fallbackId) return;
+
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    if (projectId === activeProject.id) {
+      switchProject(fallbackId);
+    }
+    setProjects(remaining);
+  };
+
   // ========== EVENT HANDLERS ==========
 
   /**
@@ -89,33 +477,32 @@ const DecisionWheelApp: React.FC = () => {
     }, APP_CONSTANTS.SCROLL_DELAY);
   };
 
+  /**
+   * Opens a wheel in the full wheel view and scrolls to it
+   */
+  const openWheel = (wheelId: number): void => {
+    setViewMode('wheels');
+
+    setTimeout(() => {
+      const element = document.getElementById(`wheel-${wheelId}`);
+      if (element) {
+        element.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      }
+    }, APP_CONSTANTS.SCROLL_DELAY);
+  };
+
   /**
    * Adds a new wheel to the comparison
-   * Maximum 3 wheels allowed
+   * Up to the configured wheel limit
    */
   const addWheel = (): void => {
-    if (wheels.length >= APP_CONSTANTS.MAX_WHEELS) {
+    if (wheels.length >= wheelLimit) {
       return;
     }
 
-    // Find an unused color
-    const usedColors = wheels.map(w => w.color);
-    const availableColor = APP_CONSTANTS.COLOR_PALETTE.find(c => !usedColors.includes(c))
-      || APP_CONSTANTS.COLOR_PALETTE[wheels.length % APP_CONSTANTS.COLOR_PALETTE.length];
-
-    const newWheel: Wheel = {
-      id: nextWheelId,
-      name: `Opportunity ${String.fromCharCode(65 + wheels.length)}`,
-      color: availableColor,
-      segments: [
-        { id: 1, name: 'Factor 1', value: 5 },
-        { id: 2, name: 'Factor 2', value: 5 },
-        { id: 3, name: 'Factor 3', value: 5 }
-      ]
-    };
+    const newWheel = createBlankWheel(nextWheelId, wheels);
 
-    setWheels([...wheels, newWheel]);
-    setNextWheelId(nextWheelId + 1);
+    commitWheels([...wheels, newWheel], 'Add opportunity', null, nextWheelId + 1);
   };
 
   /**
@@ -126,7 +513,17 @@ const DecisionWheelApp: React.FC = () => {
     if (wheels.length <= APP_CONSTANTS.MIN_WHEELS) {
       return;
     }
-    setWheels(wheels.filter(w => w.id !== wheelId));
+    const wheel = wheels.find(w => w.id === wheelId);
+    commitWheels(wheels.filter(w => w.id !== wheelId), `Remove ${wheel?.name ?? 'opportunity'}`);
+  };
+
+  /**
+   * Removes every wheel eliminated in the tournament
+   */
+  const keepFinalists = (wheelIds: number[]): void => {
+    commitWheels(wheels.filter(w => wheelIds.includes(w.id)), 'Keep tournament finalists');
+    setTournament(null);
+    setViewMode('wheels');
   };
 
   /**
@@ -134,9 +531,9 @@ const DecisionWheelApp: React.FC = () => {
    */
   const updateWheelName = (wheelId: number, name: string): void => {
     const sanitizedName = validateWheelName(name);
-    setWheels(wheels.map(w =>
+    commitWheels(wheels.map(w =>
       w.id === wheelId ? { ...w, name: sanitizedName } : w
-    ));
+    ), 'Rename opportunity', `wheel-name-${wheelId}`);
   };
 
   /**
@@ -144,16 +541,16 @@ const DecisionWheelApp: React.FC = () => {
    */
   const updateWheelColor = (wheelId: number, color: string): void => {
     const validColor = validateColor(color);
-    setWheels(wheels.map(w =>
+    commitWheels(wheels.map(w =>
       w.id === wheelId ? { ...w, color: validColor } : w
-    ));
+    ), 'Change color', `wheel-color-${wheelId}`);
   };
 
   /**
    * Adds a new segment/consideration to a wheel
    */
   const addSegment = (wheelId: number): void => {
-    setWheels(wheels.map(w => {
+    commitWheels(wheels.map(w => {
       if (w.id === wheelId) {
         // Check max segments limit
         if (w.segments.length >= APP_CONSTANTS.MAX_SEGMENTS) {
@@ -164,11 +561,14 @@ const DecisionWheelApp: React.FC = () => {
         const newId = Math.max(0, ...w.segments.map(s => s.id)) + 1;
         return {
           ...w,
-          segments: [...w.segments, { id: newId, name: 'New Factor', value: 5 }]
+          segments: [
+            ...w.segments,
+            { id: newId, name: 'New Factor', value: 5, weight: APP_CONSTANTS.DEFAULT_WEIGHT }
+          ]
         };
       }
       return w;
-    }));
+    }), 'Add consideration');
   };
 
   /**
@@ -176,7 +576,9 @@ const DecisionWheelApp: React.FC = () => {
    * Minimum 1 segment required per wheel
    */
   const removeSegment = (wheelId: number, segmentId: number): void => {
-    setWheels(wheels.map(w => {
+    const segment = wheels.find(w => w.id === wheelId)?.segments.find(s => s.id === segmentId);
+
+    commitWheels(wheels.map(w => {
       if (w.id === wheelId) {
         if (w.segments.length <= APP_CONSTANTS.MIN_SEGMENTS) {
           return w;
@@ -184,19 +586,33 @@ const DecisionWheelApp: React.FC = () => {
         return { ...w, segments: w.segments.filter(s => s.id !== segmentId) };
       }
       return w;
-    }));
+    }), `Remove ${segment?.name ?? 'consideration'}`);
   };
 
   /**
-   * Updates a segment's property (name or value) with validation
+   * Updates a segment's property (name, value or weight) with validation
    */
   const updateSegment = (
     wheelId: number,
     segmentId: number,
-    field: 'name' | 'value',
+    field: 'name' | 'value' | 'weight',
     value: string | number
   ): void => {
-    setWheels(wheels.map(w => {
+    const segment = wheels.find(w => w.id === wheelId)?.segments.find(s => s.id === segmentId);
+    const labels = { name: 'Rename', value: 'Rate', weight: 'Change importance of' };
+
+    // In a group, ratings belong to whoever is rating
+    if (field === 'value' && isGroupRating(group)) {
+      if (!activeRater || activeRater.submitted) return;
+      commitWheels(
+        setRaterRating(wheels, group, activeRater.id, wheelId, segmentId, value as number),
+        `Rate ${segment?.name ?? 'consideration'} as ${activeRater.name}`,
+        `segment-value-${activeRater.id}-${wheelId}-${segmentId}`
+      );
+      return;
+    }
+
+    commitWheels(wheels.map(w => {
       if (w.id === wheelId) {
         return {
           ...w,
@@ -204,8 +620,12 @@ const DecisionWheelApp: React.FC = () => {
             if (s.id === segmentId) {
               if (field === 'name') {
                 return { ...s, name: validateSegmentName(value as string) };
+              } else if (field === 'weight') {
+                return { ...s, weight: validateWeight(value as number) };
               } else {
-                return { ...s, value: validateValue(value as number) };
+                const rating = validateValue(value as number);
+                // An uncertain rating keeps its range around the new most likely value
+                return s.range ? { ...s, value: rating, range: validateRange(s.range, rating) } : { ...s, value: rating };
               }
             }
             return s;
@@ -213,242 +633,1049 @@ const DecisionWheelApp: React.FC = () => {
         };
       }
       return w;
+    }), `${labels[field]} ${segment?.name ?? 'consideration'}`, `segment-${field}-${wheelId}-${segmentId}`);
+  };
+
+  /**
+   * Sets or clears a consideration's must-have minimum rating
+   */
+  const updateSegmentMinimum = (wheelId: number, segmentId: number, minimum: number | null): void => {
+    const segment = wheels.find(w => w.id === wheelId)?.segments.find(s => s.id === segmentId);
+
+    commitWheels(wheels.map(w => w.id !== wheelId ? w : {
+      ...w,
+      segments: w.segments.map(s => {
+        if (s.id !== segmentId) return s;
+        const { minimum: _previous, ...rest } = s;
+        return minimum === null ? rest : { ...rest, minimum: validateValue(minimum) };
+      })
+    }), `${minimum === null ? 'Clear' : 'Set'} minimum for ${segment?.name ?? 'consideration'}`);
+  };
+
+  /**
+   * Sets or clears a consideration's low/high uncertainty range
+   */
+  const updateSegmentRange = (wheelId: number, segmentId: number, range: RatingRange | null): void => {
+    const segment = wheels.find(w => w.id === wheelId)?.segments.find(s => s.id === segmentId);
+
+    commitWheels(wheels.map(w => w.id !== wheelId ? w : {
+      ...w,
+      segments: w.segments.map(s => {
+        if (s.id !== segmentId) return s;
+        const { range: _previous, ...rest } = s;
+        return range === null ? rest : { ...rest, range: validateRange(range, s.value) };
+      })
+    }), `${range === null ? 'Clear' : 'Set'} range for ${segment?.name ?? 'consideration'}`, `segment-range-${wheelId}-${segmentId}`);
+  };
+
+  /**
+   * Updates an opportunity's notes, pros, cons or reference links
+   */
+  const updateWheelNotes = (wheelId: number, changes: WheelNotes): void => {
+    const wheel = wheels.find(w => w.id === wheelId);
+    commitWheels(
+      wheels.map(w => w.id === wheelId ? withWheelNotes(w, changes) : w),
+      `Edit notes for ${wheel?.name ?? 'opportunity'}`
+    );
+  };
+
+  /**
+   * Updates a consideration's rationale or evidence links
+   */
+  const updateSegmentNotes = (wheelId: number, segmentId: number, changes: SegmentNotes): void => {
+    const segment = wheels.find(w => w.id === wheelId)?.segments.find(s => s.id === segmentId);
+    commitWheels(wheels.map(w => w.id !== wheelId ? w : {
+      ...w,
+      segments: w.segments.map(s => s.id === segmentId ? withSegmentNotes(s, changes) : s)
+    }), `Edit rationale for ${segment?.name ?? 'consideration'}`);
+  };
+
+  /**
+   * Sets the weights worked out by the pairwise questionnaire on every opportunity
+   */
+  const applyQuestionnaireWeights = (weights: Map<string, number>, comparisons: CriteriaComparison[]): void => {
+    commitWheels(applyPairwiseWeights(wheels, weights, alignmentSettings), 'Set weights from questionnaire');
+    // Kept for AHP and for reopening the questionnaire
+    setProjects(prev => updateProject(prev, activeProject.id, { criteriaComparisons: comparisons }));
+    setShowWeightWizard(false);
+  };
+
+  // ========== SNAPSHOTS ==========
+
+  /**
+   * Saves a named copy of the current wheels to the open project
+   */
+  const takeDecisionSnapshot = (name: string): void => {
+    setProjects(updateProject(projects, activeProject.id, {
+      snapshots: addSnapshot(activeProject.snapshots, createSnapshot(name, wheels))
     }));
   };
 
   /**
-   * Copies considerations from one wheel to another
+   * Replaces the current wheels with a snapshot's
+   */
+  const restoreDecisionSnapshot = (snapshotId: string): void => {
+    const snapshot = activeProject.snapshots.find(s => s.id === snapshotId);
+    if (!snapshot || !window.confirm(`Replace the current ratings with "${snapshot.name}"? You can undo this.`)) {
+      return;
+    }
+
+    const restored = structuredClone(snapshot.wheels);
+    const nextId = Math.max(nextWheelId, ...restored.map(w => w.id + 1));
+    commitWheels(restored, `Restore ${snapshot.name}`, null, nextId);
+    setSelectedSegment(null);
+  };
+
+  /**
+   * Deletes a snapshot from the open project
+   */
+  const deleteDecisionSnapshot = (snapshotId: string): void => {
+    setProjects(updateProject(projects, activeProject.id, {
+      snapshots: activeProject.snapshots.filter(s => s.id !== snapshotId)
+    }));
+  };
+
+  // ========== TEMPLATES ==========
+
+  /**
+   * Gives every opportunity the template's considerations, keeping matching ratings
+   */
+  const applyTemplateToWheels = (template: ConsiderationTemplate): void => {
+    const result = applyTemplate(wheels, template, alignmentSettings);
+    if (
+      result.removed.length > 0 &&
+      !window.confirm(`Applying "${template.name}" removes ${result.removed.join(', ')}. Continue?`)
+    ) {
+      return;
+    }
+
+    commitWheels(result.wheels, `Apply ${template.name} template`);
+    setSelectedSegment(null);
+    setShowTemplates(false);
+  };
+
+  /**
+   * Creates a new project whose wheels use the template's considerations and opens it
+   */
+  const startDecisionFromTemplate = (template: ConsiderationTemplate): void => {
+    const project = createProject(template.name, applyTemplate(createBlankWheels(), template, alignmentSettings).wheels);
+    setProjects([...projects, project]);
+    switchProject(project.id);
+    setShowTemplates(false);
+  };
+
+  /**
+   * Saves a wheel's considerations as a template, replacing one with the same name
+   */
+  const saveTemplate = (wheelId: number, name: string, description: string): void => {
+    const wheel = wheels.find(w => w.id === wheelId);
+    if (!wheel) return;
+    setTemplates(mergeTemplates(templates, [createTemplateFromWheel(wheel, name, description)]).templates);
+  };
+
+  /**
+   * Adds imported templates, reporting any beyond the limit
+   */
+  const importTemplates = (imported: ConsiderationTemplate[]): void => {
+    const result = mergeTemplates(templates, imported);
+    setTemplates(result.templates);
+    if (result.dropped.length > 0) {
+      alert(`Only ${APP_CONSTANTS.MAX_TEMPLATES} templates can be saved. Not imported: ${result.dropped.join(', ')}`);
+    }
+  };
+
+  // ========== GROUP RATING ==========
+
+  /**
+   * Saves the open project's group settings along with the re-aggregated
+   * wheels, recording both for undo
+   *
+   * @param next - New group settings
+   * @param label - Description shown on the undo/redo buttons
+   * @param nextWheels - Wheels with the raters' ratings to aggregate
+   */
+  const updateGroup = (next: GroupSettings, label: string, nextWheels: Wheel[] = wheels): void => {
+    history.record({ wheels, nextWheelId, group }, label);
+    setProjects(prev => updateProject(prev, activeProject.id, { group: next, wheels: applyAggregation(nextWheels, next) }));
+  };
+
+  /**
+   * Adds a person to rate the open project
+   */
+  const handleAddRater = (name: string): void => {
+    const result = addRater(wheels, group, name);
+    if (!result) {
+      alert(`Maximum ${APP_CONSTANTS.MAX_RATERS} raters allowed per decision`);
+      return;
+    }
+    updateGroup(result.group, `Add rater ${result.rater.name}`, result.wheels);
+  };
+
+  /**
+   * Removes a rater and their ratings
+   */
+  const handleRemoveRater = (raterId: string): void => {
+    const rater = group.raters.find(r => r.id === raterId);
+    const result = removeRater(wheels, group, raterId);
+    if (raterId === activeRaterId) {
+      setActiveRaterId(null);
+    }
+    updateGroup(result.group, `Remove rater ${rater?.name ?? ''}`.trim(), result.wheels);
+  };
+
+  /**
+   * Submits a rater's ratings, or reopens them for editing
+   * Considerations left unrated on submit count as the value the rater saw.
+   */
+  const handleSubmittedChange = (raterId: string, submitted: boolean): void => {
+    const next: GroupSettings = {
+      ...group,
+      raters: group.raters.map(r => r.id === raterId ? { ...r, submitted } : r)
+    };
+    const name = group.raters.find(r => r.id === raterId)?.name ?? 'rater';
+    updateGroup(
+      next,
+      submitted ? `Submit ${name}'s ratings` : `Reopen ${name}'s ratings`,
+      submitted ? fillUnrated(wheels, next, raterId) : wheels
+    );
+  };
+
+  /**
+   * Gives a wheel the same considerations as another, keeping the ratings of
+   * considerations it already had
    */
-  const copyConsiderationsToWheel = (fromWheelId: number, toWheelId: number): void => {
+  const syncConsiderationsToWheel = (fromWheelId: number, toWheelId: number): void => {
     const fromWheel = wheels.find(w => w.id === fromWheelId);
-    if (!fromWheel) return;
-
-    setWheels(wheels.map(w => {
-      if (w.id === toWheelId) {
-        const newSegments = fromWheel.segments.map((seg, index) => ({
-          id: index + 1,
-          name: validateSegmentName(seg.name),
-          value: 5 // Default value for new wheel
-        }));
-        return { ...w, segments: newSegments };
+    const toWheel = wheels.find(w => w.id === toWheelId);
+    if (!fromWheel || !toWheel) return;
+
+    commitWheels(
+      syncConsiderations(wheels, fromWheelId, toWheelId, alignmentSettings),
+      `Sync ${toWheel.name} from ${fromWheel.name}`
+    );
+  };
+
+  /**
+   * Adds the considerations a wheel is missing compared to the others
+   */
+  const addMissingToWheel = (wheelId: number): void => {
+    const wheel = wheels.find(w => w.id === wheelId);
+    const result = addMissingConsiderations(wheels, wheelId, alignmentSettings);
+
+    commitWheels(result.wheels, `Add missing considerations to ${wheel?.name ?? 'opportunity'}`);
+
+    if (result.skipped.length > 0) {
+      alert(`Not added (maximum ${APP_CONSTANTS.MAX_SEGMENTS} considerations): ${result.skipped.join(', ')}`);
+    }
+  };
+
+  /**
+   * Renames considerations to match the name used by the other wheels
+   */
+  const renameConsiderations = (renames: RenameSuggestion[]): void => {
+    commitWheels(
+      applyRenames(wheels, renames),
+      renames.length === 1 ? `Rename ${renames[0].from}` : 'Rename considerations'
+    );
+  };
+
+  /**
+   * Applies validated imported wheels, remapping their IDs
+   */
+  const handleImport = (imported: Wheel[], mode: ImportMode): void => {
+    const result = applyImport(wheels, imported, nextWheelId, mode, wheelLimit);
+
+    commitWheels(result.wheels, mode === 'replace' ? 'Import (replace)' : 'Import (merge)', null, result.nextWheelId);
+    setSelectedSegment(null);
+    setShowImport(false);
+
+    if (result.dropped.length > 0) {
+      alert(`Not imported (limit of ${wheelLimit} opportunities): ${result.dropped.join(', ')}`);
+    }
+  };
+
+  // ========== KEYBOARD ==========
+
+  /**
+   * Selects the next or previous consideration across all opportunities
+   */
+  const moveSelectedSegment = (step: 1 | -1): void => {
+    const all = (visibleWheels ?? []).flatMap(w => w.segments.map(s => ({ wheelId: w.id, segmentId: s.id })));
+    if (all.length === 0) return;
+
+    const current = selectedSegment
+      ? all.findIndex(p => p.wheelId === selectedSegment.wheelId && p.segmentId === selectedSegment.segmentId)
+      : -1;
+    const next = current === -1 ? (step === 1 ? 0 : all.length - 1) : (current + step + all.length) % all.length;
+    setViewMode('wheels');
+    handleSegmentClick(all[next].wheelId, all[next].segmentId);
+  };
+
+  /**
+   * Selects the first consideration of the next or previous opportunity
+   */
+  const moveSelectedWheel = (step: 1 | -1): void => {
+    const shown = (visibleWheels ?? []).filter(w => w.segments.length > 0);
+    if (shown.length === 0) return;
+
+    const current = selectedSegment ? shown.findIndex(w => w.id === selectedSegment.wheelId) : -1;
+    const next = current === -1 ? (step === 1 ? 0 : shown.length - 1) : (current + step + shown.length) % shown.length;
+    setViewMode('wheels');
+    handleSegmentClick(shown[next].id, shown[next].segments[0].id);
+  };
+
+  useKeyboardShortcuts({
+    openPalette: () => setShowPalette(true),
+    showHelp: () => setShowShortcuts(true),
+    moveSegment: moveSelectedSegment,
+    moveWheel: moveSelectedWheel,
+    rate: (value) => {
+      if (selectedSegment && canRate) {
+        updateSegment(selectedSegment.wheelId, selectedSegment.segmentId, 'value', value);
       }
-      return w;
-    }));
+    },
+    addSegment: () => {
+      if (selectedSegment) addSegment(selectedSegment.wheelId);
+    },
+    clearSelection: () => setSelectedSegment(null)
+  }, !sharedDecision && !(
+    showPalette || showShortcuts || showExportMenu || showPreview || showImport ||
+    showShare || showTemplates || showWeightWizard
+  ));
+
+  /**
+   * Every action offered in the command palette
+   */
+  const buildCommands = (): PaletteCommand[] => {
+    const atLimit = wheels.length >= wheelLimit;
+    const shown = visibleWheels ?? [];
+    const exportImage = (format: 'png' | 'webp' | 'jpeg') => (): void => {
+      exportToImage(shown, {
+        format,
+        scale: 2,
+        transparent: false,
+        proportionalAngles: weightedWedges,
+        alignment: alignmentSettings,
+        scoring: scoringMethod,
+        comparisons: activeProject.criteriaComparisons
+      }).catch((err: unknown) => alert(err instanceof Error ? err.message : 'Image export failed'));
+    };
+
+    return [
+      {
+        id: 'add-wheel',
+        group: 'Opportunities',
+        label: 'Add opportunity',
+        keywords: 'wheel new option',
+        disabledReason: atLimit ? `The limit of ${wheelLimit} opportunities is reached` : undefined,
+        run: addWheel
+      },
+      ...wheels.map(wheel => ({
+        id: `remove-wheel-${wheel.id}`,
+        group: 'Opportunities',
+        label: `Remove ${wheel.name}`,
+        keywords: 'delete wheel option',
+        disabledReason: wheels.length <= APP_CONSTANTS.MIN_WHEELS
+          ? `At least ${APP_CONSTANTS.MIN_WHEELS} opportunities are needed`
+          : undefined,
+        run: () => removeWheel(wheel.id)
+      })),
+      ...wheels.map(wheel => ({
+        id: `add-segment-${wheel.id}`,
+        group: 'Considerations',
+        label: `Add consideration to ${wheel.name}`,
+        shortcut: selectedSegment?.wheelId === wheel.id ? 'A' : undefined,
+        keywords: 'segment factor new',
+        run: () => addSegment(wheel.id)
+      })),
+      ...wheels.flatMap(to => wheels.filter(from => from.id !== to.id).map(from => ({
+        id: `copy-segments-${from.id}-${to.id}`,
+        group: 'Considerations',
+        label: `Copy considerations from ${from.name} to ${to.name}`,
+        keywords: 'sync segments factors',
+        run: () => syncConsiderationsToWheel(from.id, to.id)
+      }))),
+      {
+        id: 'weigh',
+        group: 'Considerations',
+        label: 'Weigh considerations by comparing pairs',
+        keywords: 'weights importance questionnaire pairwise',
+        run: () => setShowWeightWizard(true)
+      },
+      {
+        id: 'templates',
+        group: 'Considerations',
+        label: 'Open template library',
+        keywords: 'templates',
+        run: () => setShowTemplates(true)
+      },
+      {
+        id: 'export-svg',
+        group: 'Export',
+        label: 'Export SVG vector',
+        disabledReason: hiddenResultsReason,
+        run: () => exportToSVG(shown, { proportionalAngles: weightedWedges, alignment: alignmentSettings, scoring: scoringMethod, comparisons: activeProject.criteriaComparisons })
+      },
+      { id: 'export-png', group: 'Export', label: 'Export PNG image', keywords: 'picture', disabledReason: hiddenResultsReason, run: exportImage('png') },
+      { id: 'export-webp', group: 'Export', label: 'Export WebP image', keywords: 'picture', disabledReason: hiddenResultsReason, run: exportImage('webp') },
+      { id: 'export-jpeg', group: 'Export', label: 'Export JPEG image', keywords: 'picture jpg', disabledReason: hiddenResultsReason, run: exportImage('jpeg') },
+      {
+        id: 'export-pdf',
+        group: 'Export',
+        label: 'Export PDF report',
+        keywords: 'print',
+        disabledReason: hiddenResultsReason,
+        run: () => {
+          exportToPDF(activeProject.name, shown, {
+            description: activeProject.description,
+            proportionalAngles: weightedWedges,
+            alignment: alignmentSettings,
+            scoring: scoringMethod,
+            comparisons: activeProject.criteriaComparisons
+          });
+        }
+      },
+      { id: 'export-json', group: 'Export', label: 'Export JSON – this decision', keywords: 'backup', disabledReason: hiddenResultsReason, run: () => exportProjectToJSON(activeProject) },
+      { id: 'export-workspace', group: 'Export', label: 'Export JSON – all decisions', keywords: 'backup workspace', disabledReason: hiddenResultsReason, run: () => exportWorkspaceToJSON(projects) },
+      { id: 'export-csv', group: 'Export', label: 'Export CSV table', keywords: 'spreadsheet', disabledReason: hiddenResultsReason, run: () => exportToCSV(shown) },
+      { id: 'export-tsv', group: 'Export', label: 'Export TSV table', keywords: 'spreadsheet tab', disabledReason: hiddenResultsReason, run: () => exportToTSV(shown) },
+      { id: 'export-menu', group: 'Export', label: 'Open export options', run: () => setShowExportMenu(true) },
+      { id: 'preview', group: 'Export', label: 'Preview export', disabledReason: hiddenResultsReason, run: () => setShowPreview(true) },
+      { id: 'import', group: 'Export', label: 'Import from JSON, CSV or TSV', run: () => setShowImport(true) },
+      { id: 'share', group: 'Export', label: 'Share as a link', keywords: 'qr url', disabledReason: hiddenResultsReason, run: () => setShowShare(true) },
+      ...(Object.keys(VIEW_MODES) as ViewMode[]).map(mode => ({
+        id: `view-${mode}`,
+        group: 'View',
+        label: `Show ${VIEW_MODES[mode]} view`,
+        run: () => setViewMode(mode)
+      })),
+      {
+        id: 'toggle-number-selector',
+        group: 'View',
+        label: useNumberSelector ? 'Use sliders for ratings' : 'Use number buttons for ratings',
+        keywords: 'number selector slider toggle',
+        run: () => setUseNumberSelector(!useNumberSelector)
+      },
+      {
+        id: 'toggle-weighted-wedges',
+        group: 'View',
+        label: weightedWedges ? 'Size wedges equally' : 'Size wedges by importance',
+        keywords: 'proportional weighted toggle',
+        run: () => setWeightedWedges(!weightedWedges)
+      },
+      {
+        id: 'undo',
+        group: 'Edit',
+        label: history.undoLabel ? `Undo ${history.undoLabel}` : 'Undo',
+        shortcut: `${MODIFIER_LABEL}+Z`,
+        disabledReason: history.undoLabel ? undefined : 'Nothing to undo',
+        run: handleUndo
+      },
+      {
+        id: 'redo',
+        group: 'Edit',
+        label: history.redoLabel ? `Redo ${history.redoLabel}` : 'Redo',
+        shortcut: `${MODIFIER_LABEL}+Shift+Z`,
+        disabledReason: history.redoLabel ? undefined : 'Nothing to redo',
+        run: handleRedo
+      },
+      { id: 'new-project', group: 'Decisions', label: 'New decision', keywords: 'project', run: createNewProject },
+      { id: 'shortcuts', group: 'Help', label: 'Show keyboard shortcuts', shortcut: '?', run: () => setShowShortcuts(true) }
+    ];
   };
 
   // ========== RENDER ==========
 
+  if (sharedDecision) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+        <div className="max-w-7xl mx-auto">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6 sm:mb-8">
+            Decision Wheel Comparator
+          </h1>
+          <SharedDecisionView
+            decision={sharedDecision}
+            onFork={forkSharedDecision}
+            onClose={closeSharedDecision}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6 sm:mb-8">
-          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
-            Decision Wheel Comparator
-          </h1>
-          {wheels.length < APP_CONSTANTS.MAX_WHEELS && (
+          <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+              Decision Wheel Comparator
+            </h1>
+            <ProjectSwitcher
+              projects={projects}
+              activeProjectId={activeProject.id}
+              onSwitch={switchProject}
+              onCreate={createNewProject}
+              onRename={renameProject}
+              onDuplicate={duplicateProjectById}
+              onToggleArchive={toggleArchiveProject}
+              onDelete={deleteProject}
+            />
+          </div>
+          <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+            <SaveStatus lastSaved={lastSaved} saveError={saveError} onClearData={handleClearData} />
+            <div className="flex gap-1">
+              <button
+                onClick={handleUndo}
+                disabled={!history.undoLabel}
+                className="p-2 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                aria-label={history.undoLabel ? `Undo ${history.undoLabel}` : 'Undo'}
+              >
+                <Undo2 size={16} />
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!history.redoLabel}
+                className="p-2 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                aria-label={history.redoLabel ? `Redo ${history.redoLabel}` : 'Redo'}
+              >
+                <Redo2 size={16} />
+              </button>
+            </div>
             <button
-              onClick={addWheel}
-              className="px-4 py-2 bg-indigo-500 text-white rounded hover:bg-indigo-600 flex items-center gap-2 text-sm"
+              onClick={() => setShowTemplates(true)}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 flex items-center gap-2 text-sm"
+              aria-label="Open template library"
             >
-              <Plus size={18} />
-              Add Opportunity
+              <LayoutTemplate size={18} />
+              Templates
             </button>
+            <button
+              onClick={() => setShowPalette(true)}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 flex items-center gap-2 text-sm"
+              title={`Command palette (${MODIFIER_LABEL}+K) · press ? for keyboard shortcuts`}
+            >
+              <Command size={18} />
+              Commands
+            </button>
+            <button
+              onClick={() => setShowWeightWizard(true)}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 flex items-center gap-2 text-sm"
+              title="Work out importance weights by comparing considerations two at a time"
+            >
+              <Scale size={18} />
+              Weigh
+            </button>
+            {wheels.length < wheelLimit && (
+              <button
+                onClick={addWheel}
+                className="px-4 py-2 bg-indigo-500 text-white rounded hover:bg-indigo-600 flex items-center gap-2 text-sm"
+              >
+                <Plus size={18} />
+                Add Opportunity
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Project details */}
+        <div className="mb-6 text-sm text-gray-600">
+          {activeProject.archived && (
+            <p className="mb-2 text-amber-800">
+              <strong>Archived:</strong> this decision is hidden from your project list.
+            </p>
           )}
+          <textarea
+            key={activeProject.id}
+            defaultValue={activeProject.description}
+            onBlur={(e) => updateProjectDescription(e.target.value)}
+            maxLength={APP_CONSTANTS.MAX_DESCRIPTION_LENGTH}
+            rows={1}
+            className="w-full px-2 py-1 bg-transparent border border-transparent hover:border-gray-300 focus:border-gray-300 rounded resize-y"
+            placeholder="Add a description for this decision"
+            aria-label="Decision description"
+          />
+          <p className="px-2 text-xs text-gray-400">
+            Created {new Date(activeProject.createdAt).toLocaleDateString()} • Updated {formatRelativeTime(new Date(activeProject.updatedAt))}
+          </p>
         </div>
 
-        {/* Max wheels tip */}
-        {wheels.length === APP_CONSTANTS.MAX_WHEELS && (
+        {/* Saved data could not be restored */}
+        {loadError && (
+          <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg flex justify-between items-start gap-3">
+            <p className="text-sm text-amber-800">
+              <strong>Note:</strong> {loadError}
+            </p>
+            <button
+              onClick={() => setLoadError(null)}
+              className="p-1 text-amber-800 hover:bg-amber-100 rounded"
+              aria-label="Dismiss message"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {/* Many options tip */}
+        {wheels.length > APP_CONSTANTS.RECOMMENDED_WHEELS && (
           <div className="mb-6 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <p className="text-sm text-blue-800">
-              <strong>Tip:</strong> For best decision-making results, limit comparisons to your top 2-3 options to avoid decision paralysis.
+              <strong>Tip:</strong> Weighing too many options at once can lead to decision paralysis. Use the
+              Leaderboard or a Tournament to narrow them down to your top 2-3 before deciding.
             </p>
           </div>
         )}
 
-        {/* Wheels Grid */}
-        <div className="grid grid-cols-1 xl:grid-cols-2 2xl:grid-cols-3 gap-6 sm:gap-8">
-          {/* Hidden container for export */}
-          <div className="wheels-container hidden">
-            {wheels.map(wheel => (
-              <CircleWheel key={wheel.id} wheel={wheel} />
+        {/* People rating the decision */}
+        <GroupPanel
+          wheels={wheels}
+          group={group}
+          activeRaterId={activeRater?.id ?? null}
+          onActiveRaterChange={setActiveRaterId}
+          onAddRater={handleAddRater}
+          onRemoveRater={handleRemoveRater}
+          onAggregationChange={(aggregation) => updateGroup({ ...group, aggregation }, 'Change how ratings combine')}
+          onBlindChange={(blind) => updateGroup({ ...group, blind }, blind ? 'Turn on blind rating' : 'Turn off blind rating')}
+          onSubmittedChange={handleSubmittedChange}
+        />
+
+        {/* Blind rating keeps everyone's ratings hidden */}
+        {!visibleWheels && (
+          <div className="mb-6 p-6 bg-white rounded-lg shadow-lg text-center text-gray-700" role="status">
+            <p className="font-semibold">Ratings are hidden until everyone has submitted.</p>
+            <p className="text-sm mt-1">Pick your name under Group Rating to enter your own ratings.</p>
+          </div>
+        )}
+
+        {/* View switch */}
+        <div className="mb-4 flex flex-wrap justify-between items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Up to
+            <select
+              value={wheelLimit}
+              onChange={(e) => setWheelLimit(validateWheelLimit(Number(e.target.value)))}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {Array.from(
+                { length: APP_CONSTANTS.MAX_WHEELS - APP_CONSTANTS.MIN_WHEELS + 1 },
+                (_, i) => APP_CONSTANTS.MIN_WHEELS + i
+              ).map(limit => (
+                <option key={limit} value={limit} disabled={limit < wheels.length}>{limit}</option>
+              ))}
+            </select>
+            opportunities
+          </label>
+          <div className="inline-flex flex-wrap rounded-lg border border-gray-300 overflow-hidden text-sm" role="group" aria-label="View">
+            {(Object.keys(VIEW_MODES) as ViewMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                aria-pressed={viewMode === mode}
+                className={`px-3 py-1.5 ${viewMode === mode ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                {VIEW_MODES[mode]}
+              </button>
             ))}
           </div>
+        </div>
+
+        {/* Mini Wheels View */}
+        {visibleWheels && viewMode === 'mini' && (
+          <MiniWheelGrid
+            wheels={visibleWheels}
+            alignmentSettings={alignmentSettings}
+            scoringMethod={scoringMethod}
+            criteriaComparisons={activeProject.criteriaComparisons}
+            proportionalAngles={weightedWedges}
+            onOpen={openWheel}
+          />
+        )}
+
+        {/* Leaderboard View */}
+        {visibleWheels && viewMode === 'leaderboard' && (
+          <Leaderboard
+            wheels={visibleWheels}
+            alignmentSettings={alignmentSettings}
+            scoringMethod={scoringMethod}
+            criteriaComparisons={activeProject.criteriaComparisons}
+            onOpen={openWheel}
+          />
+        )}
 
-          {/* Visible wheel cards */}
-          {wheels.map((wheel, index) => (
-            <div key={wheel.id} className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
-              {/* Wheel Header */}
-              <div className="mb-4 sm:mb-6">
-                <div className="flex justify-between items-start mb-3">
-                  <div className="relative group flex-1">
+        {/* Tournament View */}
+        {visibleWheels && viewMode === 'tournament' && (
+          <TournamentPanel
+            wheels={visibleWheels}
+            alignmentSettings={alignmentSettings}
+            scoringMethod={scoringMethod}
+            criteriaComparisons={activeProject.criteriaComparisons}
+            proportionalAngles={weightedWedges}
+            tournament={tournament}
+            onTournamentChange={setTournament}
+            onKeepFinalists={keepFinalists}
+          />
+        )}
+
+        {/* Matrix View */}
+        {visibleWheels && viewMode === 'matrix' && (
+          <ComparisonMatrix
+            wheels={visibleWheels}
+            report={alignmentReport}
+            onRatingChange={(wheelId, segmentId, value) => updateSegment(wheelId, segmentId, 'value', value)}
+            readOnly={!canRate}
+          />
+        )}
+
+        {/* Radar View */}
+        {visibleWheels && viewMode === 'radar' && <RadarChart wheels={visibleWheels} report={alignmentReport} />}
+
+        {/* Wheels Grid */}
+        {visibleWheels && viewMode === 'wheels' && (
+          <div className="grid grid-cols-1 xl:grid-cols-2 2xl:grid-cols-3 gap-6 sm:gap-8">
+            {visibleWheels.map((wheel, wheelIndex) => (
+              <div key={wheel.id} id={`wheel-${wheel.id}`} className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+                {/* Wheel Header */}
+                <div className="mb-4 sm:mb-6">
+                  <div className="flex justify-between items-start mb-3">
+                    <div className="relative group flex-1">
+                      <input
+                        type="text"
+                        value={wheel.name}
+                        onChange={(e) => updateWheelName(wheel.id, e.target.value)}
+                        maxLength={APP_CONSTANTS.MAX_NAME_LENGTH}
+                        className="text-xl sm:text-2xl font-bold text-gray-800 border-none outline-none w-full px-2 py-1 rounded cursor-text transition-colors"
+                        style={{ backgroundColor: 'transparent' }}
+                        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#fffbeb'}
+                        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                        placeholder="Enter opportunity name"
+                        aria-label="Opportunity name"
+                      />
+                      <Edit2
+                        size={18}
+                        className="absolute right-2 top-2 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"
+                        aria-hidden="true"
+                      />
+                    </div>
+                    {wheels.length > APP_CONSTANTS.MIN_WHEELS && (
+                      <button
+                        onClick={() => removeWheel(wheel.id)}
+                        className="ml-2 p-1 text-red-600 hover:bg-red-50 rounded"
+                        title="Remove opportunity"
+                        aria-label={`Remove ${wheel.name}`}
+                      >
+                        <X size={20} />
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+                    <label htmlFor={`color-${wheel.id}`} className="text-sm font-medium text-gray-600">
+                      Wheel Color:
+                    </label>
                     <input
-                      type="text"
-                      value={wheel.name}
-                      onChange={(e) => updateWheelName(wheel.id, e.target.value)}
-                      maxLength={APP_CONSTANTS.MAX_NAME_LENGTH}
-                      className="text-xl sm:text-2xl font-bold text-gray-800 border-none outline-none w-full px-2 py-1 rounded cursor-text transition-colors"
-                      style={{ backgroundColor: 'transparent' }}
-                      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#fffbeb'}
-                      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
-                      placeholder="Enter opportunity name"
-                      aria-label="Opportunity name"
-                    />
-                    <Edit2
-                      size={18}
-                      className="absolute right-2 top-2 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"
-                      aria-hidden="true"
+                      id={`color-${wheel.id}`}
+                      type="color"
+                      value={wheel.color}
+                      onChange={(e) => updateWheelColor(wheel.id, e.target.value)}
+                      className="w-12 h-8 rounded border border-gray-300 cursor-pointer"
+                      aria-label="Wheel color picker"
                     />
+                    {wheels.length > 1 && (
+                      <label className="sm:ml-auto px-3 py-2 bg-purple-500 text-white rounded hover:bg-purple-600 flex items-center gap-2 text-xs sm:text-sm cursor-pointer">
+                        <Copy size={14} />
+                        <select
+                          value=""
+                          onChange={(e) => syncConsiderationsToWheel(Number(e.target.value), wheel.id)}
+                          className="bg-transparent text-white outline-none cursor-pointer"
+                          aria-label={`Sync considerations of ${wheel.name} from another opportunity`}
+                          title="Use another opportunity's considerations, keeping ratings that already match"
+                        >
+                          <option value="" disabled>Sync from…</option>
+                          {wheels.filter(w => w.id !== wheel.id).map(other => (
+                            <option key={other.id} value={other.id} className="text-gray-900">
+                              {other.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
                   </div>
-                  {wheels.length > APP_CONSTANTS.MIN_WHEELS && (
-                    <button
-                      onClick={() => removeWheel(wheel.id)}
-                      className="ml-2 p-1 text-red-600 hover:bg-red-50 rounded"
-                      title="Remove opportunity"
-                      aria-label={`Remove ${wheel.name}`}
-                    >
-                      <X size={20} />
-                    </button>
-                  )}
                 </div>
-                <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
-                  <label htmlFor={`color-${wheel.id}`} className="text-sm font-medium text-gray-600">
-                    Wheel Color:
-                  </label>
-                  <input
-                    id={`color-${wheel.id}`}
-                    type="color"
-                    value={wheel.color}
-                    onChange={(e) => updateWheelColor(wheel.id, e.target.value)}
-                    className="w-12 h-8 rounded border border-gray-300 cursor-pointer"
-                    aria-label="Wheel color picker"
+
+                {/* Failed must-haves */}
+                {isDisqualified(wheel) && (
+                  <p className="mb-3 px-3 py-2 bg-red-50 border border-red-200 rounded text-xs sm:text-sm text-red-800" role="status">
+                    <strong>Disqualified:</strong> {describeDealBreakers(getDealBreakerFailures(wheel))}
+                  </p>
+                )}
+
+                {/* Wheel Visualization */}
+                <div className="mb-4 sm:mb-6 flex justify-center overflow-x-auto">
+                  <CircleWheel
+                    wheel={wheel}
+                    onSegmentClick={handleSegmentClick}
+                    onRatingChange={canRate ? (wheelId, segmentId, value) => updateSegment(wheelId, segmentId, 'value', value) : undefined}
+                    selectedSegmentId={selectedSegment?.wheelId === wheel.id ? selectedSegment.segmentId : null}
+                    proportionalAngles={weightedWedges}
+                    onCloseDetails={() => setSelectedSegment(null)}
+                    score={visibleScores?.scores[wheelIndex]}
+                    scoringMethod={visibleScores?.method}
                   />
-                  {index > 0 && (
-                    <button
-                      onClick={() => copyConsiderationsToWheel(wheels[0].id, wheel.id)}
-                      className="sm:ml-auto px-3 sm:px-4 py-2 bg-purple-500 text-white rounded hover:bg-purple-600 flex items-center gap-2 text-xs sm:text-sm"
-                      title={`Copy considerations from ${wheels[0].name}`}
-                    >
-                      <Copy size={14} />
-                      <span className="hidden sm:inline">Copy from {wheels[0].name}</span>
-                      <span className="sm:hidden">Copy from first</span>
-                    </button>
-                  )}
                 </div>
-              </div>
 
-              {/* Wheel Visualization */}
-              <div className="mb-4 sm:mb-6 flex justify-center overflow-x-auto">
-                <CircleWheel
-                  wheel={wheel}
-                  onSegmentClick={handleSegmentClick}
-                  selectedSegmentId={selectedSegment?.wheelId === wheel.id ? selectedSegment.segmentId : null}
-                />
-              </div>
+                <WheelNotesEditor wheel={wheel} onChange={(changes) => updateWheelNotes(wheel.id, changes)} />
 
-              {/* Segments List */}
-              <div className="space-y-3">
-                <div className="flex justify-between items-center mb-3">
-                  <h3 className="text-base sm:text-lg font-semibold text-gray-800">Considerations</h3>
-                  <button
-                    onClick={() => setUseNumberSelector(!useNumberSelector)}
-                    className="text-xs sm:text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded text-gray-700"
-                    aria-label={useNumberSelector ? 'Switch to slider input' : 'Switch to number buttons'}
-                  >
-                    {useNumberSelector ? 'Use Slider' : 'Use Numbers'}
-                  </button>
-                </div>
-                {wheel.segments.map(segment => {
-                  const isSelected = selectedSegment?.wheelId === wheel.id && selectedSegment?.segmentId === segment.id;
-
-                  return (
-                  <div
-                    key={segment.id}
-                    id={`segment-${wheel.id}-${segment.id}`}
-                    className={`flex items-center gap-2 p-3 rounded transition-all duration-300 ${
-                      isSelected
-                        ? 'bg-blue-100 border-2 border-blue-400 shadow-lg scale-[1.02]'
-                        : 'bg-white border-2 border-gray-200'
-                    }`}
-                  >
-                    <div className="flex-1 min-w-0">
-                      <input
-                        type="text"
-                        value={segment.name}
-                        onChange={(e) => updateSegment(wheel.id, segment.id, 'name', e.target.value)}
-                        maxLength={APP_CONSTANTS.MAX_SEGMENT_NAME_LENGTH}
-                        className={`w-full px-3 py-2 border rounded text-sm transition-all bg-white text-gray-900 ${
-                          isSelected
-                            ? 'border-blue-400 ring-2 ring-blue-200'
-                            : 'border-gray-300'
-                        }`}
-                        placeholder="Factor name"
-                        aria-label={`Consideration name for ${segment.name}`}
-                      />
+                {/* Segments List */}
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-800">Considerations</h3>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setWeightedWedges(!weightedWedges)}
+                        className="text-xs sm:text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded text-gray-700"
+                        aria-pressed={weightedWedges}
+                        aria-label={weightedWedges ? 'Draw wedges equally' : 'Size wedges by importance'}
+                      >
+                        {weightedWedges ? 'Equal Wedges' : 'Size by Weight'}
+                      </button>
+                      <button
+                        onClick={() => setUseNumberSelector(!useNumberSelector)}
+                        className="text-xs sm:text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded text-gray-700"
+                        aria-label={useNumberSelector ? 'Switch to slider input' : 'Switch to number buttons'}
+                      >
+                        {useNumberSelector ? 'Use Slider' : 'Use Numbers'}
+                      </button>
                     </div>
-                    {useNumberSelector ? (
-                      <div className="flex items-center gap-1 flex-wrap">
-                        {Array.from({ length: 11 }, (_, i) => i).map(num => (
-                          <button
-                            key={num}
-                            onClick={() => updateSegment(wheel.id, segment.id, 'value', num)}
-                            className={`w-7 h-7 text-xs rounded ${
-                              segment.value === num
-                                ? 'bg-blue-500 text-white font-bold'
-                                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  </div>
+                  {wheel.segments.map(segment => {
+                    const isSelected = selectedSegment?.wheelId === wheel.id && selectedSegment?.segmentId === segment.id;
+
+                    return (
+                    <div
+                      key={segment.id}
+                      id={`segment-${wheel.id}-${segment.id}`}
+                      className={`flex items-center gap-2 p-3 rounded transition-all duration-300 ${
+                        isSelected
+                          ? 'bg-blue-100 border-2 border-blue-400 shadow-lg scale-[1.02]'
+                          : 'bg-white border-2 border-gray-200'
+                      }`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <input
+                          type="text"
+                          value={segment.name}
+                          onChange={(e) => updateSegment(wheel.id, segment.id, 'name', e.target.value)}
+                          maxLength={APP_CONSTANTS.MAX_SEGMENT_NAME_LENGTH}
+                          className={`w-full px-3 py-2 border rounded text-sm transition-all bg-white text-gray-900 ${
+                            isSelected
+                              ? 'border-blue-400 ring-2 ring-blue-200'
+                              : 'border-gray-300'
+                          }`}
+                          placeholder="Factor name"
+                          aria-label={`Consideration name for ${segment.name}`}
+                        />
+                        {/* Importance weight */}
+                        <div className="flex items-center gap-0.5 mt-1" role="group" aria-label={`Importance of ${segment.name}`}>
+                          {Array.from(
+                            { length: APP_CONSTANTS.MAX_WEIGHT - APP_CONSTANTS.MIN_WEIGHT + 1 },
+                            (_, i) => APP_CONSTANTS.MIN_WEIGHT + i
+                          ).map(level => (
+                            <button
+                              key={level}
+                              onClick={() => updateSegment(wheel.id, segment.id, 'weight', level)}
+                              className="p-0.5 rounded hover:bg-gray-100"
+                              aria-label={`Set importance of ${segment.name} to ${level} out of ${APP_CONSTANTS.MAX_WEIGHT}`}
+                              aria-pressed={segment.weight === level}
+                            >
+                              <Star
+                                size={14}
+                                className={level <= segment.weight ? 'text-amber-400 fill-amber-400' : 'text-gray-300'}
+                              />
+                            </button>
+                          ))}
+                          {/* Must-have minimum */}
+                          <select
+                            value={segment.minimum ?? ''}
+                            onChange={(e) => updateSegmentMinimum(
+                              wheel.id,
+                              segment.id,
+                              e.target.value === '' ? null : Number(e.target.value)
+                            )}
+                            className={`ml-2 text-xs rounded border px-1 py-0.5 bg-white ${
+                              segment.minimum !== undefined && segment.value < segment.minimum
+                                ? 'border-red-500 text-red-700'
+                                : 'border-gray-300 text-gray-600'
                             }`}
-                            aria-label={`Rate ${segment.name} as ${num} out of 10`}
-                            aria-pressed={segment.value === num}
+                            aria-label={`Must-have minimum rating for ${segment.name}`}
+                            title="Disqualify this opportunity if the rating falls below this"
                           >
-                            {num}
-                          </button>
-                        ))}
-                      </div>
-                    ) : (
-                      <div className="flex items-center gap-2">
-                        <input
-                          type="range"
-                          min={APP_CONSTANTS.MIN_VALUE}
-                          max={APP_CONSTANTS.MAX_VALUE}
-                          value={segment.value}
-                          onChange={(e) => updateSegment(wheel.id, segment.id, 'value', parseInt(e.target.value))}
-                          className="w-24 sm:w-32"
-                          aria-label={`Rate ${segment.name} from ${APP_CONSTANTS.MIN_VALUE} to ${APP_CONSTANTS.MAX_VALUE}`}
+                            <option value="">No minimum</option>
+                            {Array.from({ length: APP_CONSTANTS.MAX_VALUE }, (_, i) => i + 1).map(level => (
+                              <option key={level} value={level}>Must be ≥ {level}</option>
+                            ))}
+                          </select>
+                          {/* Uncertainty range */}
+                          {segment.range ? (
+                            <span className="ml-2 inline-flex items-center gap-1 text-xs text-gray-600">
+                              <select
+                                value={segment.range.low}
+                                onChange={(e) => updateSegmentRange(wheel.id, segment.id, { low: Number(e.target.value), high: segment.range!.high })}
+                                className="rounded border border-gray-300 px-1 py-0.5 bg-white"
+                                aria-label={`Lowest plausible rating for ${segment.name}`}
+                              >
+                                {Array.from({ length: Math.floor(segment.value) + 1 }, (_, i) => i).map(level => (
+                                  <option key={level} value={level}>{level}</option>
+                                ))}
+                              </select>
+                              –
+                              <select
+                                value={segment.range.high}
+                                onChange={(e) => updateSegmentRange(wheel.id, segment.id, { low: segment.range!.low, high: Number(e.target.value) })}
+                                className="rounded border border-gray-300 px-1 py-0.5 bg-white"
+                                aria-label={`Highest plausible rating for ${segment.name}`}
+                              >
+                                {Array.from(
+                                  { length: APP_CONSTANTS.MAX_VALUE - Math.ceil(segment.value) + 1 },
+                                  (_, i) => Math.ceil(segment.value) + i
+                                ).map(level => (
+                                  <option key={level} value={level}>{level}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => updateSegmentRange(wheel.id, segment.id, null)}
+                                className="p-0.5 rounded hover:bg-gray-100"
+                                aria-label={`Remove range for ${segment.name}`}
+                                title="Use a single rating"
+                              >
+                                <X size={12} />
+                              </button>
+                            </span>
+                          ) : (
+                            <button
+                              onClick={() => updateSegmentRange(wheel.id, segment.id, {
+                                low: Math.floor(segment.value) - 2,
+                                high: Math.ceil(segment.value) + 2
+                              })}
+                              className="ml-2 text-xs rounded border border-gray-300 px-1 py-0.5 text-gray-600 hover:bg-gray-100"
+                              aria-label={`Give ${segment.name} a low to high range`}
+                              title="Unsure? Give a lowest and highest plausible rating"
+                            >
+                              ± Range
+                            </button>
+                          )}
+                        </div>
+                        <RationaleEditor
+                          wheelId={wheel.id}
+                          segment={segment}
+                          onChange={(changes) => updateSegmentNotes(wheel.id, segment.id, changes)}
                         />
-                        <span className="text-sm font-medium text-gray-700 w-6 text-center" aria-live="polite">
-                          {segment.value}
-                        </span>
                       </div>
-                    )}
-                    <button
-                      onClick={() => removeSegment(wheel.id, segment.id)}
-                      className="p-2 text-red-600 hover:bg-red-50 rounded flex-shrink-0"
-                      disabled={wheel.segments.length === APP_CONSTANTS.MIN_SEGMENTS}
-                      aria-label={`Remove ${segment.name} consideration`}
-                    >
-                      <Trash2 size={16} />
-                    </button>
-                  </div>
-                  );
-                })}
+                      {useNumberSelector ? (
+                        <div className="flex items-center gap-1 flex-wrap">
+                          {Array.from({ length: 11 }, (_, i) => i).map(num => (
+                            <button
+                              key={num}
+                              onClick={() => updateSegment(wheel.id, segment.id, 'value', num)}
+                              disabled={!canRate}
+                              className={`w-7 h-7 text-xs rounded disabled:cursor-not-allowed ${
+                                segment.value === num
+                                  ? 'bg-blue-500 text-white font-bold'
+                                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                              }`}
+                              aria-label={`Rate ${segment.name} as ${num} out of 10`}
+                              aria-pressed={segment.value === num}
+                            >
+                              {num}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="range"
+                            min={APP_CONSTANTS.MIN_VALUE}
+                            max={APP_CONSTANTS.MAX_VALUE}
+                            value={segment.value}
+                            onChange={(e) => updateSegment(wheel.id, segment.id, 'value', parseInt(e.target.value))}
+                            disabled={!canRate}
+                            className="w-24 sm:w-32"
+                            aria-label={`Rate ${segment.name} from ${APP_CONSTANTS.MIN_VALUE} to ${APP_CONSTANTS.MAX_VALUE}`}
+                          />
+                          <span className="text-sm font-medium text-gray-700 w-6 text-center" aria-live="polite">
+                            {segment.value}
+                          </span>
+                        </div>
+                      )}
+                      <button
+                        onClick={() => removeSegment(wheel.id, segment.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded flex-shrink-0"
+                        disabled={wheel.segments.length === APP_CONSTANTS.MIN_SEGMENTS}
+                        aria-label={`Remove ${segment.name} consideration`}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                    );
+                  })}
 
-                <button
-                  onClick={() => addSegment(wheel.id)}
-                  className="w-full py-2 px-4 bg-blue-500 text-white rounded hover:bg-blue-600 flex items-center justify-center gap-2 mt-4 text-sm sm:text-base disabled:bg-gray-300 disabled:cursor-not-allowed"
-                  disabled={wheel.segments.length >= APP_CONSTANTS.MAX_SEGMENTS}
-                  aria-label="Add new consideration"
-                >
-                  <Plus size={18} />
-                  Add Consideration
-                </button>
+                  <button
+                    onClick={() => addSegment(wheel.id)}
+                    className="w-full py-2 px-4 bg-blue-500 text-white rounded hover:bg-blue-600 flex items-center justify-center gap-2 mt-4 text-sm sm:text-base disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    disabled={wheel.segments.length >= APP_CONSTANTS.MAX_SEGMENTS}
+                    aria-label="Add new consideration"
+                  >
+                    <Plus size={18} />
+                    Add Consideration
+                  </button>
+                </div>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+        )}
 
         {/* Comparison Section */}
         <div className="mt-6 sm:mt-8">
-          <ComparisonBars wheels={wheels} />
+          {wheels.length > 1 && (
+            <AlignmentPanel
+              wheels={wheels}
+              report={alignmentReport}
+              settings={alignmentSettings}
+              onSettingsChange={setAlignmentSettings}
+              onAddMissing={addMissingToWheel}
+              onRename={renameConsiderations}
+            />
+          )}
+          {visibleWheels && (
+            <>
+              <ComparisonBars
+                wheels={visibleWheels}
+                alignmentSettings={alignmentSettings}
+                scoringMethod={scoringMethod}
+                criteriaComparisons={activeProject.criteriaComparisons}
+                onScoringMethodChange={setScoringMethod}
+              />
+              <SensitivityPanel
+                wheels={visibleWheels}
+                scoringMethod={scoringMethod}
+                criteriaComparisons={activeProject.criteriaComparisons}
+                alignmentSettings={alignmentSettings}
+              />
+              {/* Snapshots hold the group result, so a rater's own view doesn't open them early */}
+              {!resultsHidden && (
+                <SnapshotPanel
+                  wheels={wheels}
+                  snapshots={activeProject.snapshots}
+                  alignmentSettings={alignmentSettings}
+                  proportionalAngles={weightedWedges}
+                  onTakeSnapshot={takeDecisionSnapshot}
+                  onRestore={restoreDecisionSnapshot}
+                  onDelete={deleteDecisionSnapshot}
+                />
+              )}
+            </>
+          )}
         </div>
 
         {/* Export Section */}
@@ -456,9 +1683,29 @@ const DecisionWheelApp: React.FC = () => {
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
             <h3 className="text-base sm:text-lg font-semibold text-gray-800">Export Options</h3>
             <div className="flex gap-2 w-full sm:w-auto">
+              <button
+                onClick={() => setShowImport(true)}
+                className="flex-1 sm:flex-initial px-3 py-1.5 bg-purple-500 text-white text-sm rounded hover:bg-purple-600 flex items-center justify-center gap-1.5"
+                aria-label="Import decision from JSON, CSV or TSV"
+              >
+                <Upload size={16} />
+                Import
+              </button>
+              <button
+                onClick={() => setShowShare(true)}
+                disabled={!visibleWheels}
+                title={hiddenResultsReason}
+                className="flex-1 sm:flex-initial px-3 py-1.5 bg-indigo-500 text-white text-sm rounded hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1.5"
+                aria-label="Share decision as a link"
+              >
+                <Share2 size={16} />
+                Share
+              </button>
               <button
                 onClick={() => setShowPreview(true)}
-                className="flex-1 sm:flex-initial px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 flex items-center justify-center gap-1.5"
+                disabled={!visibleWheels}
+                title={hiddenResultsReason}
+                className="flex-1 sm:flex-initial px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1.5"
                 aria-label="Preview export"
               >
                 <Eye size={16} />
@@ -484,7 +1731,7 @@ const DecisionWheelApp: React.FC = () => {
             aria-modal="true"
             aria-labelledby="export-modal-title"
           >
-            <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-auto p-6">
               <div className="flex justify-between items-center mb-6">
                 <h2 id="export-modal-title" className="text-xl font-bold text-gray-900">Export Format</h2>
                 <button
@@ -497,38 +1744,156 @@ const DecisionWheelApp: React.FC = () => {
               </div>
 
               <div className="space-y-3">
-                <button
-                  onClick={() => {
-                    exportToSVG(wheels);
-                    setShowExportMenu(false);
-                  }}
-                  className="w-full text-left px-4 py-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors border border-gray-200"
-                >
-                  <div className="font-semibold text-gray-900">SVG Vector</div>
-                  <div className="text-sm text-gray-600">Complete visual with comparison - works everywhere</div>
-                </button>
+                {visibleWheels ? (
+                  <>
+                    <button
+                      onClick={() => {
+                        exportToSVG(visibleWheels, {
+                          proportionalAngles: weightedWedges,
+                          alignment: alignmentSettings,
+                          scoring: scoringMethod,
+                          comparisons: activeProject.criteriaComparisons
+                        });
+                        setShowExportMenu(false);
+                      }}
+                      className="w-full text-left px-4 py-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors border border-gray-200"
+                    >
+                      <div className="font-semibold text-gray-900">SVG Vector</div>
+                      <div className="text-sm text-gray-600">Complete visual with comparison - works everywhere</div>
+                    </button>
 
-                <button
-                  onClick={() => {
-                    exportToJSON(wheels);
-                    setShowExportMenu(false);
-                  }}
-                  className="w-full text-left px-4 py-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors border border-gray-200"
-                >
-                  <div className="font-semibold text-gray-900">JSON Data</div>
-                  <div className="text-sm text-gray-600">Backup and restore your decision wheels</div>
-                </button>
-              </div>
+                    <ImageExportPanel
+                      wheels={visibleWheels}
+                      proportionalAngles={weightedWedges}
+                      alignmentSettings={alignmentSettings}
+                      scoringMethod={scoringMethod}
+                      criteriaComparisons={activeProject.criteriaComparisons}
+                      onExported={() => setShowExportMenu(false)}
+                    />
+
+                    <PdfExportPanel
+                      title={activeProject.name}
+                      description={activeProject.description}
+                      wheels={visibleWheels}
+                      proportionalAngles={weightedWedges}
+                      alignmentSettings={alignmentSettings}
+                      scoringMethod={scoringMethod}
+                      criteriaComparisons={activeProject.criteriaComparisons}
+                      onExported={() => setShowExportMenu(false)}
+                    />
+                  </>
+                ) : (
+                  <p className="px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                    {hiddenResultsReason}. Images, reports, tables and backups can be exported once they are revealed.
+                  </p>
+                )}
+
+                {/* Backups hold every rater's ratings, so they wait too */}
+                {visibleWheels && (
+                  <>
+                    <button
+                      onClick={() => {
+                        exportProjectToJSON(activeProject);
+                        setShowExportMenu(false);
+                      }}
+                      className="w-full text-left px-4 py-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors border border-gray-200"
+                    >
+                      <div className="font-semibold text-gray-900">JSON Data – This Decision</div>
+                      <div className="text-sm text-gray-600">Backup and restore "{activeProject.name}"</div>
+                    </button>
+
+                    <button
+                      onClick={() => {
+                        exportWorkspaceToJSON(projects);
+                        setShowExportMenu(false);
+                      }}
+                      className="w-full text-left px-4 py-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors border border-gray-200"
+                    >
+                      <div className="font-semibold text-gray-900">JSON Data – All Decisions</div>
+                      <div className="text-sm text-gray-600">Backup every decision in your workspace, including archived ones</div>
+                    </button>
+                  </>
+                )}
 
-              <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded text-xs text-blue-800">
-                <strong>Need PNG/WebP?</strong> Open the SVG in any image editor or use a free online converter like CloudConvert to convert SVG to PNG.
+                {visibleWheels && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={() => {
+                        exportToCSV(visibleWheels);
+                        setShowExportMenu(false);
+                      }}
+                      className="w-full text-left px-4 py-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors border border-gray-200"
+                    >
+                      <div className="font-semibold text-gray-900">CSV Table</div>
+                      <div className="text-sm text-gray-600">Ratings for spreadsheets</div>
+                    </button>
+
+                    <button
+                      onClick={() => {
+                        exportToTSV(visibleWheels);
+                        setShowExportMenu(false);
+                      }}
+                      className="w-full text-left px-4 py-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors border border-gray-200"
+                    >
+                      <div className="font-semibold text-gray-900">TSV Table</div>
+                      <div className="text-sm text-gray-600">Tab-separated ratings</div>
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           </div>
         )}
 
+        {/* Import Modal */}
+        {showImport && (
+          <ImportModal
+            currentWheels={wheels}
+            wheelLimit={wheelLimit}
+            onImport={handleImport}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
+        {/* Template Modal */}
+        {showTemplates && (
+          <TemplateModal
+            templates={templates}
+            wheels={wheels}
+            onApply={applyTemplateToWheels}
+            onStartDecision={startDecisionFromTemplate}
+            onSave={saveTemplate}
+            onDelete={(templateId) => setTemplates(templates.filter(t => t.id !== templateId))}
+            onImport={importTemplates}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
+        {showPalette && <CommandPalette commands={buildCommands()} onClose={() => setShowPalette(false)} />}
+
+        {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+
+        {showWeightWizard && (
+          <WeightWizard
+            wheels={wheels}
+            alignmentSettings={alignmentSettings}
+            comparisons={activeProject.criteriaComparisons}
+            onApply={applyQuestionnaireWeights}
+            onClose={() => setShowWeightWizard(false)}
+          />
+        )}
+
+        {/* Share Modal */}
+        {showShare && visibleWheels && (
+          <ShareModal
+            title={activeProject.name}
+            wheels={visibleWheels}
+            onClose={() => setShowShare(false)}
+          />
+        )}
+
         {/* Preview Modal */}
-        {showPreview && (
+        {showPreview && visibleWheels && (
           <div
             className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
             role="dialog"
@@ -547,23 +1912,19 @@ const DecisionWheelApp: React.FC = () => {
                 </button>
               </div>
               <div className="p-6">
-                <div className="bg-white space-y-6">
-                  {/* Wheels */}
-                  <div className="overflow-x-auto">
-                    <div className="flex gap-8 justify-center flex-wrap lg:flex-nowrap min-w-max">
-                      {wheels.map(wheel => (
-                        <div key={wheel.id} className="flex-shrink-0">
-                          <CircleWheel wheel={wheel} />
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-
-                  {/* Comparison Bars */}
-                  <div className="mt-8">
-                    <ComparisonBars wheels={wheels} />
-                  </div>
-                </div>
+                {/* Rendered by the same engine as the SVG export */}
+                <img
+                  src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+                    renderDecisionSvg(visibleWheels, {
+                      proportionalAngles: weightedWedges,
+                      alignment: alignmentSettings,
+                      scoring: scoringMethod,
+                      comparisons: activeProject.criteriaComparisons
+                    })
+                  )}`}
+                  alt={`Export preview of ${visibleWheels.map(w => w.name).join(', ')}`}
+                  className="max-w-full h-auto mx-auto"
+                />
               </div>
             </div>
           </div>
@@ -0,0 +1,168 @@
+/**
+ * AlignmentPanel Component
+ *
+ * Shows how considerations line up across opportunities: which factors each
+ * wheel is missing or has extra, and which names differ only by synonym or
+ * spelling. Offers one-click fixes and the matching settings.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlignmentSettings, Wheel } from '../types';
+import { AlignmentReport, formatSynonymText, parseSynonymText, RenameSuggestion } from '../utils/alignment';
+
+interface AlignmentPanelProps {
+  /** Wheels being compared */
+  wheels: Wheel[];
+  /** Alignment of the wheels under the current settings */
+  report: AlignmentReport;
+  /** Current matching settings */
+  settings: AlignmentSettings;
+  /** Callback when matching settings change */
+  onSettingsChange: (settings: AlignmentSettings) => void;
+  /** Callback to add a wheel's missing considerations */
+  onAddMissing: (wheelId: number) => void;
+  /** Callback to apply one or more renames */
+  onRename: (renames: RenameSuggestion[]) => void;
+}
+
+const AlignmentPanel: React.FC<AlignmentPanelProps> = ({
+  wheels,
+  report,
+  settings,
+  onSettingsChange,
+  onAddMissing,
+  onRename
+}) => {
+  const [synonymText, setSynonymText] = useState<string>(formatSynonymText(settings.synonyms));
+
+  // Keep the text in step when settings change elsewhere
+  useEffect(() => {
+    setSynonymText(formatSynonymText(settings.synonyms));
+  }, [settings.synonyms]);
+
+  const wheelName = (wheelId: number): string => wheels.find(w => w.id === wheelId)?.name ?? '';
+  const differences = report.wheels.filter(w => w.missing.length > 0 || w.extra.length > 0);
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900">Consideration Alignment</h2>
+        <span className={`text-sm ${report.aligned ? 'text-green-700' : 'text-amber-700'}`}>
+          {report.aligned
+            ? `All ${report.rows.length} considerations line up`
+            : `${report.rows.filter(row => row.cells.some(cell => cell === null)).length} of ${report.rows.length} considerations don't line up`}
+        </span>
+      </div>
+
+      {/* Missing and extra factors per wheel */}
+      {differences.length > 0 && (
+        <ul className="space-y-3 mb-4">
+          {differences.map(diff => (
+            <li key={diff.wheelId} className="p-3 border border-gray-200 rounded">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <span className="font-semibold text-gray-800 text-sm">{wheelName(diff.wheelId)}</span>
+                {diff.missing.length > 0 && (
+                  <button
+                    onClick={() => onAddMissing(diff.wheelId)}
+                    className="px-3 py-1 bg-purple-500 text-white rounded hover:bg-purple-600 text-xs sm:text-sm"
+                  >
+                    Add {diff.missing.length} missing
+                  </button>
+                )}
+              </div>
+              {diff.missing.length > 0 && (
+                <p className="mt-1 text-xs sm:text-sm text-gray-700">
+                  <span className="text-amber-700 font-medium">Missing:</span> {diff.missing.join(', ')}
+                </p>
+              )}
+              {diff.extra.length > 0 && (
+                <p className="mt-1 text-xs sm:text-sm text-gray-700">
+                  <span className="text-gray-500 font-medium">Only here:</span> {diff.extra.join(', ')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Names matched by synonym or spelling */}
+      {report.renames.length > 0 && (
+        <div className="mb-4">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-semibold text-gray-800">Matched under different names</h3>
+            {report.renames.length > 1 && (
+              <button
+                onClick={() => onRename(report.renames)}
+                className="text-xs sm:text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded text-gray-700"
+              >
+                Rename all
+              </button>
+            )}
+          </div>
+          <ul className="space-y-1">
+            {report.renames.map(rename => (
+              <li key={`${rename.wheelId}-${rename.segmentId}`} className="flex items-center justify-between gap-2 text-xs sm:text-sm text-gray-700">
+                <span>
+                  {wheelName(rename.wheelId)}: "{rename.from}" ≈ "{rename.to}"
+                </span>
+                <button
+                  onClick={() => onRename([rename])}
+                  className="px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded text-gray-700"
+                  aria-label={`Rename ${rename.from} to ${rename.to} in ${wheelName(rename.wheelId)}`}
+                >
+                  Rename to "{rename.to}"
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Matching settings */}
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-600 hover:text-gray-800">Matching settings</summary>
+        <div className="mt-3 space-y-3">
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.fuzzyMatching}
+              onChange={(e) => onSettingsChange({ ...settings, fuzzyMatching: e.target.checked })}
+            />
+            Match similar spellings (e.g. "Neighbors" and "Neighbours")
+          </label>
+
+          {settings.fuzzyMatching && (
+            <label className="flex items-center gap-3 text-gray-700">
+              <span className="whitespace-nowrap">Strictness</span>
+              <input
+                type="range"
+                min="0.6"
+                max="0.95"
+                step="0.05"
+                value={settings.fuzzyThreshold}
+                onChange={(e) => onSettingsChange({ ...settings, fuzzyThreshold: parseFloat(e.target.value) })}
+                className="flex-1"
+                aria-valuetext={`${Math.round(settings.fuzzyThreshold * 100)}% similar`}
+              />
+              <span className="w-12 text-right">{Math.round(settings.fuzzyThreshold * 100)}%</span>
+            </label>
+          )}
+
+          <label className="block text-gray-700">
+            Synonyms <span className="text-gray-500">(one group per line, separated by commas)</span>
+            <textarea
+              value={synonymText}
+              onChange={(e) => setSynonymText(e.target.value)}
+              onBlur={() => onSettingsChange({ ...settings, synonyms: parseSynonymText(synonymText) })}
+              rows={4}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded text-xs font-mono"
+              placeholder="Cost, Price"
+            />
+          </label>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default AlignmentPanel;
@@ -5,175 +5,456 @@
  * Each segment represents a consideration/factor with its rating displayed as
  * a filled pie slice from the center.
  *
+ * Layout comes from the shared SVG rendering engine, so the wheel on screen
+ * matches the exported drawings exactly. Wedges rated below a must-have
+ * minimum are outlined in red, and uncertain ratings show their low-to-high
+ * range as a dashed band. Clicking a wedge with a rationale or evidence
+ * links opens a small card with them next to its label. When earlier
+ * ratings are given (from a snapshot), they are drawn as a dashed outline
+ * over the current ones, with the change beside each value.
+ *
+ * Each wedge is a focusable control: Tab reaches the wheel, the arrow keys
+ * move between wedges, + and - change the rating and Enter selects it. A
+ * visually hidden table gives screen readers the same data.
+ *
  * Security: All data is sanitized before rendering. No user input is directly
  * inserted into the DOM without validation.
  */
 
-import React from 'react';
-import { Wheel } from '../types';
+import React, { useId, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { APP_CONSTANTS, ScoringMethodId, Segment, Wheel } from '../types';
+import { getDealBreakerFailures, SCORING_METHODS, weightedScore } from '../utils/calculations';
+import { hasSegmentNotes, linkLabel } from '../utils/notes';
+import { formatSegmentValue, layoutWheel, WHEEL_CENTER, WHEEL_SIZE, WHEEL_STYLE } from '../utils/svgRenderer';
 
 interface CircleWheelProps {
   /** The wheel data to visualize */
   wheel: Wheel;
   /** Optional callback when a segment is clicked */
   onSegmentClick?: (wheelId: number, segmentId: number) => void;
+  /** Optional callback when a rating is changed with + or - on a focused wedge */
+  onRatingChange?: (wheelId: number, segmentId: number, value: number) => void;
   /** ID of currently selected segment for highlighting */
   selectedSegmentId?: number | null;
+  /** Size wedges in proportion to segment weight instead of equally */
+  proportionalAngles?: boolean;
+  /** Optional callback to close the selected segment's rationale card */
+  onCloseDetails?: () => void;
+  /** Earlier rating per segment ID, drawn as a before/after overlay */
+  previousValues?: Map<number, number>;
+  /** What the earlier ratings are, e.g. the snapshot name */
+  previousLabel?: string;
+  /** Score the comparison gives this wheel; defaults to its weighted average */
+  score?: number;
+  /** Scoring method that produced the score */
+  scoringMethod?: ScoringMethodId;
+}
+
+/** Width of the rationale card in pixels */
+const DETAILS_WIDTH = 220;
+
+/**
+ * Spoken description of a wedge, e.g. "Location, 10 out of 10"
+ */
+function describeSegment(segment: Segment, failing: boolean): string {
+  let text = `${segment.name}, ${segment.value} out of ${APP_CONSTANTS.MAX_VALUE}`;
+  if (segment.range) {
+    text += `, between ${segment.range.low} and ${segment.range.high}`;
+  }
+  if (failing && segment.minimum !== undefined) {
+    text += `, below the must-have minimum of ${segment.minimum}`;
+  }
+  return text;
 }
 
 /**
  * CircleWheel Component
  *
  * Creates an SVG visualization where:
- * - The circle is divided into equal segments (one per consideration)
+ * - The circle is divided into segments (one per consideration), either
+ *   equally or in proportion to each consideration's weight
  * - Each segment fills from center based on its rating (0-10)
  * - Segments can be clicked to scroll to their input field
  * - Selected segments are highlighted with a pulsing ring
+ * - Segments that fail a must-have minimum get a red outline
+ * - Segments with a low/high range get a shaded band between the two
+ * - The selected segment's rationale and links show in a card by its label
+ * - Wedges can be reached and rated from the keyboard
  */
 const CircleWheel: React.FC<CircleWheelProps> = ({
   wheel,
   onSegmentClick,
-  selectedSegmentId
+  onRatingChange,
+  selectedSegmentId,
+  proportionalAngles = false,
+  onCloseDetails,
+  previousValues,
+  previousLabel,
+  score,
+  scoringMethod = 'weighted-sum'
 }) => {
-  // SVG configuration constants
-  const RADIUS = 140;
-  const CENTER_X = 220;
-  const CENTER_Y = 220;
-  const LABEL_DISTANCE = RADIUS + 30;
-
-  const segmentCount = wheel.segments.length;
-  const anglePerSegment = (2 * Math.PI) / segmentCount;
+  // Shared geometry, identical to the exported drawings
+  const wedges = layoutWheel(wheel, { proportionalAngles });
+  // The same wedges filled to their earlier ratings
+  const previousWedges = previousValues
+    ? layoutWheel({
+      ...wheel,
+      segments: wheel.segments.map(s => ({ ...s, value: previousValues.get(s.id) ?? s.value, range: undefined }))
+    }, { proportionalAngles })
+    : null;
+  const failedIds = new Set(getDealBreakerFailures(wheel).map(f => f.segmentId));
 
-  /**
-   * Creates an SVG path for a segment
-   *
-   * @param index - Segment index (determines position around circle)
-   * @param fillPercentage - How much to fill (0-1 based on rating/10)
-   * @returns SVG path string or empty string if no fill
-   */
-  const createSegmentPath = (index: number, fillPercentage: number): string => {
-    const startAngle = index * anglePerSegment - Math.PI / 2;
-    const endAngle = (index + 1) * anglePerSegment - Math.PI / 2;
+  const selectedIndex = wheel.segments.findIndex(s => s.id === selectedSegmentId);
+  const detailsSegment = selectedIndex >= 0 && hasSegmentNotes(wheel.segments[selectedIndex])
+    ? wheel.segments[selectedIndex]
+    : null;
+  const detailsAnchor = detailsSegment ? wedges[selectedIndex].label : null;
 
-    const outerRadius = RADIUS * fillPercentage;
+  // Keyboard access: one wedge is in the tab order and the arrow keys move between them
+  const interactive = !!(onSegmentClick || onRatingChange);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [tabIndex, setTabIndex] = useState<number>(0);
+  const wedgeRefs = useRef<Array<SVGGElement | null>>([]);
+  const tabStop = Math.min(
+    selectedIndex >= 0 && focusedIndex === null ? selectedIndex : tabIndex,
+    Math.max(0, wheel.segments.length - 1)
+  );
 
-    const x1 = CENTER_X + outerRadius * Math.cos(startAngle);
-    const y1 = CENTER_Y + outerRadius * Math.sin(startAngle);
-    const x2 = CENTER_X + outerRadius * Math.cos(endAngle);
-    const y2 = CENTER_Y + outerRadius * Math.sin(endAngle);
+  const idPrefix = useId();
+  const titleId = `${idPrefix}-title`;
+  const descId = `${idPrefix}-desc`;
+  const hasRanges = wheel.segments.some(s => s.range);
+  const hasMinimums = wheel.segments.some(s => s.minimum !== undefined);
+  // Announced as the comparison shows it, not as a plain average
+  const method = SCORING_METHODS[scoringMethod];
+  const spokenScore = `${method.formatScore(score ?? weightedScore(wheel))} (${method.label})`;
 
-    // Create pie slice from center point
-    if (fillPercentage > 0) {
-      return `M ${CENTER_X} ${CENTER_Y} L ${x1} ${y1} A ${outerRadius} ${outerRadius} 0 0 1 ${x2} ${y2} Z`;
-    }
-    return '';
+  /**
+   * Moves focus to another wedge, wrapping around the wheel
+   */
+  const focusWedge = (index: number): void => {
+    const count = wheel.segments.length;
+    const next = (index + count) % count;
+    setTabIndex(next);
+    wedgeRefs.current[next]?.focus();
   };
 
   /**
-   * Calculates position for segment label
-   *
-   * @param index - Segment index
-   * @returns Object with x, y coordinates
+   * Handles arrow, +/-, Home/End and Enter/Space on a focused wedge
    */
-  const getLabelPosition = (index: number): { x: number; y: number } => {
-    const angle = (index + 0.5) * anglePerSegment - Math.PI / 2;
-    return {
-      x: CENTER_X + LABEL_DISTANCE * Math.cos(angle),
-      y: CENTER_Y + LABEL_DISTANCE * Math.sin(angle)
-    };
+  const handleWedgeKeyDown = (e: React.KeyboardEvent, index: number): void => {
+    const segment = wheel.segments[index];
+    switch (e.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        focusWedge(index + 1);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        focusWedge(index - 1);
+        break;
+      case 'Home':
+        focusWedge(0);
+        break;
+      case 'End':
+        focusWedge(wheel.segments.length - 1);
+        break;
+      case '+':
+      case '=':
+        if (!onRatingChange || segment.value >= APP_CONSTANTS.MAX_VALUE) return;
+        onRatingChange(wheel.id, segment.id, segment.value + 1);
+        break;
+      case '-':
+      case '_':
+        if (!onRatingChange || segment.value <= APP_CONSTANTS.MIN_VALUE) return;
+        onRatingChange(wheel.id, segment.id, segment.value - 1);
+        break;
+      case 'Enter':
+      case ' ':
+        onSegmentClick?.(wheel.id, segment.id);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
   };
 
   return (
-    <svg width="440" height="440" className="mx-auto">
-      {wheel.segments.map((segment, index) => {
-        const fillPercentage = segment.value / 10;
-        const pos = getLabelPosition(index);
-        const isSelected = selectedSegmentId === segment.id;
-
-        return (
-          <g
-            key={segment.id}
-            onClick={() => onSegmentClick?.(wheel.id, segment.id)}
-            className={onSegmentClick ? "cursor-pointer" : ""}
-            style={{ transition: 'all 0.2s ease' }}
-          >
-            {/* Segment border outline */}
+    <div className="relative inline-block mx-auto">
+      <svg
+        width={WHEEL_SIZE}
+        height={WHEEL_SIZE}
+        fontFamily={WHEEL_STYLE.fontFamily}
+        className="mx-auto"
+        role="group"
+        aria-labelledby={titleId}
+        aria-describedby={descId}
+      >
+        <title id={titleId}>{`${wheel.name} decision wheel`}</title>
+        <desc id={descId}>
+          {`${wheel.segments.length} considerations, scoring ${spokenScore}. ` +
+            'Each wedge fills from the centre in proportion to its rating.' +
+            (failedIds.size > 0 ? ` ${failedIds.size} fall below a must-have minimum.` : '') +
+            (interactive
+              ? ` Use the arrow keys to move between considerations${onRatingChange ? ', + and - to change a rating' : ''}` +
+                (onSegmentClick ? ' and Enter to select one.' : '.')
+              : '')}
+        </desc>
+        {wheel.segments.map((segment, index) => {
+          const wedge = wedges[index];
+          const isSelected = selectedSegmentId === segment.id;
+          const isFailing = failedIds.has(segment.id);
+          const previous = previousValues?.get(segment.id);
+          const delta = previous === undefined ? 0 : segment.value - previous;
+
+          return (
+            <g
+              key={segment.id}
+              ref={(element) => { wedgeRefs.current[index] = element; }}
+              onClick={() => onSegmentClick?.(wheel.id, segment.id)}
+              className={onSegmentClick ? "cursor-pointer" : ""}
+              style={{ transition: 'all 0.2s ease', outline: 'none' }}
+              {...(interactive
+                ? {
+                  role: 'button',
+                  tabIndex: index === tabStop ? 0 : -1,
+                  'aria-label': describeSegment(segment, isFailing),
+                  'aria-pressed': isSelected,
+                  onKeyDown: (e: React.KeyboardEvent) => handleWedgeKeyDown(e, index),
+                  onFocus: () => { setFocusedIndex(index); setTabIndex(index); },
+                  onBlur: () => setFocusedIndex(null)
+                }
+                : { 'aria-hidden': true })}
+            >
+              {/* Segment border outline */}
+              <path
+                d={wedge.outlinePath}
+                fill="none"
+                stroke={isSelected ? wheel.color : WHEEL_STYLE.outline}
+                strokeWidth={isSelected ? "4" : "2"}
+                className="transition-all duration-200"
+              />
+
+              {/* Filled portion based on rating */}
+              <path
+                d={wedge.fillPath}
+                fill={wheel.color}
+                opacity={isSelected ? 1 : WHEEL_STYLE.fillOpacity}
+                className="transition-all duration-200 hover:opacity-100"
+              />
+
+              {/* Uncertainty band from the low to the high estimate */}
+              {wedge.rangePath && (
+                <path
+                  d={wedge.rangePath}
+                  fill={wheel.color}
+                  fillOpacity={WHEEL_STYLE.rangeOpacity}
+                  stroke={wheel.color}
+                  strokeWidth="1.5"
+                  strokeDasharray={WHEEL_STYLE.rangeDash}
+                />
+              )}
+
+              {/* Dividing lines between segments */}
+              <line
+                {...wedge.divider}
+                stroke={WHEEL_STYLE.divider}
+                strokeWidth="1"
+              />
+
+              {/* Segment name label */}
+              <text
+                x={wedge.label.x}
+                y={wedge.label.y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={WHEEL_STYLE.labelFontSize}
+                fontWeight={isSelected ? 700 : 500}
+                fill={isSelected ? WHEEL_STYLE.labelColorSelected : WHEEL_STYLE.labelColor}
+                className="transition-all duration-200"
+              >
+                {segment.name}
+              </text>
+
+              {/* Segment value label */}
+              <text
+                x={wedge.label.x}
+                y={wedge.label.y + WHEEL_STYLE.valueOffset}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={WHEEL_STYLE.valueFontSize}
+                fontWeight={isSelected || isFailing ? 700 : 400}
+                fill={isFailing ? WHEEL_STYLE.dealBreaker : isSelected ? WHEEL_STYLE.valueColorSelected : WHEEL_STYLE.valueColor}
+                className="transition-all duration-200"
+              >
+                {formatSegmentValue(segment)}
+                {delta !== 0 && (
+                  <tspan fontWeight={700} fill={delta > 0 ? WHEEL_STYLE.increase : WHEEL_STYLE.decrease}>
+                    {` ${delta > 0 ? '▲' : '▼'}${Math.abs(delta)}`}
+                  </tspan>
+                )}
+              </text>
+
+              {/* Selection indicator ring (pulsing animation) */}
+              {isSelected && (
+                <circle
+                  cx={WHEEL_CENTER}
+                  cy={WHEEL_CENTER}
+                  r={wedge.fillRadius + 5}
+                  fill="none"
+                  stroke={wheel.color}
+                  strokeWidth="3"
+                  opacity="0.6"
+                  strokeDasharray="5,5"
+                  className="animate-pulse"
+                />
+              )}
+            </g>
+          );
+        })}
+
+        {/* Deal-breaker outlines, drawn over every wedge */}
+        {wedges
+          .filter(wedge => failedIds.has(wheel.segments[wedge.index].id))
+          .map(wedge => (
             <path
-              d={createSegmentPath(index, 1)}
+              key={`deal-breaker-${wedge.index}`}
+              d={wedge.outlinePath}
               fill="none"
-              stroke={isSelected ? wheel.color : "#e5e7eb"}
-              strokeWidth={isSelected ? "4" : "2"}
-              className="transition-all duration-200"
+              stroke={WHEEL_STYLE.dealBreaker}
+              strokeWidth={WHEEL_STYLE.dealBreakerWidth}
+              strokeLinejoin="round"
+              pointerEvents="none"
             />
+          ))}
 
-            {/* Filled portion based on rating */}
+        {/* Keyboard focus ring */}
+        {focusedIndex !== null && wedges[focusedIndex] && (
+          <path
+            d={wedges[focusedIndex].outlinePath}
+            fill="none"
+            stroke={WHEEL_STYLE.focus}
+            strokeWidth="3"
+            strokeLinejoin="round"
+            pointerEvents="none"
+          />
+        )}
+
+        {/* Earlier ratings, drawn over every wedge */}
+        {previousWedges && previousWedges
+          .filter(wedge => previousValues!.has(wheel.segments[wedge.index].id))
+          .map(wedge => (
             <path
-              d={createSegmentPath(index, fillPercentage)}
-              fill={wheel.color}
-              opacity={isSelected ? "1" : "0.8"}
-              className="transition-all duration-200 hover:opacity-100"
+              key={`previous-${wedge.index}`}
+              d={wedge.fillPath}
+              fill="none"
+              stroke={WHEEL_STYLE.previous}
+              strokeWidth="2"
+              strokeDasharray={WHEEL_STYLE.previousDash}
+              pointerEvents="none"
             />
+          ))}
 
-            {/* Dividing lines between segments */}
-            <line
-              x1={CENTER_X}
-              y1={CENTER_Y}
-              x2={CENTER_X + RADIUS * Math.cos(index * anglePerSegment - Math.PI / 2)}
-              y2={CENTER_Y + RADIUS * Math.sin(index * anglePerSegment - Math.PI / 2)}
-              stroke="#9ca3af"
-              strokeWidth="1"
-            />
+        {/* Center circle decoration */}
+        <circle
+          cx={WHEEL_CENTER}
+          cy={WHEEL_CENTER}
+          r="8"
+          fill="white"
+          stroke={WHEEL_STYLE.divider}
+          strokeWidth="2"
+        />
+      </svg>
 
-            {/* Segment name label */}
-            <text
-              x={pos.x}
-              y={pos.y}
-              textAnchor="middle"
-              className={`text-sm font-medium ${isSelected ? 'fill-gray-900 font-bold' : 'fill-gray-700'} transition-all duration-200`}
-              dominantBaseline="middle"
-            >
-              {segment.name}
-            </text>
-
-            {/* Segment value label */}
-            <text
-              x={pos.x}
-              y={pos.y + 16}
-              textAnchor="middle"
-              className={`text-xs ${isSelected ? 'fill-gray-700 font-bold' : 'fill-gray-500'} transition-all duration-200`}
-              dominantBaseline="middle"
-            >
-              {segment.value}
-            </text>
-
-            {/* Selection indicator ring (pulsing animation) */}
-            {isSelected && (
-              <circle
-                cx={CENTER_X}
-                cy={CENTER_Y}
-                r={RADIUS * fillPercentage + 5}
-                fill="none"
-                stroke={wheel.color}
-                strokeWidth="3"
-                opacity="0.6"
-                strokeDasharray="5,5"
-                className="animate-pulse"
-              />
+      {/* The same data for screen readers */}
+      <table className="sr-only">
+        <caption>{wheel.name} ratings</caption>
+        <thead>
+          <tr>
+            <th scope="col">Consideration</th>
+            <th scope="col">Rating out of {APP_CONSTANTS.MAX_VALUE}</th>
+            {previousValues && <th scope="col">{previousLabel ? `Rating at ${previousLabel}` : 'Earlier rating'}</th>}
+            {hasRanges && <th scope="col">Range</th>}
+            <th scope="col">Importance out of {APP_CONSTANTS.MAX_WEIGHT}</th>
+            {hasMinimums && <th scope="col">Must-have minimum</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {wheel.segments.map(segment => (
+            <tr key={segment.id}>
+              <th scope="row">{segment.name}</th>
+              <td>{segment.value}</td>
+              {previousValues && <td>{previousValues.get(segment.id) ?? 'New'}</td>}
+              {hasRanges && <td>{segment.range ? `${segment.range.low} to ${segment.range.high}` : '–'}</td>}
+              <td>{segment.weight}</td>
+              {hasMinimums && (
+                <td>
+                  {segment.minimum === undefined
+                    ? '–'
+                    : `${segment.minimum}${failedIds.has(segment.id) ? ' (not met)' : ' (met)'}`}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {previousWedges && (
+        <p className="mt-1 flex items-center justify-center gap-2 text-xs text-gray-600">
+          <svg width="24" height="8" aria-hidden="true">
+            <line x1="0" y1="4" x2="24" y2="4" stroke={WHEEL_STYLE.previous} strokeWidth="2" strokeDasharray={WHEEL_STYLE.previousDash} />
+          </svg>
+          {previousLabel ? `Ratings at “${previousLabel}”` : 'Earlier ratings'}
+        </p>
+      )}
+
+      {/* Rationale card for the selected segment, below labels in the top half and above the rest */}
+      {detailsSegment && detailsAnchor && (
+        <div
+          role="dialog"
+          aria-label={`Rationale for ${detailsSegment.name}`}
+          className="absolute z-10 p-3 bg-white border border-gray-300 rounded shadow-lg text-left text-xs text-gray-700"
+          style={{
+            width: DETAILS_WIDTH,
+            left: Math.min(Math.max(detailsAnchor.x - DETAILS_WIDTH / 2, 0), WHEEL_SIZE - DETAILS_WIDTH),
+            ...(detailsAnchor.y < WHEEL_CENTER
+              ? { top: detailsAnchor.y + WHEEL_STYLE.valueOffset + 12 }
+              : { top: detailsAnchor.y - 12, transform: 'translateY(-100%)' })
+          }}
+        >
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <span className="font-semibold text-gray-900">
+              {detailsSegment.name}: {formatSegmentValue(detailsSegment)}
+            </span>
+            {onCloseDetails && (
+              <button
+                onClick={onCloseDetails}
+                className="p-0.5 rounded text-gray-500 hover:bg-gray-100"
+                aria-label="Close rationale"
+              >
+                <X size={12} />
+              </button>
             )}
-          </g>
-        );
-      })}
-
-      {/* Center circle decoration */}
-      <circle
-        cx={CENTER_X}
-        cy={CENTER_Y}
-        r="8"
-        fill="white"
-        stroke="#9ca3af"
-        strokeWidth="2"
-      />
-    </svg>
+          </div>
+          {detailsSegment.rationale && (
+            <p className="whitespace-pre-line">{detailsSegment.rationale}</p>
+          )}
+          {detailsSegment.links && (
+            <ul className="mt-1 space-y-0.5">
+              {detailsSegment.links.map(link => (
+                <li key={link} className="truncate">
+                  <a href={link} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    {linkLabel(link)}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,126 @@
+/**
+ * CommandPalette Component
+ *
+ * A searchable list of every action in the app, opened with Ctrl/Cmd+K.
+ * Type to filter, use the arrow keys to pick a command and Enter to run it;
+ * Escape closes the palette. Commands that can't run right now are listed
+ * with the reason.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { filterCommands, PaletteCommand } from '../utils/keyboard';
+
+interface CommandPaletteProps {
+  /** Every available command */
+  commands: PaletteCommand[];
+  /** Callback when the palette is dismissed or a command has run */
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => filterCommands(commands, query), [commands, query]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Keep the highlighted command in view
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  /**
+   * Runs a command unless it is disabled
+   */
+  const run = (command: PaletteCommand | undefined): void => {
+    if (!command || command.disabledReason) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent): void => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(results.length === 0 ? 0 : (activeIndex + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(results.length === 0 ? 0 : (activeIndex - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 p-4 pt-[12vh]"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-lg w-full overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-gray-200">
+          <Search size={18} className="text-gray-400" aria-hidden="true" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+            placeholder="Type a command…"
+            className="flex-1 py-3 text-sm outline-none"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-list"
+            aria-activedescendant={results[activeIndex] ? `command-${results[activeIndex].id}` : undefined}
+            aria-label="Search commands"
+          />
+        </div>
+        <ul id="command-palette-list" ref={listRef} role="listbox" className="max-h-[50vh] overflow-auto py-1">
+          {results.length === 0 && <li className="px-4 py-3 text-sm text-gray-500">No matching commands</li>}
+          {results.map((command, index) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              data-index={index}
+              role="option"
+              aria-selected={index === activeIndex}
+              aria-disabled={!!command.disabledReason}
+              onClick={() => run(command)}
+              onMouseMove={() => setActiveIndex(index)}
+              className={`flex items-center justify-between gap-3 px-4 py-2 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50' : ''
+              } ${command.disabledReason ? 'text-gray-400 cursor-not-allowed' : 'text-gray-800'}`}
+            >
+              <span className="min-w-0">
+                <span className="text-xs text-gray-500 mr-2">{command.group}</span>
+                {command.label}
+                {command.disabledReason && <span className="block text-xs">{command.disabledReason}</span>}
+              </span>
+              {command.shortcut && (
+                <kbd className="shrink-0 px-1.5 py-0.5 text-xs font-mono bg-gray-100 border border-gray-300 rounded text-gray-600">
+                  {command.shortcut}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -2,96 +2,314 @@
  * ComparisonBars Component
  *
  * Displays a visual comparison of all decision wheels using horizontal bar charts.
- * Shows average ratings, percentages, and highlights the highest-rated option.
+ * Shows scores from the selected scoring method (weighted sum, TOPSIS or AHP),
+ * percentages, and highlights the highest-rated option. When ratings have
+ * uncertainty ranges, a seeded simulation adds a confidence interval to each
+ * bar and every option's probability of winning.
  *
- * Also displays a warning when wheels have different considerations, indicating
- * that the comparison may not be directly equivalent.
+ * Also displays a warning when wheels have different considerations, listing
+ * exactly which factors each opportunity is missing.
+ *
+ * The leading opportunity is marked in text as well as colour, and a
+ * visually hidden table gives screen readers the figures behind the bars.
  */
 
-import React from 'react';
-import { Wheel } from '../types';
-import { calculateAverage, doConsiderationsMatch } from '../utils/calculations';
+import React, { useMemo } from 'react';
+import { Trophy } from 'lucide-react';
+import { AlignmentSettings, CriteriaComparison, ScoringMethodId, Wheel } from '../types';
+import {
+  AHP_CONSISTENCY_LIMIT,
+  calculateAverage,
+  CONFIDENCE_LEVEL,
+  describeDealBreakers,
+  getDealBreakerFailures,
+  hasCustomWeights,
+  hasUncertainty,
+  SCORING_METHODS,
+  scoreWheels,
+  simulateWinProbabilities
+} from '../utils/calculations';
+import { alignConsiderations } from '../utils/alignment';
 
 interface ComparisonBarsProps {
   /** Array of wheels to compare */
   wheels: Wheel[];
+  /** How considerations are matched across wheels */
+  alignmentSettings?: AlignmentSettings;
+  /** Method used to score and rank the wheels (default weighted sum) */
+  scoringMethod?: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  criteriaComparisons?: CriteriaComparison[];
+  /** Callback to switch scoring method; the picker is hidden without it */
+  onScoringMethodChange?: (method: ScoringMethodId) => void;
 }
 
 /**
  * ComparisonBars Component
  *
  * Features:
- * - Horizontal bar visualization of average ratings
+ * - Horizontal bar visualization of scores from the selected method
+ * - Labels which method produced the ranking, with its caveats
+ * - Shows the simple average alongside when weights are in use
  * - Percentage calculation (0-100%)
  * - Identifies and highlights the highest-rated wheel
+ * - Flags wheels that fail a must-have minimum and leaves them out of the running
+ * - With uncertain ratings, shows each score's confidence interval and win probability
  * - Warns when considerations don't match across wheels
  * - Shows score differential between top choices
  */
-const ComparisonBars: React.FC<ComparisonBarsProps> = ({ wheels }) => {
-  // Calculate averages for all wheels
-  const averages = wheels.map(wheel => ({
+const ComparisonBars: React.FC<ComparisonBarsProps> = ({
+  wheels,
+  alignmentSettings,
+  scoringMethod = 'weighted-sum',
+  criteriaComparisons,
+  onScoringMethodChange
+}) => {
+  // Score every wheel with the selected method
+  const result = scoreWheels(wheels, scoringMethod, alignmentSettings, criteriaComparisons);
+  const method = SCORING_METHODS[result.method];
+  const averages = wheels.map((wheel, index) => ({
     wheel,
-    avg: parseFloat(calculateAverage(wheel))
+    score: result.scores[index],
+    // Compared at display precision so level-looking scores count as a tie
+    avg: parseFloat(result.scores[index].toFixed(1)),
+    simpleAvg: calculateAverage(wheel),
+    failures: getDealBreakerFailures(wheel)
   }));
+  const disqualified = averages.filter(a => a.failures.length > 0);
+
+  // Only simulate when some rating is actually uncertain
+  const simulation = useMemo(
+    () => (hasUncertainty(wheels)
+      ? simulateWinProbabilities(wheels, { method: scoringMethod, alignment: alignmentSettings, comparisons: criteriaComparisons })
+      : null),
+    [wheels, scoringMethod, alignmentSettings, criteriaComparisons]
+  );
+  const confidencePercent = Math.round(CONFIDENCE_LEVEL * 100);
+
+  // Only call out weighting when it can change the result
+  const weighted = hasCustomWeights(wheels);
 
   // Check if all wheels have matching considerations
-  const considerationsMatch = doConsiderationsMatch(wheels);
+  const alignment = alignConsiderations(wheels, alignmentSettings);
 
-  // Sort to find highest rated
-  const sorted = [...averages].sort((a, b) => b.avg - a.avg);
+  // Sort to find highest rated among wheels that meet every must-have
+  const sorted = averages.filter(a => a.failures.length === 0).sort((a, b) => b.avg - a.avg);
   const highest = sorted[0];
   const secondHighest = sorted[1];
 
+  // Text equivalent of the winner highlight: the leader, or everyone tied at the top
+  const leaders = highest ? sorted.filter(a => a.avg === highest.avg).map(a => a.wheel.id) : [];
+  const leaderLabel = leaders.length > 1 ? 'Tied for top' : 'Top choice';
+
+  /**
+   * Plain-text status of a wheel for the data table
+   */
+  const describeStatus = (wheelId: number, failures: typeof averages[number]['failures']): string => {
+    if (failures.length > 0) return `Disqualified: ${describeDealBreakers(failures)}`;
+    return leaders.includes(wheelId) ? leaderLabel : '–';
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
       <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-6 text-center">
         Overall Comparison
       </h2>
+      {/* Scoring method */}
+      <div className="-mt-4 mb-6 text-center">
+        {onScoringMethodChange ? (
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-xs sm:text-sm" role="group" aria-label="Scoring method">
+            {Object.values(SCORING_METHODS).map(option => (
+              <button
+                key={option.id}
+                onClick={() => onScoringMethodChange(option.id)}
+                aria-pressed={scoringMethod === option.id}
+                title={option.description}
+                className={`px-3 py-1 ${scoringMethod === option.id ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        ) : null}
+        <p className="mt-2 text-xs sm:text-sm text-gray-500">
+          Ranked by {method.label} ({method.scoreLabel}){weighted ? ', weighted by importance' : ''}
+        </p>
+        <p className="text-xs text-gray-400">{method.description}</p>
+      </div>
+
+      {/* Caveats from the scoring method */}
+      {result.notes.length > 0 && (
+        <div className="mb-6 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          <ul className="list-disc pl-5 space-y-1">
+            {result.notes.map(note => <li key={note}>{note}</li>)}
+          </ul>
+          {result.consistency.length > 0 && (
+            <details className="mt-2">
+              <summary className="cursor-pointer">Consistency ratios (limit {AHP_CONSISTENCY_LIMIT.toFixed(2)})</summary>
+              <ul className="mt-1 pl-5">
+                {result.consistency.map(entry => (
+                  <li key={entry.criterion} className={entry.ratio > AHP_CONSISTENCY_LIMIT ? 'font-semibold' : ''}>
+                    {entry.criterion}: {entry.ratio.toFixed(3)}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
 
       {/* Warning when considerations don't match */}
-      {!considerationsMatch && (
+      {!alignment.aligned && (
         <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
           <p className="text-sm text-amber-800">
             <strong>⚠️ Note:</strong> The considerations don't match across all opportunities.
             This comparison is based on the average rating of each opportunity's own considerations,
             not a direct side-by-side comparison of the same factors.
           </p>
+          <ul className="mt-2 text-sm text-amber-800 list-disc pl-5 space-y-1">
+            {alignment.wheels
+              .filter(report => report.missing.length > 0)
+              .map(report => (
+                <li key={report.wheelId}>
+                  <strong>{wheels.find(w => w.id === report.wheelId)?.name}</strong> is missing{' '}
+                  {report.missing.join(', ')}
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Wheels knocked out by a must-have */}
+      {disqualified.length > 0 && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">
+            <strong>Disqualified:</strong> these opportunities miss a must-have minimum and can't win,
+            whatever their score.
+          </p>
+          <ul className="mt-2 text-sm text-red-800 list-disc pl-5 space-y-1">
+            {disqualified.map(({ wheel, failures }) => (
+              <li key={wheel.id}>
+                <strong>{wheel.name}</strong>: {describeDealBreakers(failures)}
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
+      {/* The same figures for screen readers */}
+      <table className="sr-only">
+        <caption>Overall comparison ranked by {method.label} ({method.scoreLabel})</caption>
+        <thead>
+          <tr>
+            <th scope="col">Opportunity</th>
+            <th scope="col">Score</th>
+            <th scope="col">Percentage</th>
+            {weighted && result.method === 'weighted-sum' && <th scope="col">Simple average</th>}
+            {simulation && <th scope="col">{confidencePercent}% interval</th>}
+            {simulation && <th scope="col">Chance of winning</th>}
+            <th scope="col">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {averages.map(({ wheel, score, simpleAvg, failures }, index) => {
+            const outcome = simulation?.wheels[index];
+            return (
+              <tr key={wheel.id}>
+                <th scope="row">{wheel.name}</th>
+                <td>{method.formatScore(score)}</td>
+                <td>{((score / 10) * 100).toFixed(0)}%</td>
+                {weighted && result.method === 'weighted-sum' && <td>{simpleAvg.toFixed(1)}</td>}
+                {simulation && (
+                  <td>{outcome ? `${method.formatScore(outcome.interval.low)} to ${method.formatScore(outcome.interval.high)}` : '–'}</td>
+                )}
+                {simulation && <td>{outcome ? `${Math.round(outcome.probability * 100)}%` : '–'}</td>}
+                <td>{describeStatus(wheel.id, failures)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
       {/* Bar charts for each wheel */}
-      <div className="space-y-6">
-        {averages.map(({ wheel, avg }) => {
-          const percentage = (avg / 10) * 100;
+      <div className="space-y-6" aria-hidden="true">
+        {averages.map(({ wheel, score, simpleAvg, failures }, index) => {
+          const percentage = (score / 10) * 100;
+          const isOut = failures.length > 0;
+          const outcome = simulation?.wheels[index];
 
           return (
             <div key={wheel.id} className="space-y-2">
               {/* Wheel name and score */}
               <div className="flex justify-between items-center mb-2">
-                <span className="text-sm sm:text-base font-semibold text-gray-700">
+                <span className="text-sm sm:text-base font-semibold text-gray-700 flex items-center gap-2">
                   {wheel.name}
+                  {leaders.includes(wheel.id) && (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-100 text-green-800 text-xs font-semibold">
+                      <Trophy size={12} aria-hidden="true" />
+                      {leaderLabel}
+                    </span>
+                  )}
+                  {isOut && (
+                    <span
+                      className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs font-semibold"
+                      title={describeDealBreakers(failures)}
+                    >
+                      Disqualified
+                    </span>
+                  )}
                 </span>
                 <span className="text-sm sm:text-base font-bold text-gray-900">
-                  {avg.toFixed(1)} / 10
+                  {method.formatScore(score)}
+                  {weighted && result.method === 'weighted-sum' && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      (simple avg {simpleAvg.toFixed(1)})
+                    </span>
+                  )}
                 </span>
               </div>
 
               {/* Progress bar */}
-              <div className="w-full bg-gray-200 rounded-full h-8 sm:h-10 overflow-hidden">
-                <div
-                  className="h-full rounded-full transition-all duration-500 ease-out flex items-center justify-end pr-3"
-                  style={{
-                    width: `${percentage}%`,
-                    backgroundColor: wheel.color
-                  }}
-                >
-                  {percentage > 15 && (
-                    <span className="text-white text-xs sm:text-sm font-semibold">
-                      {percentage.toFixed(0)}%
-                    </span>
-                  )}
+              <div className="relative">
+                <div className="w-full bg-gray-200 rounded-full h-8 sm:h-10 overflow-hidden">
+                  <div
+                    className="h-full rounded-full transition-all duration-500 ease-out flex items-center justify-end pr-3"
+                    style={{
+                      width: `${percentage}%`,
+                      backgroundColor: wheel.color,
+                      opacity: isOut ? 0.35 : 1
+                    }}
+                  >
+                    {percentage > 15 && (
+                      <span className="text-white text-xs sm:text-sm font-semibold">
+                        {percentage.toFixed(0)}%
+                      </span>
+                    )}
+                  </div>
                 </div>
+
+                {/* Confidence interval whisker */}
+                {outcome && outcome.interval.high > outcome.interval.low && (
+                  <div
+                    className="absolute top-1/2 h-3 -translate-y-1/2 border-x-2 border-gray-800 pointer-events-none"
+                    style={{
+                      left: `${outcome.interval.low * 10}%`,
+                      width: `${(outcome.interval.high - outcome.interval.low) * 10}%`
+                    }}
+                    aria-hidden="true"
+                  >
+                    <div className="absolute top-1/2 inset-x-0 h-0.5 -translate-y-1/2 bg-gray-800" />
+                  </div>
+                )}
               </div>
+
+              {outcome && (
+                <p className="text-xs sm:text-sm text-gray-600">
+                  {confidencePercent}% interval {method.formatScore(outcome.interval.low)} to {method.formatScore(outcome.interval.high)}
+                  {' · '}
+                  <span className="font-semibold text-gray-800">wins {Math.round(outcome.probability * 100)}%</span> of simulations
+                </p>
+              )}
             </div>
           );
         })}
@@ -100,7 +318,12 @@ const ComparisonBars: React.FC<ComparisonBarsProps> = ({ wheels }) => {
       {/* Summary section showing highest rated */}
       <div className="mt-6 pt-6 border-t border-gray-200">
         <div className="text-center">
-          {highest.avg === secondHighest?.avg ? (
+          {!highest ? (
+            // Every wheel failed a must-have
+            <p className="text-base sm:text-lg text-red-700 font-bold">
+              No opportunity meets every must-have minimum
+            </p>
+          ) : highest.avg === secondHighest?.avg ? (
             // Handle tie scenario
             <p className="text-base sm:text-lg text-gray-700 font-bold">
               Multiple opportunities are rated equally at the top
@@ -108,18 +331,25 @@ const ComparisonBars: React.FC<ComparisonBarsProps> = ({ wheels }) => {
           ) : (
             // Show winner and margin
             <p className="text-base sm:text-lg text-gray-700">
+              <span className="font-semibold">Top choice: </span>
               <span className="font-bold" style={{ color: highest.wheel.color }}>
                 {highest.wheel.name}
               </span>
-              {' '}scores highest at{' '}
-              <span className="font-bold">{highest.avg.toFixed(1)}</span>
+              {disqualified.length > 0 ? ' is the best qualifying opportunity at ' : ' scores highest at '}
+              <span className="font-bold">{method.formatScore(highest.score)}</span>
               {secondHighest && (
                 <>
                   {', '}
-                  <span className="font-bold">
-                    {(highest.avg - secondHighest.avg).toFixed(1)}
-                  </span>
-                  {' points ahead of '}
+                  {result.method === 'weighted-sum' ? (
+                    <>
+                      <span className="font-bold">
+                        {(highest.avg - secondHighest.avg).toFixed(1)}
+                      </span>
+                      {' points ahead of '}
+                    </>
+                  ) : (
+                    'ahead of '
+                  )}
                   <span className="font-bold" style={{ color: secondHighest.wheel.color }}>
                     {secondHighest.wheel.name}
                   </span>
@@ -127,6 +357,21 @@ const ComparisonBars: React.FC<ComparisonBarsProps> = ({ wheels }) => {
               )}
             </p>
           )}
+
+          {/* Chance of winning once uncertainty is taken into account */}
+          {simulation && (
+            <p className="mt-3 text-xs sm:text-sm text-gray-600">
+              Allowing for uncertain ratings ({simulation.runs.toLocaleString()} simulated outcomes):{' '}
+              {simulation.wheels.map((outcome, index) => (
+                <span key={outcome.wheelId}>
+                  {index > 0 && ' · '}
+                  <span className="font-semibold" style={{ color: wheels[index].color }}>{wheels[index].name}</span>
+                  {' '}{Math.round(outcome.probability * 100)}%
+                </span>
+              ))}
+              {simulation.noWinner > 0 && ` · no qualifying winner ${Math.round(simulation.noWinner * 100)}%`}
+            </p>
+          )}
         </div>
       </div>
     </div>
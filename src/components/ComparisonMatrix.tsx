@@ -0,0 +1,220 @@
+/**
+ * ComparisonMatrix Component
+ *
+ * Side-by-side heatmap of every consideration (rows) against every
+ * opportunity (columns). Cells are colour-scaled by rating and editable in
+ * place; each row marks its best and worst rating and shows the spread.
+ * Considerations a wheel doesn't have are shown as gaps, never as zeros.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { APP_CONSTANTS, Wheel } from '../types';
+import { AlignmentReport } from '../utils/alignment';
+
+interface ComparisonMatrixProps {
+  /** Wheels shown as columns */
+  wheels: Wheel[];
+  /** Alignment that decides which segments share a row */
+  report: AlignmentReport;
+  /** Callback when a rating is edited */
+  onRatingChange: (wheelId: number, segmentId: number, value: number) => void;
+  /** Show ratings without allowing edits */
+  readOnly?: boolean;
+}
+
+/** Hatched background that marks a missing consideration */
+const GAP_PATTERN = 'repeating-linear-gradient(45deg, #f9fafb, #f9fafb 4px, #f3f4f6 4px, #f3f4f6 8px)';
+
+/** Column the rows are sorted by: the name, a wheel ID, or the spread */
+type SortKey = 'name' | 'spread' | number;
+
+/**
+ * Background colour for a rating, from red (0) through amber to green (10)
+ */
+function ratingColor(value: number): string {
+  const hue = (value / APP_CONSTANTS.MAX_VALUE) * 120;
+  return `hsl(${hue}, 70%, 85%)`;
+}
+
+const ComparisonMatrix: React.FC<ComparisonMatrixProps> = ({ wheels, report, onRatingChange, readOnly = false }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [sortAscending, setSortAscending] = useState<boolean>(true);
+  const [manualOrder, setManualOrder] = useState<boolean>(true);
+
+  // Per-row values, best/worst and spread
+  const rows = useMemo(() => report.rows.map((row, index) => {
+    const values = row.cells.filter(cell => cell !== null).map(cell => cell!.segment.value);
+    const max = values.length > 0 ? Math.max(...values) : null;
+    const min = values.length > 0 ? Math.min(...values) : null;
+    return {
+      ...row,
+      index,
+      max,
+      min,
+      spread: values.length > 1 && max !== null && min !== null ? max - min : null
+    };
+  }), [report]);
+
+  const sortedRows = useMemo(() => {
+    if (manualOrder) return rows;
+
+    const direction = sortAscending ? 1 : -1;
+    const valueOf = (row: typeof rows[number]): number | string | null => {
+      if (sortKey === 'name') return row.name.toLowerCase();
+      if (sortKey === 'spread') return row.spread;
+      const wheelIndex = wheels.findIndex(w => w.id === sortKey);
+      return row.cells[wheelIndex]?.segment.value ?? null;
+    };
+
+    return [...rows].sort((a, b) => {
+      const va = valueOf(a);
+      const vb = valueOf(b);
+      // Gaps always sort last
+      if (va === null && vb === null) return a.index - b.index;
+      if (va === null) return 1;
+      if (vb === null) return -1;
+      if (va < vb) return -direction;
+      if (va > vb) return direction;
+      return a.index - b.index;
+    });
+  }, [rows, manualOrder, sortKey, sortAscending, wheels]);
+
+  /**
+   * Sorts by a column, toggling direction when it is already active
+   */
+  const handleSort = (key: SortKey): void => {
+    if (!manualOrder && sortKey === key) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      // Names read best A-Z; numbers are most useful highest first
+      setSortAscending(key === 'name');
+      setManualOrder(false);
+    }
+  };
+
+  const ariaSort = (key: SortKey): 'ascending' | 'descending' | 'none' =>
+    !manualOrder && sortKey === key ? (sortAscending ? 'ascending' : 'descending') : 'none';
+
+  const sortIcon = (key: SortKey): React.ReactNode =>
+    !manualOrder && sortKey === key
+      ? (sortAscending ? <ArrowUp size={12} aria-hidden="true" /> : <ArrowDown size={12} aria-hidden="true" />)
+      : null;
+
+  const headerButton = 'inline-flex items-center gap-1 font-semibold hover:text-gray-900';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900">Comparison Matrix</h2>
+        {!manualOrder && (
+          <button
+            onClick={() => setManualOrder(true)}
+            className="text-xs sm:text-sm px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded text-gray-700 self-start"
+          >
+            Original order
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th scope="col" className="py-2 pr-3" aria-sort={ariaSort('name')}>
+                <button onClick={() => handleSort('name')} className={headerButton}>
+                  Consideration {sortIcon('name')}
+                </button>
+              </th>
+              {wheels.map(wheel => (
+                <th key={wheel.id} scope="col" className="py-2 px-2 text-center" aria-sort={ariaSort(wheel.id)}>
+                  <button onClick={() => handleSort(wheel.id)} className={headerButton}>
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: wheel.color }} aria-hidden="true" />
+                    {wheel.name} {sortIcon(wheel.id)}
+                  </button>
+                </th>
+              ))}
+              <th scope="col" className="py-2 pl-2 text-center" aria-sort={ariaSort('spread')}>
+                <button onClick={() => handleSort('spread')} className={headerButton} title="Highest minus lowest rating">
+                  Spread {sortIcon('spread')}
+                </button>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.map(row => (
+              <tr key={row.index} className="border-b border-gray-100">
+                <th scope="row" className="py-1.5 pr-3 text-left font-medium text-gray-800">
+                  {row.name}
+                </th>
+                {row.cells.map((cell, wheelIndex) => {
+                  const wheel = wheels[wheelIndex];
+
+                  if (!cell) {
+                    return (
+                      <td key={wheel.id} className="py-1.5 px-2 text-center">
+                        <span
+                          className="inline-block w-16 py-1 rounded border border-dashed border-gray-300 text-gray-400 text-xs"
+                          style={{ background: GAP_PATTERN }}
+                          title={`${wheel.name} doesn't include ${row.name}`}
+                        >
+                          not rated
+                        </span>
+                      </td>
+                    );
+                  }
+
+                  const value = cell.segment.value;
+                  const isBest = row.spread !== null && row.spread > 0 && value === row.max;
+                  const isWorst = row.spread !== null && row.spread > 0 && value === row.min;
+
+                  return (
+                    <td key={wheel.id} className="py-1.5 px-2 text-center">
+                      <input
+                        type="number"
+                        min={APP_CONSTANTS.MIN_VALUE}
+                        max={APP_CONSTANTS.MAX_VALUE}
+                        value={value}
+                        readOnly={readOnly}
+                        onChange={(e) => {
+                          if (e.target.value !== '') {
+                            onRatingChange(wheel.id, cell.segment.id, parseInt(e.target.value));
+                          }
+                        }}
+                        className={`w-16 py-1 rounded text-center font-semibold text-gray-900 border-2 ${
+                          isBest ? 'border-green-600' : isWorst ? 'border-red-500' : 'border-transparent'
+                        }`}
+                        style={{ backgroundColor: ratingColor(value) }}
+                        aria-label={`${row.name} rating for ${wheel.name}${isBest ? ' (best)' : isWorst ? ' (worst)' : ''}`}
+                      />
+                    </td>
+                  );
+                })}
+                <td className="py-1.5 pl-2 text-center text-gray-700">
+                  {row.spread !== null ? row.spread : <span className="text-gray-400">–</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Legend */}
+      <div className="mt-4 flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="w-4 h-4 rounded border-2 border-green-600" aria-hidden="true" /> Best in row
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-4 h-4 rounded border-2 border-red-500" aria-hidden="true" /> Worst in row
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-16 h-4 rounded" style={{ background: `linear-gradient(to right, ${ratingColor(0)}, ${ratingColor(5)}, ${ratingColor(10)})` }} aria-hidden="true" />
+          0 – 10
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonMatrix;
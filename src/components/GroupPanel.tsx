@@ -0,0 +1,296 @@
+/**
+ * GroupPanel Component
+ *
+ * Manages the people rating a decision: adding and removing raters, choosing
+ * whose ratings are shown (the group result or one person's), how ratings
+ * are combined, and blind rating. Once ratings are visible it lists every
+ * consideration's individual ratings with their spread and standard
+ * deviation, most disputed first, so the group knows what to discuss.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Check, EyeOff, Trash2, UserPlus, Users } from 'lucide-react';
+import { AggregationMethod, APP_CONSTANTS, GroupSettings, Wheel } from '../types';
+import {
+  AGGREGATION_METHODS,
+  analyzeDisagreement,
+  areResultsHidden,
+  countUnrated,
+  DISAGREEMENT_THRESHOLD,
+  UNRATED_VALUE
+} from '../utils/group';
+
+interface GroupPanelProps {
+  /** Wheels with individual ratings */
+  wheels: Wheel[];
+  /** Raters and group settings of the open project */
+  group: GroupSettings;
+  /** Rater whose ratings are shown, or null for the group result */
+  activeRaterId: string | null;
+  /** Callback to switch whose ratings are shown */
+  onActiveRaterChange: (raterId: string | null) => void;
+  /** Callback to add a rater */
+  onAddRater: (name: string) => void;
+  /** Callback to remove a rater and their ratings */
+  onRemoveRater: (raterId: string) => void;
+  /** Callback when the aggregation method changes */
+  onAggregationChange: (method: AggregationMethod) => void;
+  /** Callback when blind rating is switched on or off */
+  onBlindChange: (blind: boolean) => void;
+  /** Callback when a rater submits, or takes back, their ratings */
+  onSubmittedChange: (raterId: string, submitted: boolean) => void;
+}
+
+const GroupPanel: React.FC<GroupPanelProps> = ({
+  wheels,
+  group,
+  activeRaterId,
+  onActiveRaterChange,
+  onAddRater,
+  onRemoveRater,
+  onAggregationChange,
+  onBlindChange,
+  onSubmittedChange
+}) => {
+  const [newName, setNewName] = useState<string>('');
+
+  const hidden = areResultsHidden(group);
+  const rows = useMemo(() => analyzeDisagreement(wheels, group), [wheels, group]);
+  const activeRater = group.raters.find(rater => rater.id === activeRaterId) ?? null;
+  const pending = group.raters.filter(rater => !rater.submitted);
+  const unrated = activeRater ? countUnrated(wheels, activeRater.id) : 0;
+  const disputedCount = rows.filter(row => row.standardDeviation >= DISAGREEMENT_THRESHOLD).length;
+  const wheelName = (wheelId: number): string => wheels.find(w => w.id === wheelId)?.name ?? '';
+
+  /**
+   * Adds the typed rater and clears the field
+   */
+  const handleAdd = (e: React.FormEvent): void => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onAddRater(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+        <h2 className="flex items-center gap-2 text-lg sm:text-xl font-bold text-gray-900">
+          <Users size={20} aria-hidden="true" /> Group Rating
+        </h2>
+        {group.raters.length > 0 && (
+          <span className={`text-sm ${pending.length === 0 ? 'text-green-700' : 'text-gray-600'}`}>
+            {group.raters.length - pending.length} of {group.raters.length} submitted
+          </span>
+        )}
+      </div>
+
+      {group.raters.length === 0 && (
+        <p className="text-sm text-gray-600 mb-3">
+          Add the people deciding with you. Everyone rates each consideration on their own, and the wheels show the
+          combined result.
+        </p>
+      )}
+
+      {/* Whose ratings are shown */}
+      {group.raters.length > 0 && (
+        <div className="mb-4">
+          <span className="block text-sm font-medium text-gray-700 mb-1" id="rater-view-label">Showing</span>
+          <div className="flex flex-wrap gap-2" role="group" aria-labelledby="rater-view-label">
+            <button
+              onClick={() => onActiveRaterChange(null)}
+              aria-pressed={activeRaterId === null}
+              className={`px-3 py-1 rounded-full border text-sm ${
+                activeRaterId === null ? 'bg-blue-500 border-blue-500 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              Group result
+            </button>
+            {group.raters.map(rater => (
+              <span key={rater.id} className="inline-flex items-center">
+                <button
+                  onClick={() => onActiveRaterChange(rater.id)}
+                  aria-pressed={activeRaterId === rater.id}
+                  className={`flex items-center gap-1 pl-3 pr-2 py-1 rounded-l-full border text-sm ${
+                    activeRaterId === rater.id ? 'bg-blue-500 border-blue-500 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {rater.name}
+                  {rater.submitted && <Check size={14} aria-label="submitted" />}
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Remove ${rater.name} and their ratings?`)) {
+                      onRemoveRater(rater.id);
+                    }
+                  }}
+                  className="px-2 py-1 rounded-r-full border border-l-0 border-gray-300 text-gray-500 hover:bg-red-50 hover:text-red-600"
+                  aria-label={`Remove ${rater.name}`}
+                  title={`Remove ${rater.name}`}
+                >
+                  <Trash2 size={14} aria-hidden="true" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* The active rater's own status */}
+      {activeRater && (
+        <div className="p-3 mb-4 border border-blue-200 bg-blue-50 rounded text-sm text-blue-900" role="status">
+          {activeRater.submitted ? (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <span>
+                {activeRater.name} has submitted.
+                {hidden && ' Their ratings stay hidden until everyone has submitted.'}
+              </span>
+              <button
+                onClick={() => onSubmittedChange(activeRater.id, false)}
+                className="px-3 py-1 bg-white border border-blue-300 rounded hover:bg-blue-100 self-start"
+              >
+                Edit ratings
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <span>
+                Rating as {activeRater.name}.
+                {unrated > 0 && ` ${unrated} consideration${unrated === 1 ? '' : 's'} not rated yet (shown as ${UNRATED_VALUE}).`}
+              </span>
+              <button
+                onClick={() => onSubmittedChange(activeRater.id, true)}
+                className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 self-start"
+              >
+                Submit ratings
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {group.raters.length > 0 && !activeRater && (
+        <p className="text-sm text-gray-600 mb-4">
+          Pick a name above to rate as that person. The group result can't be edited directly.
+        </p>
+      )}
+
+      {/* Add a rater */}
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2 mb-4">
+        <label htmlFor="new-rater-name" className="sr-only">Rater name</label>
+        <input
+          id="new-rater-name"
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          maxLength={APP_CONSTANTS.MAX_NAME_LENGTH}
+          placeholder="Name"
+          className="flex-1 min-w-0 sm:flex-none sm:w-48 px-2 py-1 border border-gray-300 rounded text-sm"
+          disabled={group.raters.length >= APP_CONSTANTS.MAX_RATERS}
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim() || group.raters.length >= APP_CONSTANTS.MAX_RATERS}
+          className="flex items-center gap-1 px-3 py-1 bg-purple-500 text-white rounded hover:bg-purple-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <UserPlus size={16} aria-hidden="true" /> Add rater
+        </button>
+        {group.raters.length === 0 && (
+          <span className="text-xs text-gray-500">The first person keeps the ratings already entered.</span>
+        )}
+      </form>
+
+      {/* Settings */}
+      {group.raters.length > 0 && (
+        <div className="flex flex-col sm:flex-row gap-4 mb-4 text-sm">
+          <div className="flex-1">
+            <label htmlFor="aggregation-method" className="block font-medium text-gray-700 mb-1">Combine ratings by</label>
+            <select
+              id="aggregation-method"
+              value={group.aggregation}
+              onChange={(e) => onAggregationChange(e.target.value as AggregationMethod)}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              {(Object.keys(AGGREGATION_METHODS) as AggregationMethod[]).map(method => (
+                <option key={method} value={method}>{AGGREGATION_METHODS[method].label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">{AGGREGATION_METHODS[group.aggregation].description}</p>
+          </div>
+          <div className="flex-1">
+            <label className="flex items-center gap-2 font-medium text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={group.blind}
+                onChange={(e) => onBlindChange(e.target.checked)}
+              />
+              <EyeOff size={16} aria-hidden="true" /> Blind rating
+            </label>
+            <p className="mt-1 text-xs text-gray-500">
+              Nobody sees anyone else's ratings or the results until everyone has submitted.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Disagreement */}
+      {group.raters.length > 1 && (hidden ? (
+        <p className="p-3 bg-gray-50 border border-gray-200 rounded text-sm text-gray-700">
+          Results are hidden until everyone has submitted. Still waiting for {pending.map(rater => rater.name).join(', ')}.
+        </p>
+      ) : rows.length > 0 && (
+        <details open={disputedCount > 0}>
+          <summary className="cursor-pointer text-sm font-semibold text-gray-800">
+            Where you disagree{disputedCount > 0 && ` (${disputedCount} worth discussing)`}
+          </summary>
+          <div className="mt-3 max-h-80 overflow-auto">
+            <table className="w-full text-xs sm:text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th scope="col" className="py-1 pr-2">Opportunity</th>
+                  <th scope="col" className="py-1 pr-2">Consideration</th>
+                  {group.raters.map(rater => (
+                    <th key={rater.id} scope="col" className="py-1 px-1 text-center">{rater.name}</th>
+                  ))}
+                  <th scope="col" className="py-1 px-1 text-center">{AGGREGATION_METHODS[group.aggregation].label}</th>
+                  <th scope="col" className="py-1 px-1 text-center" title="Highest minus lowest rating">Spread</th>
+                  <th scope="col" className="py-1 pl-1 text-center" title="Standard deviation">Std dev</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const disputed = row.standardDeviation >= DISAGREEMENT_THRESHOLD;
+                  return (
+                    <tr
+                      key={`${row.wheelId}-${row.segmentId}`}
+                      className={`border-b border-gray-100 text-gray-700 ${disputed ? 'bg-amber-50' : ''}`}
+                    >
+                      <td className="py-1 pr-2">{wheelName(row.wheelId)}</td>
+                      <td className="py-1 pr-2">
+                        {row.consideration}
+                        {disputed && <span className="ml-1 text-xs font-semibold text-amber-700">discuss</span>}
+                      </td>
+                      {row.ratings.map((rating, index) => (
+                        <td key={group.raters[index].id} className="py-1 px-1 text-center">
+                          {rating ?? <span className="text-gray-400">–</span>}
+                        </td>
+                      ))}
+                      <td className="py-1 px-1 text-center font-semibold">{row.aggregate}</td>
+                      <td className="py-1 px-1 text-center">{row.spread}</td>
+                      <td className="py-1 pl-1 text-center">{row.standardDeviation.toFixed(1)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500">
+              Highlighted considerations have a standard deviation of {DISAGREEMENT_THRESHOLD} or more.
+            </p>
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+};
+
+export default GroupPanel;
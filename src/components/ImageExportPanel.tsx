@@ -0,0 +1,150 @@
+/**
+ * ImageExportPanel Component
+ *
+ * Export modal section for raster images. Lets the user choose the format
+ * (PNG, WebP or JPEG), the resolution multiplier and the background, then
+ * downloads the same drawing as the SVG export. Errors are shown inline.
+ */
+
+import React, { useState } from 'react';
+import { Image as ImageIcon } from 'lucide-react';
+import { AlignmentSettings, CriteriaComparison, ScoringMethodId, Wheel } from '../types';
+import { exportToImage, RASTER_SCALES, RasterFormat } from '../utils/exports';
+
+interface ImageExportPanelProps {
+  /** Wheels to export */
+  wheels: Wheel[];
+  /** Size wedges in proportion to segment weight instead of equally */
+  proportionalAngles: boolean;
+  /** How considerations are matched for the radar chart */
+  alignmentSettings: AlignmentSettings;
+  /** Method used to rank the opportunities */
+  scoringMethod: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  criteriaComparisons?: CriteriaComparison[];
+  /** Callback after a successful download */
+  onExported: () => void;
+}
+
+const FORMAT_LABELS: Record<RasterFormat, string> = {
+  png: 'PNG',
+  webp: 'WebP',
+  jpeg: 'JPEG'
+};
+
+const ImageExportPanel: React.FC<ImageExportPanelProps> = ({
+  wheels,
+  proportionalAngles,
+  alignmentSettings,
+  scoringMethod,
+  criteriaComparisons,
+  onExported
+}) => {
+  const [format, setFormat] = useState<RasterFormat>('png');
+  const [scale, setScale] = useState<number>(2);
+  const [transparent, setTransparent] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // JPEG has no alpha channel
+  const canBeTransparent = format !== 'jpeg';
+
+  /**
+   * Renders and downloads the image
+   */
+  const handleExport = async (): Promise<void> => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      await exportToImage(wheels, {
+        format,
+        scale,
+        transparent: canBeTransparent && transparent,
+        proportionalAngles,
+        alignment: alignmentSettings,
+        scoring: scoringMethod,
+        comparisons: criteriaComparisons
+      });
+      onExported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Image export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+      <div>
+        <div className="font-semibold text-gray-900">Image</div>
+        <div className="text-sm text-gray-600">Wheels and comparison as a picture for slides and chats</div>
+      </div>
+
+      {/* Format */}
+      <div className="flex gap-2" role="radiogroup" aria-label="Image format">
+        {(Object.keys(FORMAT_LABELS) as RasterFormat[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setFormat(option)}
+            role="radio"
+            aria-checked={format === option}
+            className={`flex-1 px-2 py-1 text-sm rounded border ${
+              format === option ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            {FORMAT_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {/* Resolution */}
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-700 w-24">Resolution</span>
+        <div className="flex gap-1 flex-1" role="radiogroup" aria-label="Resolution">
+          {RASTER_SCALES.map(option => (
+            <button
+              key={option}
+              onClick={() => setScale(option)}
+              role="radio"
+              aria-checked={scale === option}
+              className={`flex-1 px-2 py-1 text-sm rounded border ${
+                scale === option ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Background */}
+      <label className={`flex items-center gap-2 text-sm ${canBeTransparent ? 'text-gray-700' : 'text-gray-400'}`}>
+        <input
+          type="checkbox"
+          checked={canBeTransparent && transparent}
+          disabled={!canBeTransparent}
+          onChange={(e) => setTransparent(e.target.checked)}
+        />
+        Transparent background{!canBeTransparent && ' (not available for JPEG)'}
+      </label>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded text-sm text-red-800" role="alert">
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={handleExport}
+        disabled={busy}
+        className="w-full px-4 py-2 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:bg-gray-300 flex items-center justify-center gap-2"
+      >
+        <ImageIcon size={16} />
+        {busy ? 'Creating image…' : `Download ${FORMAT_LABELS[format]}`}
+      </button>
+    </div>
+  );
+};
+
+export default ImageExportPanel;
@@ -0,0 +1,208 @@
+/**
+ * ImportModal Component
+ *
+ * Lets the user pick a previously exported JSON, CSV or TSV file (or paste a
+ * block copied from a spreadsheet), reviews what will be
+ * imported (including any rejected or repaired fields), and then replaces or
+ * merges with the current wheels.
+ */
+
+import React, { useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { APP_CONSTANTS, Wheel } from '../types';
+import { ImportMode, ImportResult, parseImportText, readWheelsFile } from '../utils/imports';
+
+interface ImportModalProps {
+  /** Wheels currently in the app, used to check merge limits */
+  currentWheels: Wheel[];
+  /** Most opportunities a decision may have */
+  wheelLimit: number;
+  /** Callback with the validated import and the chosen mode */
+  onImport: (wheels: Wheel[], mode: ImportMode) => void;
+  /** Callback when the modal is dismissed */
+  onClose: () => void;
+}
+
+const ImportModal: React.FC<ImportModalProps> = ({ currentWheels, wheelLimit, onImport, onClose }) => {
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [pastedText, setPastedText] = useState<string>('');
+
+  /**
+   * Reads and validates the selected file
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+
+    try {
+      setResult(await readWheelsFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  /**
+   * Validates text pasted from a spreadsheet
+   */
+  const handlePastePreview = (): void => {
+    setFileName('');
+    setResult(null);
+    setError(null);
+
+    try {
+      setResult(parseImportText(pastedText));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  const canReplace = result !== null && result.wheels.length >= APP_CONSTANTS.MIN_WHEELS;
+  const mergeRoom = wheelLimit - currentWheels.length;
+  const canMerge = result !== null && mergeRoom > 0;
+  const mergeDropCount = result ? Math.max(0, result.wheels.length - mergeRoom) : 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-modal-title"
+    >
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-auto p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 id="import-modal-title" className="text-xl font-bold text-gray-900">Import Decision</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded"
+            aria-label="Close import"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* File picker */}
+        <label className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 text-sm text-gray-700">
+          <Upload size={16} />
+          {fileName || 'Choose a JSON, CSV or TSV file'}
+          <input
+            type="file"
+            accept="application/json,.json,text/csv,.csv,text/tab-separated-values,.tsv,.txt"
+            onChange={handleFileChange}
+            className="sr-only"
+            aria-label="Choose a file to import"
+          />
+        </label>
+
+        {/* Paste from a spreadsheet */}
+        <div className="mt-4">
+          <label htmlFor="import-paste" className="block text-sm font-medium text-gray-700 mb-1">
+            Or paste cells from Excel or Google Sheets
+          </label>
+          <textarea
+            id="import-paste"
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            rows={4}
+            className="w-full px-3 py-2 border border-gray-300 rounded text-xs font-mono"
+            placeholder={'Consideration\tOpportunity A\tOpportunity B\nLocation\t10\t8'}
+          />
+          <button
+            onClick={handlePastePreview}
+            disabled={pastedText.trim() === ''}
+            className="mt-2 px-3 py-1.5 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Preview Pasted Data
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800" role="alert">
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="mt-6 space-y-4">
+            {/* Preview */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-800 mb-2">
+                {result.wheels.length} {result.wheels.length === 1 ? 'opportunity' : 'opportunities'} with{' '}
+                {result.wheels.reduce((acc, w) => acc + w.segments.length, 0)} considerations
+              </h3>
+              <ul className="space-y-2">
+                {result.wheels.map((wheel, index) => (
+                  <li key={index} className="p-3 border border-gray-200 rounded">
+                    <div className="flex items-center gap-2 font-medium text-gray-900 text-sm">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: wheel.color }} aria-hidden="true" />
+                      {wheel.name}
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {wheel.segments.map(s => `${s.name} (${s.value})`).join(', ')}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Rejected and repaired fields */}
+            {result.issues.length > 0 && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded">
+                <h3 className="text-sm font-semibold text-amber-900 mb-2">
+                  {result.issues.length} field{result.issues.length === 1 ? ' was' : 's were'} rejected or repaired
+                </h3>
+                <ul className="text-xs text-amber-800 space-y-1 max-h-40 overflow-auto">
+                  {result.issues.map((issue, index) => (
+                    <li key={index}>
+                      <strong>{issue.kind === 'rejected' ? 'Rejected' : 'Repaired'}:</strong> {issue.path}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {mergeDropCount > 0 && canMerge && (
+              <p className="text-xs text-gray-600">
+                Merging keeps only the first {mergeRoom} imported {mergeRoom === 1 ? 'opportunity' : 'opportunities'}{' '}
+                (maximum {wheelLimit} in total).
+              </p>
+            )}
+
+            {/* Actions */}
+            <div className="flex flex-col sm:flex-row gap-2">
+              <button
+                onClick={() => onImport(result.wheels, 'replace')}
+                disabled={!canReplace}
+                className="flex-1 px-4 py-2 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                title={canReplace ? 'Replace current opportunities' : `At least ${APP_CONSTANTS.MIN_WHEELS} opportunities are needed to replace`}
+              >
+                Replace Current
+              </button>
+              <button
+                onClick={() => onImport(result.wheels, 'merge')}
+                disabled={!canMerge}
+                className="flex-1 px-4 py-2 bg-purple-500 text-white text-sm rounded hover:bg-purple-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                title={canMerge ? 'Add to current opportunities' : `Already at ${wheelLimit} opportunities`}
+              >
+                Merge
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
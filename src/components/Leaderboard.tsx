@@ -0,0 +1,176 @@
+/**
+ * Leaderboard Component
+ *
+ * A sortable table of every opportunity: rank, score from the selected
+ * method, simple average, weakest rating and must-have status. Clicking a
+ * column header sorts by it; clicking again reverses the order. Selecting an
+ * opportunity opens it in the full wheel view.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { AlignmentSettings, CriteriaComparison, ScoringMethodId, Wheel } from '../types';
+import {
+  calculateAverage,
+  getDealBreakerFailures,
+  rankWheels,
+  SCORING_METHODS,
+  scoreWheels
+} from '../utils/calculations';
+
+interface LeaderboardProps {
+  /** Wheels to list */
+  wheels: Wheel[];
+  /** How considerations are matched across wheels */
+  alignmentSettings?: AlignmentSettings;
+  /** Method used to score and rank the wheels */
+  scoringMethod?: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  criteriaComparisons?: CriteriaComparison[];
+  /** Callback to open a wheel for editing */
+  onOpen: (wheelId: number) => void;
+}
+
+/** Columns the table can be sorted by */
+type SortKey = 'rank' | 'name' | 'score' | 'average' | 'lowest' | 'considerations';
+
+/**
+ * One opportunity's figures
+ */
+interface LeaderboardRow {
+  wheel: Wheel;
+  rank: number;
+  score: number;
+  average: number;
+  lowest: number;
+  failures: number;
+}
+
+const Leaderboard: React.FC<LeaderboardProps> = ({
+  wheels,
+  alignmentSettings,
+  scoringMethod = 'weighted-sum',
+  criteriaComparisons,
+  onOpen
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('rank');
+  const [ascending, setAscending] = useState<boolean>(true);
+
+  const result = useMemo(
+    () => scoreWheels(wheels, scoringMethod, alignmentSettings, criteriaComparisons),
+    [wheels, scoringMethod, alignmentSettings, criteriaComparisons]
+  );
+  const method = SCORING_METHODS[result.method];
+
+  const rows = useMemo<LeaderboardRow[]>(() => {
+    const order = rankWheels(wheels, result.scores);
+    return wheels.map((wheel, index) => ({
+      wheel,
+      rank: order.indexOf(index) + 1,
+      score: result.scores[index],
+      average: calculateAverage(wheel),
+      lowest: wheel.segments.length > 0 ? Math.min(...wheel.segments.map(s => s.value)) : 0,
+      failures: getDealBreakerFailures(wheel).length
+    }));
+  }, [wheels, result]);
+
+  const sorted = useMemo(() => {
+    const value = (row: LeaderboardRow): number | string => {
+      switch (sortKey) {
+        case 'name': return row.wheel.name.toLowerCase();
+        case 'score': return row.score;
+        case 'average': return row.average;
+        case 'lowest': return row.lowest;
+        case 'considerations': return row.wheel.segments.length;
+        default: return row.rank;
+      }
+    };
+    return [...rows].sort((a, b) => {
+      const x = value(a);
+      const y = value(b);
+      const order = x < y ? -1 : x > y ? 1 : a.rank - b.rank;
+      return ascending ? order : -order;
+    });
+  }, [rows, sortKey, ascending]);
+
+  /**
+   * Sorts by a column, reversing the order when it is already sorted by it
+   *
+   * Names and ranks start in ascending order, figures best first.
+   */
+  const sortBy = (key: SortKey): void => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === 'rank' || key === 'name');
+    }
+  };
+
+  const header = (key: SortKey, label: string, align: 'left' | 'right' = 'right') => (
+    <th
+      scope="col"
+      className={`py-2 px-2 font-medium ${align === 'left' ? 'text-left' : 'text-right'}`}
+      aria-sort={sortKey === key ? (ascending ? 'ascending' : 'descending') : 'none'}
+    >
+      <button
+        onClick={() => sortBy(key)}
+        className={`inline-flex items-center gap-1 hover:text-gray-900 ${sortKey === key ? 'text-gray-900' : ''}`}
+      >
+        {label}
+        {sortKey === key && (ascending ? <ArrowUp size={12} aria-hidden="true" /> : <ArrowDown size={12} aria-hidden="true" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <h2 className="text-lg sm:text-xl font-bold text-gray-900 mb-4">Leaderboard</h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-600 border-b border-gray-200">
+              {header('rank', 'Rank', 'left')}
+              {header('name', 'Opportunity', 'left')}
+              {header('score', method.label)}
+              {header('average', 'Average')}
+              {header('lowest', 'Lowest')}
+              {header('considerations', 'Considerations')}
+              <th scope="col" className="py-2 px-2 text-left font-medium">Must-haves</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(row => (
+              <tr key={row.wheel.id} className="border-b border-gray-100 text-gray-700 hover:bg-gray-50">
+                <td className="py-2 px-2 font-semibold">{row.rank}</td>
+                <td className="py-2 px-2">
+                  <button
+                    onClick={() => onOpen(row.wheel.id)}
+                    className="flex items-center gap-2 text-left font-medium text-gray-900 hover:underline"
+                  >
+                    <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: row.wheel.color }} aria-hidden="true" />
+                    {row.wheel.name}
+                  </button>
+                </td>
+                <td className="py-2 px-2 text-right font-semibold">{method.formatScore(row.score)}</td>
+                <td className="py-2 px-2 text-right">{row.average.toFixed(1)}</td>
+                <td className="py-2 px-2 text-right">{row.lowest}</td>
+                <td className="py-2 px-2 text-right">{row.wheel.segments.length}</td>
+                <td className={`py-2 px-2 ${row.failures > 0 ? 'text-red-700' : 'text-gray-600'}`}>
+                  {row.failures > 0
+                    ? `${row.failures} failed`
+                    : row.wheel.segments.some(s => s.minimum !== undefined) ? 'All met' : '–'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        {method.label} scores show the {method.scoreLabel}. Disqualified opportunities rank below all others.
+      </p>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,54 @@
+/**
+ * MiniWheel Component
+ *
+ * A small, label-free drawing of a wheel for overviews of many
+ * opportunities. It uses the same layout as CircleWheel, scaled down, so the
+ * shapes match; ratings are given in the drawing's title instead of labels.
+ */
+
+import React from 'react';
+import { Wheel } from '../types';
+import { getDealBreakerFailures } from '../utils/calculations';
+import { formatSegmentValue, layoutWheel, WHEEL_SIZE, WHEEL_STYLE } from '../utils/svgRenderer';
+
+interface MiniWheelProps {
+  /** The wheel to draw */
+  wheel: Wheel;
+  /** Width and height in pixels */
+  size?: number;
+  /** Size wedges in proportion to segment weight instead of equally */
+  proportionalAngles?: boolean;
+}
+
+const MiniWheel: React.FC<MiniWheelProps> = ({ wheel, size = 120, proportionalAngles = false }) => {
+  const wedges = layoutWheel(wheel, { proportionalAngles });
+  const failedIds = new Set(getDealBreakerFailures(wheel).map(f => f.segmentId));
+  const summary = wheel.segments.map(s => `${s.name} ${formatSegmentValue(s)}`).join(', ');
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${WHEEL_SIZE} ${WHEEL_SIZE}`} role="img" aria-label={`${wheel.name}: ${summary}`}>
+      <title>{`${wheel.name}: ${summary}`}</title>
+      {wedges.map(wedge => (
+        <g key={wheel.segments[wedge.index].id}>
+          <path d={wedge.outlinePath} fill="none" stroke={WHEEL_STYLE.outline} strokeWidth="4" />
+          <path d={wedge.fillPath} fill={wheel.color} opacity={WHEEL_STYLE.fillOpacity} />
+          <line {...wedge.divider} stroke={WHEEL_STYLE.divider} strokeWidth="2" />
+        </g>
+      ))}
+      {wedges
+        .filter(wedge => failedIds.has(wheel.segments[wedge.index].id))
+        .map(wedge => (
+          <path
+            key={`deal-breaker-${wedge.index}`}
+            d={wedge.outlinePath}
+            fill="none"
+            stroke={WHEEL_STYLE.dealBreaker}
+            strokeWidth={WHEEL_STYLE.dealBreakerWidth * 2}
+            strokeLinejoin="round"
+          />
+        ))}
+    </svg>
+  );
+};
+
+export default MiniWheel;
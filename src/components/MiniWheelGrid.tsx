@@ -0,0 +1,86 @@
+/**
+ * MiniWheelGrid Component
+ *
+ * A compact overview for comparing many opportunities at once: a small
+ * wheel per opportunity with its rank and score. Selecting one opens it in
+ * the full wheel view for editing.
+ */
+
+import React, { useMemo } from 'react';
+import { AlignmentSettings, CriteriaComparison, ScoringMethodId, Wheel } from '../types';
+import { isDisqualified, rankWheels, SCORING_METHODS, scoreWheels } from '../utils/calculations';
+import MiniWheel from './MiniWheel';
+
+interface MiniWheelGridProps {
+  /** Wheels to show */
+  wheels: Wheel[];
+  /** How considerations are matched across wheels */
+  alignmentSettings?: AlignmentSettings;
+  /** Method used to score and rank the wheels */
+  scoringMethod?: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  criteriaComparisons?: CriteriaComparison[];
+  /** Size wedges in proportion to segment weight instead of equally */
+  proportionalAngles?: boolean;
+  /** Callback to open a wheel for editing */
+  onOpen: (wheelId: number) => void;
+}
+
+const MiniWheelGrid: React.FC<MiniWheelGridProps> = ({
+  wheels,
+  alignmentSettings,
+  scoringMethod = 'weighted-sum',
+  criteriaComparisons,
+  proportionalAngles = false,
+  onOpen
+}) => {
+  const result = useMemo(
+    () => scoreWheels(wheels, scoringMethod, alignmentSettings, criteriaComparisons),
+    [wheels, scoringMethod, alignmentSettings, criteriaComparisons]
+  );
+  const method = SCORING_METHODS[result.method];
+  const ranks = useMemo(() => {
+    const order = rankWheels(wheels, result.scores);
+    const byIndex: number[] = [];
+    order.forEach((wheelIndex, position) => { byIndex[wheelIndex] = position + 1; });
+    return byIndex;
+  }, [wheels, result]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-baseline justify-between gap-1 mb-4">
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900">All Opportunities</h2>
+        <span className="text-xs text-gray-500">Ranked by {method.label} · select one to edit it</span>
+      </div>
+      <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3">
+        {wheels.map((wheel, index) => {
+          const disqualified = isDisqualified(wheel);
+          return (
+            <li key={wheel.id}>
+              <button
+                onClick={() => onOpen(wheel.id)}
+                className={`w-full h-full flex flex-col items-center gap-1 p-2 rounded border text-center hover:bg-gray-50 ${
+                  ranks[index] === 1 && !disqualified ? 'border-green-400' : 'border-gray-200'
+                }`}
+                aria-label={`Open ${wheel.name}, ranked ${ranks[index]} of ${wheels.length}`}
+              >
+                <span className="self-start text-xs font-semibold text-gray-500">#{ranks[index]}</span>
+                <MiniWheel wheel={wheel} size={110} proportionalAngles={proportionalAngles} />
+                <span className="flex items-center gap-1 text-sm font-medium text-gray-900 max-w-full">
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: wheel.color }} aria-hidden="true" />
+                  <span className="truncate">{wheel.name}</span>
+                </span>
+                <span className={`text-xs ${disqualified ? 'text-red-700' : 'text-gray-600'}`}>
+                  {method.formatScore(result.scores[index])}
+                  {disqualified && ' · disqualified'}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default MiniWheelGrid;
@@ -0,0 +1,109 @@
+/**
+ * PdfExportPanel Component
+ *
+ * Export modal section for the printable PDF report. Lets the user choose
+ * the paper size and orientation before downloading.
+ */
+
+import React, { useState } from 'react';
+import { FileText } from 'lucide-react';
+import { AlignmentSettings, CriteriaComparison, ScoringMethodId, Wheel } from '../types';
+import { exportToPDF } from '../utils/exports';
+import type { PdfOrientation, PdfPageSize } from '../utils/pdfReport';
+
+interface PdfExportPanelProps {
+  /** Decision name for the title page */
+  title: string;
+  /** Decision description for the title page */
+  description: string;
+  /** Wheels to report on */
+  wheels: Wheel[];
+  /** Size wedges in proportion to segment weight instead of equally */
+  proportionalAngles: boolean;
+  /** How considerations are matched when checking they line up */
+  alignmentSettings: AlignmentSettings;
+  /** Method used to rank the opportunities */
+  scoringMethod: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  criteriaComparisons?: CriteriaComparison[];
+  /** Callback after the download starts */
+  onExported: () => void;
+}
+
+const PdfExportPanel: React.FC<PdfExportPanelProps> = ({
+  title,
+  description,
+  wheels,
+  proportionalAngles,
+  alignmentSettings,
+  scoringMethod,
+  criteriaComparisons,
+  onExported
+}) => {
+  const [pageSize, setPageSize] = useState<PdfPageSize>('a4');
+  const [orientation, setOrientation] = useState<PdfOrientation>('portrait');
+  const [busy, setBusy] = useState<boolean>(false);
+
+  /**
+   * Builds and downloads the report
+   */
+  const handleExport = async (): Promise<void> => {
+    setBusy(true);
+    await exportToPDF(title, wheels, {
+      pageSize,
+      orientation,
+      description,
+      proportionalAngles,
+      alignment: alignmentSettings,
+      scoring: scoringMethod,
+      comparisons: criteriaComparisons
+    });
+    setBusy(false);
+    onExported();
+  };
+
+  return (
+    <div className="px-4 py-3 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+      <div>
+        <div className="font-semibold text-gray-900">PDF Report</div>
+        <div className="text-sm text-gray-600">Title page, one page per opportunity and the final ranking</div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-sm text-gray-700">
+          Paper
+          <select
+            value={pageSize}
+            onChange={(e) => setPageSize(e.target.value as PdfPageSize)}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded bg-white"
+          >
+            <option value="a4">A4</option>
+            <option value="letter">Letter</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Orientation
+          <select
+            value={orientation}
+            onChange={(e) => setOrientation(e.target.value as PdfOrientation)}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded bg-white"
+          >
+            <option value="portrait">Portrait</option>
+            <option value="landscape">Landscape</option>
+          </select>
+        </label>
+      </div>
+
+      <button
+        onClick={handleExport}
+        disabled={busy}
+        className="w-full px-4 py-2 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:bg-gray-300 flex items-center justify-center gap-2"
+      >
+        <FileText size={16} />
+        {busy ? 'Creating report…' : 'Download PDF'}
+      </button>
+    </div>
+  );
+};
+
+export default PdfExportPanel;
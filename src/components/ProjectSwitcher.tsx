@@ -0,0 +1,218 @@
+/**
+ * ProjectSwitcher Component
+ *
+ * Dropdown for managing the decision projects in the workspace. Lists active
+ * and archived projects and offers create, rename, duplicate, archive and
+ * delete actions.
+ */
+
+import React, { useState } from 'react';
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  ChevronDown,
+  Copy,
+  Edit2,
+  FolderOpen,
+  Plus,
+  Trash2
+} from 'lucide-react';
+import { APP_CONSTANTS, Project } from '../types';
+import { formatRelativeTime } from '../utils/format';
+
+interface ProjectSwitcherProps {
+  /** All projects in the workspace */
+  projects: Project[];
+  /** ID of the project currently open */
+  activeProjectId: string;
+  /** Callback to open a project */
+  onSwitch: (projectId: string) => void;
+  /** Callback to create a new project */
+  onCreate: () => void;
+  /** Callback to rename a project */
+  onRename: (projectId: string, name: string) => void;
+  /** Callback to duplicate a project */
+  onDuplicate: (projectId: string) => void;
+  /** Callback to archive or restore a project */
+  onToggleArchive: (projectId: string) => void;
+  /** Callback to delete a project */
+  onDelete: (projectId: string) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  activeProjectId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onToggleArchive,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+  const openProjects = projects.filter(p => !p.archived);
+  const archivedProjects = projects.filter(p => p.archived);
+
+  /**
+   * A project can be archived or deleted only if another open project remains
+   */
+  const canRemove = (projectId: string): boolean =>
+    openProjects.some(p => p.id !== projectId);
+
+  const startRename = (project: Project): void => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = (): void => {
+    if (editingId) {
+      onRename(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  const renderProject = (project: Project): React.ReactNode => {
+    const isActive = project.id === activeProjectId;
+
+    return (
+      <li key={project.id} className={`px-3 py-2 ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+        <div className="flex items-start gap-2">
+          {editingId === project.id ? (
+            <input
+              type="text"
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              maxLength={APP_CONSTANTS.MAX_PROJECT_NAME_LENGTH}
+              className="flex-1 px-2 py-1 border border-blue-400 rounded text-sm"
+              aria-label="Project name"
+              autoFocus
+            />
+          ) : (
+            <button
+              onClick={() => {
+                onSwitch(project.id);
+                setIsOpen(false);
+              }}
+              className="flex-1 text-left min-w-0"
+              aria-current={isActive ? 'true' : undefined}
+            >
+              <div className="flex items-center gap-1 text-sm font-medium text-gray-900 truncate">
+                {isActive && <Check size={14} className="text-blue-600 flex-shrink-0" aria-hidden="true" />}
+                {project.name}
+              </div>
+              <div className="text-xs text-gray-500">
+                {project.wheels.length} opportunities • {formatRelativeTime(new Date(project.updatedAt))}
+              </div>
+            </button>
+          )}
+          <div className="flex items-center flex-shrink-0">
+            <button
+              onClick={() => startRename(project)}
+              className="p-1 text-gray-500 hover:bg-gray-200 rounded"
+              aria-label={`Rename ${project.name}`}
+              title="Rename"
+            >
+              <Edit2 size={14} />
+            </button>
+            <button
+              onClick={() => onDuplicate(project.id)}
+              className="p-1 text-gray-500 hover:bg-gray-200 rounded"
+              aria-label={`Duplicate ${project.name}`}
+              title="Duplicate"
+            >
+              <Copy size={14} />
+            </button>
+            <button
+              onClick={() => onToggleArchive(project.id)}
+              disabled={!project.archived && !canRemove(project.id)}
+              className="p-1 text-gray-500 hover:bg-gray-200 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label={project.archived ? `Restore ${project.name}` : `Archive ${project.name}`}
+              title={project.archived ? 'Restore' : 'Archive'}
+            >
+              {project.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+            </button>
+            <button
+              onClick={() => onDelete(project.id)}
+              disabled={!canRemove(project.id)}
+              className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label={`Delete ${project.name}`}
+              title="Delete"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-3 py-2 bg-white border border-gray-300 rounded hover:bg-gray-50 flex items-center gap-2 text-sm max-w-xs"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <FolderOpen size={16} className="text-gray-500 flex-shrink-0" />
+        <span className="truncate font-medium text-gray-900">{activeProject?.name ?? 'Projects'}</span>
+        <ChevronDown size={16} className="text-gray-500 flex-shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-40">
+          <div className="px-3 py-2 border-b border-gray-200 text-xs font-semibold text-gray-500 uppercase">
+            Your Decisions
+          </div>
+          <ul className="max-h-80 overflow-auto divide-y divide-gray-100">
+            {openProjects.map(renderProject)}
+          </ul>
+
+          {archivedProjects.length > 0 && (
+            <div className="border-t border-gray-200">
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="w-full px-3 py-2 text-left text-xs text-gray-600 hover:bg-gray-50 flex items-center gap-2"
+                aria-expanded={showArchived}
+              >
+                <Archive size={14} />
+                Archived ({archivedProjects.length})
+              </button>
+              {showArchived && (
+                <ul className="max-h-60 overflow-auto divide-y divide-gray-100 bg-gray-50">
+                  {archivedProjects.map(renderProject)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="border-t border-gray-200 p-2">
+            <button
+              onClick={() => {
+                onCreate();
+                setIsOpen(false);
+              }}
+              className="w-full px-3 py-2 bg-indigo-500 text-white rounded hover:bg-indigo-600 flex items-center justify-center gap-2 text-sm"
+            >
+              <Plus size={16} />
+              New Decision
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
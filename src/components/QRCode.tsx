@@ -0,0 +1,68 @@
+/**
+ * QRCode Component
+ *
+ * Renders text as a QR code, generated entirely in the browser. Modules are
+ * drawn as SVG rects rather than injected markup.
+ */
+
+import React, { useMemo } from 'react';
+import qrcode from 'qrcode-generator';
+
+interface QRCodeProps {
+  /** Text to encode */
+  value: string;
+  /** Rendered width and height in pixels */
+  size?: number;
+}
+
+/** Quiet zone around the code, in modules */
+const MARGIN = 4;
+
+const QRCode: React.FC<QRCodeProps> = ({ value, size = 200 }) => {
+  // Build the module matrix; null if the text is too long for any QR version
+  const modules = useMemo<boolean[][] | null>(() => {
+    try {
+      const qr = qrcode(0, 'L');
+      qr.addData(value);
+      qr.make();
+
+      const count = qr.getModuleCount();
+      return Array.from({ length: count }, (_, row) =>
+        Array.from({ length: count }, (_, col) => qr.isDark(row, col))
+      );
+    } catch (error) {
+      console.error('QR code error:', error);
+      return null;
+    }
+  }, [value]);
+
+  if (!modules) {
+    return (
+      <p className="text-xs text-gray-600">
+        This link is too long for a QR code. Copy the link instead.
+      </p>
+    );
+  }
+
+  const dimension = modules.length + MARGIN * 2;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code for the share link"
+    >
+      <rect width={dimension} height={dimension} fill="white" />
+      {modules.map((row, y) =>
+        row.map((dark, x) =>
+          dark ? <rect key={`${x}-${y}`} x={x + MARGIN} y={y + MARGIN} width="1" height="1" fill="black" /> : null
+        )
+      )}
+    </svg>
+  );
+};
+
+export default QRCode;
@@ -0,0 +1,216 @@
+/**
+ * RadarChart Component
+ *
+ * Plots every opportunity on the same axes, one axis per consideration they
+ * all share, as translucent polygons in each wheel's colour. The legend
+ * toggles wheels on and off, and hovering (or focusing) a point shows the
+ * exact ratings on that axis.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Wheel } from '../types';
+import { AlignmentReport } from '../utils/alignment';
+import {
+  layoutRadar,
+  MIN_RADAR_AXES,
+  RADAR_CENTER,
+  RADAR_RADIUS,
+  RADAR_SIZE,
+  RADAR_STYLE,
+  WHEEL_STYLE
+} from '../utils/svgRenderer';
+
+interface RadarChartProps {
+  /** Wheels to plot */
+  wheels: Wheel[];
+  /** Alignment that decides which considerations are shared */
+  report: AlignmentReport;
+}
+
+/** Space around the drawing so axis labels aren't clipped */
+const LABEL_MARGIN = 90;
+
+const RadarChart: React.FC<RadarChartProps> = ({ wheels, report }) => {
+  const [hiddenIds, setHiddenIds] = useState<Set<number>>(new Set());
+  const [activeAxis, setActiveAxis] = useState<number | null>(null);
+
+  const layout = useMemo(() => layoutRadar(wheels, report), [wheels, report]);
+
+  /**
+   * Shows or hides a wheel's polygon
+   */
+  const toggleWheel = (wheelId: number): void => {
+    const next = new Set(hiddenIds);
+    if (next.has(wheelId)) {
+      next.delete(wheelId);
+    } else {
+      next.add(wheelId);
+    }
+    setHiddenIds(next);
+  };
+
+  if (!layout) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900 mb-2">Radar Chart</h2>
+        <p className="text-sm text-gray-600">
+          {wheels.length < 2
+            ? 'Add another opportunity to compare them on a radar chart.'
+            : `The radar chart needs at least ${MIN_RADAR_AXES} considerations that every opportunity shares. ` +
+              'Use Consideration Alignment below to line them up.'}
+        </p>
+      </div>
+    );
+  }
+
+  const visible = layout.polygons.filter(polygon => !hiddenIds.has(wheels[polygon.wheelIndex].id));
+  const viewSize = RADAR_SIZE + LABEL_MARGIN * 2;
+  const axis = activeAxis !== null ? layout.axes[activeAxis] : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900">Radar Chart</h2>
+        {layout.omitted > 0 && (
+          <span className="text-xs sm:text-sm text-amber-700">
+            {layout.omitted} consideration{layout.omitted === 1 ? '' : 's'} not shared by every opportunity left out
+          </span>
+        )}
+      </div>
+
+      {/* Legend doubles as the visibility toggle */}
+      <div className="flex flex-wrap justify-center gap-2 mb-4" role="group" aria-label="Show or hide opportunities">
+        {wheels.map(wheel => {
+          const shown = !hiddenIds.has(wheel.id);
+          return (
+            <button
+              key={wheel.id}
+              onClick={() => toggleWheel(wheel.id)}
+              aria-pressed={shown}
+              className={`flex items-center gap-2 px-3 py-1 rounded-full border text-sm ${
+                shown ? 'border-gray-300 text-gray-800' : 'border-dashed border-gray-300 text-gray-400 line-through'
+              }`}
+            >
+              <span
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: shown ? wheel.color : 'transparent', border: `2px solid ${wheel.color}` }}
+                aria-hidden="true"
+              />
+              {wheel.name}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="relative max-w-xl mx-auto">
+        <svg
+          viewBox={`${-LABEL_MARGIN} ${-LABEL_MARGIN} ${viewSize} ${viewSize}`}
+          className="w-full h-auto"
+          fontFamily={WHEEL_STYLE.fontFamily}
+          role="img"
+          aria-label={`Radar chart of ${wheels.map(w => w.name).join(', ')} across ${layout.axes.map(a => a.name).join(', ')}`}
+        >
+          {layout.rings.map(ring => (
+            <polygon key={ring.value} points={ring.pointsAttr} fill="none" stroke={RADAR_STYLE.grid} strokeWidth={1} />
+          ))}
+          {/* Scale along the first axis */}
+          {layout.rings.map(ring => (
+            <text
+              key={`scale-${ring.value}`}
+              x={RADAR_CENTER + 4}
+              y={RADAR_CENTER - (RADAR_RADIUS * ring.value) / 10}
+              dominantBaseline="middle"
+              fontSize={10}
+              fill="#9ca3af"
+              aria-hidden="true"
+            >
+              {ring.value}
+            </text>
+          ))}
+          {layout.axes.map((a, index) => (
+            <g key={index}>
+              <line
+                x1={RADAR_CENTER}
+                y1={RADAR_CENTER}
+                x2={a.end.x}
+                y2={a.end.y}
+                stroke={activeAxis === index ? '#6b7280' : RADAR_STYLE.axis}
+                strokeWidth={1}
+              />
+              <text
+                x={a.label.x}
+                y={a.label.y}
+                textAnchor={a.label.anchor}
+                dominantBaseline="middle"
+                fontSize={RADAR_STYLE.labelFontSize}
+                fontWeight={activeAxis === index ? 'bold' : 'normal'}
+                fill={RADAR_STYLE.labelColor}
+              >
+                {a.name}
+              </text>
+            </g>
+          ))}
+
+          {visible.map(polygon => {
+            const wheel = wheels[polygon.wheelIndex];
+            return (
+              <g key={wheel.id}>
+                <polygon
+                  points={polygon.pointsAttr}
+                  fill={wheel.color}
+                  fillOpacity={RADAR_STYLE.fillOpacity}
+                  stroke={wheel.color}
+                  strokeWidth={RADAR_STYLE.strokeWidth}
+                />
+                {polygon.points.map((point, index) => (
+                  <circle
+                    key={index}
+                    cx={point.x}
+                    cy={point.y}
+                    r={activeAxis === index ? RADAR_STYLE.pointRadius + 2 : RADAR_STYLE.pointRadius}
+                    fill={wheel.color}
+                    stroke="white"
+                    strokeWidth={1}
+                    className="cursor-pointer"
+                    tabIndex={0}
+                    onMouseEnter={() => setActiveAxis(index)}
+                    onMouseLeave={() => setActiveAxis(null)}
+                    onFocus={() => setActiveAxis(index)}
+                    onBlur={() => setActiveAxis(null)}
+                    aria-label={`${wheel.name}, ${layout.axes[index].name}: ${point.value} out of 10`}
+                  >
+                    <title>{`${wheel.name} – ${layout.axes[index].name}: ${point.value}/10`}</title>
+                  </circle>
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Exact values on the hovered axis */}
+        {axis && activeAxis !== null && (
+          <div
+            className="absolute top-2 right-2 bg-white border border-gray-200 rounded shadow-md px-3 py-2 text-sm pointer-events-none"
+            role="status"
+          >
+            <div className="font-semibold text-gray-900 mb-1">{axis.name}</div>
+            <ul className="space-y-0.5">
+              {visible.map(polygon => {
+                const wheel = wheels[polygon.wheelIndex];
+                return (
+                  <li key={wheel.id} className="flex items-center gap-2 text-gray-700">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: wheel.color }} aria-hidden="true" />
+                    <span className="flex-1">{wheel.name}</span>
+                    <span className="font-semibold text-gray-900">{polygon.points[activeAxis].value}/10</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RadarChart;
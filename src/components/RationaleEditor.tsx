@@ -0,0 +1,82 @@
+/**
+ * RationaleEditor Component
+ *
+ * Collapsible "why this rating" note and evidence links for one
+ * consideration. Fields are saved when they lose focus, like the wheel notes.
+ */
+
+import React from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { APP_CONSTANTS, Segment } from '../types';
+import { describeParseProblems, formatLines, hasSegmentNotes, parseLinks, SegmentNotes } from '../utils/notes';
+
+interface RationaleEditorProps {
+  /** ID of the wheel the segment belongs to, for unique field IDs */
+  wheelId: number;
+  /** Segment whose rationale is edited */
+  segment: Segment;
+  /** Callback with the changed fields */
+  onChange: (changes: SegmentNotes) => void;
+}
+
+const RationaleEditor: React.FC<RationaleEditorProps> = ({ wheelId, segment, onChange }) => {
+  const fieldId = `${wheelId}-${segment.id}`;
+  const fieldClass = 'w-full px-2 py-1 border border-gray-300 rounded text-xs sm:text-sm resize-y';
+
+  /**
+   * Saves the typed links, reporting any that couldn't be kept
+   */
+  const saveLinks = (text: string): void => {
+    const parsed = parseLinks(text);
+    onChange({ links: parsed.items });
+
+    const problems = describeParseProblems(parsed, 'links');
+    if (problems) {
+      alert(problems);
+    }
+  };
+
+  return (
+    <details className="mt-1">
+      <summary
+        className={`cursor-pointer text-xs flex items-center gap-1 ${
+          hasSegmentNotes(segment) ? 'text-blue-700 font-medium' : 'text-gray-500'
+        }`}
+      >
+        <MessageSquareText size={12} aria-hidden="true" />
+        {hasSegmentNotes(segment) ? 'Rationale' : 'Add rationale'}
+      </summary>
+      <div className="mt-1 space-y-2">
+        <div>
+          <label htmlFor={`rationale-${fieldId}`} className="sr-only">Rationale for {segment.name}</label>
+          <textarea
+            id={`rationale-${fieldId}`}
+            key={segment.rationale ?? ''}
+            defaultValue={segment.rationale ?? ''}
+            onBlur={(e) => onChange({ rationale: e.target.value })}
+            maxLength={APP_CONSTANTS.MAX_NOTE_LENGTH}
+            rows={2}
+            className={fieldClass}
+            placeholder="Why this rating?"
+          />
+        </div>
+        <div>
+          <label htmlFor={`rationale-links-${fieldId}`} className="block text-xs text-gray-600 mb-1">
+            Evidence links (one per line)
+          </label>
+          <textarea
+            id={`rationale-links-${fieldId}`}
+            key={formatLines(segment.links)}
+            defaultValue={formatLines(segment.links)}
+            onBlur={(e) => saveLinks(e.target.value)}
+            rows={1}
+            className={fieldClass}
+            placeholder="https://"
+          />
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default RationaleEditor;
@@ -0,0 +1,60 @@
+/**
+ * SaveStatus Component
+ *
+ * Shows when the decision was last autosaved, or why saving failed, and
+ * offers an action to clear all saved data.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Check, Trash2 } from 'lucide-react';
+import { formatRelativeTime } from '../utils/format';
+
+interface SaveStatusProps {
+  /** Time of the last successful save */
+  lastSaved: Date | null;
+  /** Message describing a failed save */
+  saveError: string | null;
+  /** Callback when the user asks to clear all saved data */
+  onClearData: () => void;
+}
+
+/** How often the relative "last saved" time is refreshed (ms) */
+const REFRESH_INTERVAL = 30000;
+
+const SaveStatus: React.FC<SaveStatusProps> = ({ lastSaved, saveError, onClearData }) => {
+  const [now, setNow] = useState<Date>(new Date());
+
+  // Keep the relative time fresh
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="flex items-center gap-3 text-xs sm:text-sm">
+      {saveError ? (
+        <span className="flex items-center gap-1 text-amber-700" role="status">
+          <AlertTriangle size={14} aria-hidden="true" />
+          {saveError}
+        </span>
+      ) : lastSaved ? (
+        <span className="flex items-center gap-1 text-gray-500" role="status" title={lastSaved.toLocaleString()}>
+          <Check size={14} aria-hidden="true" />
+          Saved {formatRelativeTime(lastSaved, now)}
+        </span>
+      ) : (
+        <span className="text-gray-400" role="status">Not saved yet</span>
+      )}
+      <button
+        onClick={onClearData}
+        className="px-2 py-1 text-red-600 hover:bg-red-50 rounded flex items-center gap-1"
+        aria-label="Clear all saved data"
+      >
+        <Trash2 size={14} />
+        Clear all data
+      </button>
+    </div>
+  );
+};
+
+export default SaveStatus;
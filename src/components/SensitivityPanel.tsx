@@ -0,0 +1,232 @@
+/**
+ * SensitivityPanel Component
+ *
+ * Shows how fragile the current winner is: a plain robust / knife-edge
+ * verdict, the smallest single edit that would change the outcome, a
+ * tornado chart of the factors that swing the result most, and how far each
+ * consideration would have to move on its own.
+ */
+
+import React, { useDeferredValue, useMemo } from 'react';
+import { AlignmentSettings, APP_CONSTANTS, CriteriaComparison, ScoringMethodId, Wheel } from '../types';
+import {
+  analyzeSensitivity,
+  describeWinnerChange,
+  relativeChange,
+  SensitivityVerdict,
+  SENSITIVITY_THRESHOLDS,
+  WinnerChange
+} from '../utils/sensitivity';
+
+interface SensitivityPanelProps {
+  /** Wheels being compared */
+  wheels: Wheel[];
+  /** Scoring method that decides the winner */
+  scoringMethod?: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  criteriaComparisons?: CriteriaComparison[];
+  /** How considerations are matched for TOPSIS and AHP */
+  alignmentSettings?: AlignmentSettings;
+}
+
+/** Number of factors shown in the tornado chart */
+const TORNADO_LIMIT = 8;
+
+const VERDICT_STYLES: Record<SensitivityVerdict, { label: string; className: string }> = {
+  'no-winner': { label: 'No qualifying opportunity', className: 'bg-red-50 border-red-200 text-red-800' },
+  tied: { label: 'Tied', className: 'bg-amber-50 border-amber-200 text-amber-800' },
+  'knife-edge': { label: 'Knife-edge', className: 'bg-red-50 border-red-200 text-red-800' },
+  sensitive: { label: 'Sensitive', className: 'bg-amber-50 border-amber-200 text-amber-800' },
+  robust: { label: 'Robust', className: 'bg-green-50 border-green-200 text-green-800' }
+};
+
+/**
+ * Formats a change as "6 → 8 (+2)"
+ */
+function formatChange(change: WinnerChange | null): string {
+  if (!change) return '–';
+  const delta = change.to - change.from;
+  return `${change.from} → ${change.to} (${delta > 0 ? '+' : ''}${delta})`;
+}
+
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({
+  wheels,
+  scoringMethod = 'weighted-sum',
+  criteriaComparisons,
+  alignmentSettings
+}) => {
+  // The search rescores the wheels many times, so let rating edits render first
+  const deferredWheels = useDeferredValue(wheels);
+  const report = useMemo(
+    () => analyzeSensitivity(deferredWheels, scoringMethod, alignmentSettings, criteriaComparisons),
+    [deferredWheels, scoringMethod, alignmentSettings, criteriaComparisons]
+  );
+
+  if (!report) return null;
+
+  const wheelName = (id: number): string => wheels.find(w => w.id === id)?.name ?? '';
+  const showWeights = report.tornado.some(bar => bar.kind === 'weight');
+  const robustPoints = (min: number, max: number): number => Math.round(SENSITIVITY_THRESHOLDS.robust * (max - min) * 10) / 10;
+  const robustChange = `rating change of less than ${robustPoints(APP_CONSTANTS.MIN_VALUE, APP_CONSTANTS.MAX_VALUE)} points` +
+    (showWeights ? ` or weight change of less than ${robustPoints(APP_CONSTANTS.MIN_WEIGHT, APP_CONSTANTS.MAX_WEIGHT)} points` : '');
+  // TOPSIS and AHP only search the leader and the runner-up
+  const searchedAll = report.searched.length === deferredWheels.length;
+  const searchedNames = report.searched.map(wheelName);
+  const scope = searchedAll ? '' : ` to ${searchedNames.join(' or ')}`;
+
+  let explanation: string;
+  switch (report.verdict) {
+    case 'no-winner':
+      explanation = 'Every opportunity fails at least one must-have minimum, so there is no winner to defend.';
+      break;
+    case 'tied':
+      explanation = 'The top spot is already shared, so any change to a tied opportunity can decide it.';
+      break;
+    case 'knife-edge':
+      explanation = 'The smallest possible single change would alter the outcome. Double-check your closest ratings.';
+      break;
+    case 'sensitive':
+      explanation = 'A modest change to one factor would alter the outcome, though not a one-point slip.';
+      break;
+    default:
+      explanation = report.closest
+        ? `No single ${robustChange}${scope} alters the outcome.`
+        : `No single rating${showWeights ? ' or weight' : ''} change${scope} alters the outcome on its own.`;
+      if (!searchedAll) {
+        explanation += ' Other opportunities were not checked with this scoring method.';
+      }
+  }
+
+  // Considerations that can change the winner, easiest first
+  const ranked = [...report.considerations].sort((a, b) => {
+    const size = (entry: typeof a): number => Math.min(
+      entry.rating ? relativeChange(entry.rating) : Infinity,
+      entry.weight ? relativeChange(entry.weight) : Infinity
+    );
+    return size(a) - size(b);
+  });
+
+  // Symmetric domain around zero so "the winner changes" sits in the middle
+  const bars = report.tornado.slice(0, TORNADO_LIMIT);
+  const domain = Math.max(0.5, ...bars.map(bar => Math.max(Math.abs(bar.low), Math.abs(bar.high))));
+  const position = (margin: number): number => 50 + (margin / domain) * 50;
+  const leaderName = wheelName(report.winners[0]);
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <h2 className="text-lg sm:text-xl font-bold text-gray-900 mb-4">What Would Change the Winner?</h2>
+
+      {/* Verdict */}
+      <div className={`p-4 border rounded-lg mb-6 ${VERDICT_STYLES[report.verdict].className}`} role="status">
+        <p className="font-bold">
+          {VERDICT_STYLES[report.verdict].label}
+          {report.verdict === 'robust' && !searchedAll && ' for the leader and runner-up'}
+        </p>
+        <p className="text-sm mt-1">{explanation}</p>
+        {report.closest && (
+          <p className="text-sm mt-1">
+            Closest call: {describeWinnerChange(report.closest, wheels)}.
+          </p>
+        )}
+      </div>
+
+      {/* Tornado chart */}
+      {bars.length > 0 && (
+        <>
+          <h3 className="text-sm font-semibold text-gray-800 mb-1">Biggest swings</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            {report.verdict === 'tied' ? `Margin of ${leaderName}` : `${leaderName}'s lead`} when each factor moves across its
+            full range. Bars crossing the centre line would change the winner.
+          </p>
+          <div className="space-y-2 mb-6">
+            {bars.map(bar => {
+              const negativeEnd = Math.min(bar.high, 0);
+              const positiveStart = Math.max(bar.low, 0);
+              return (
+                <div key={`${bar.wheelId}-${bar.segmentId}-${bar.kind}`} className="flex items-center gap-3 text-xs sm:text-sm">
+                  <span className="w-40 sm:w-56 truncate text-gray-700" title={`${wheelName(bar.wheelId)}: ${bar.consideration}`}>
+                    {wheelName(bar.wheelId)}: {bar.consideration}
+                    {bar.kind === 'weight' && <span className="text-gray-500"> (weight)</span>}
+                  </span>
+                  <div
+                    className="relative flex-1 h-5 bg-gray-100 rounded"
+                    role="img"
+                    aria-label={`${bar.consideration} for ${wheelName(bar.wheelId)}: lead ranges from ${bar.low.toFixed(2)} to ${bar.high.toFixed(2)}`}
+                  >
+                    {bar.low < 0 && (
+                      <div
+                        className="absolute inset-y-0 bg-red-400"
+                        style={{ left: `${position(bar.low)}%`, width: `${position(negativeEnd) - position(bar.low)}%` }}
+                      />
+                    )}
+                    {bar.high > 0 && (
+                      <div
+                        className="absolute inset-y-0 bg-green-500"
+                        style={{ left: `${position(positiveStart)}%`, width: `${position(bar.high) - position(positiveStart)}%` }}
+                      />
+                    )}
+                    <div className="absolute inset-y-0 left-1/2 w-px bg-gray-700" aria-hidden="true" />
+                    <div
+                      className="absolute -inset-y-0.5 w-0.5 bg-blue-600"
+                      style={{ left: `${position(report.margin)}%` }}
+                      aria-hidden="true"
+                    />
+                  </div>
+                  <span className="w-16 text-right text-gray-600" title="Difference between the two extremes">{bar.swing.toFixed(1)} pts</span>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs text-gray-600 mb-6">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 bg-green-500 rounded-sm" aria-hidden="true" /> Lead kept</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 bg-red-400 rounded-sm" aria-hidden="true" /> Lead lost</span>
+            <span className="flex items-center gap-1"><span className="w-0.5 h-3 bg-blue-600" aria-hidden="true" /> Current lead ({report.margin.toFixed(2)})</span>
+          </div>
+        </>
+      )}
+
+      {/* Per-consideration thresholds */}
+      <details>
+        <summary className="cursor-pointer text-sm font-semibold text-gray-800">
+          How far each consideration would have to move
+        </summary>
+        <div className="mt-3 max-h-80 overflow-auto">
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th scope="col" className="py-1 pr-2">Opportunity</th>
+                <th scope="col" className="py-1 pr-2">Consideration</th>
+                <th scope="col" className="py-1 pr-2">Rating</th>
+                {showWeights && <th scope="col" className="py-1">Weight</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.map(entry => (
+                <tr key={`${entry.wheelId}-${entry.segmentId}`} className="border-b border-gray-100 text-gray-700">
+                  <td className="py-1 pr-2">{wheelName(entry.wheelId)}</td>
+                  <td className="py-1 pr-2">{entry.consideration}</td>
+                  <td className="py-1 pr-2" title={entry.rating ? describeWinnerChange(entry.rating, wheels) : 'No rating on its own changes the winner'}>
+                    {formatChange(entry.rating)}
+                  </td>
+                  {showWeights && (
+                    <td className="py-1" title={entry.weight ? describeWinnerChange(entry.weight, wheels) : 'No weight on its own changes the winner'}>
+                      {formatChange(entry.weight)}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">– means no change to that factor alone would alter the outcome.</p>
+          {!searchedAll && (
+            <p className="mt-1 text-xs text-gray-500">
+              With this scoring method every change rescores all opportunities, so only {searchedNames.join(' and ')} are checked.
+            </p>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,124 @@
+/**
+ * ShareModal Component
+ *
+ * Generates a share link for the open decision, with a copy button and a QR
+ * code for handing the link to a phone. Recipients open a read-only view
+ * that they can fork into their own workspace.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, X } from 'lucide-react';
+import { Wheel } from '../types';
+import { buildShareUrl, encodeShareFragment } from '../utils/sharing';
+import QRCode from './QRCode';
+
+interface ShareModalProps {
+  /** Title of the decision being shared */
+  title: string;
+  /** Wheels to share */
+  wheels: Wheel[];
+  /** Callback when the modal is dismissed */
+  onClose: () => void;
+}
+
+const ShareModal: React.FC<ShareModalProps> = ({ title, wheels, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  // Encode the decision whenever the modal opens
+  useEffect(() => {
+    let cancelled = false;
+
+    encodeShareFragment(title, wheels)
+      .then(fragment => {
+        if (!cancelled) setUrl(buildShareUrl(fragment));
+      })
+      .catch(err => {
+        console.error('Share link error:', err);
+        if (!cancelled) setError('Share link could not be created');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [title, wheels]);
+
+  /**
+   * Copies the link to the clipboard
+   */
+  const handleCopy = async (): Promise<void> => {
+    if (!url) return;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Clipboard error:', err);
+      setError('Copy failed. Select the link and copy it manually.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="share-modal-title"
+    >
+      <div className="bg-white rounded-lg max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 id="share-modal-title" className="text-xl font-bold text-gray-900">Share Decision</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded"
+            aria-label="Close share"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Anyone with this link sees a read-only copy of "{title}" and can fork it into their own workspace.
+          The data lives in the link itself and is never uploaded.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800" role="alert">
+            {error}
+          </div>
+        )}
+
+        {url ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={url}
+                readOnly
+                onFocus={(e) => e.currentTarget.select()}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded text-xs text-gray-700"
+                aria-label="Share link"
+              />
+              <button
+                onClick={handleCopy}
+                className="px-3 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 flex items-center gap-1.5 text-sm"
+              >
+                {copied ? <Check size={16} /> : <Copy size={16} />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <div className="flex justify-center">
+              <QRCode value={url} size={220} />
+            </div>
+          </div>
+        ) : (
+          !error && <p className="text-sm text-gray-500">Creating link…</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareModal;
@@ -0,0 +1,77 @@
+/**
+ * SharedDecisionView Component
+ *
+ * Read-only view of a decision opened from a share link. Nothing here can be
+ * edited; the recipient can fork the decision into their own workspace to
+ * make changes.
+ */
+
+import React from 'react';
+import { GitFork, X } from 'lucide-react';
+import { SharedDecision } from '../utils/sharing';
+import CircleWheel from './CircleWheel';
+import ComparisonBars from './ComparisonBars';
+
+interface SharedDecisionViewProps {
+  /** The decoded shared decision */
+  decision: SharedDecision;
+  /** Callback to copy the decision into the workspace */
+  onFork: () => void;
+  /** Callback to leave the shared view */
+  onClose: () => void;
+}
+
+const SharedDecisionView: React.FC<SharedDecisionViewProps> = ({ decision, onFork, onClose }) => {
+  return (
+    <div className="space-y-6">
+      {/* Read-only banner */}
+      <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">{decision.title}</h2>
+          <p className="text-sm text-blue-800">
+            You're viewing a shared decision. It is read-only until you fork it.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onFork}
+            className="px-4 py-2 bg-indigo-500 text-white rounded hover:bg-indigo-600 flex items-center gap-2 text-sm"
+          >
+            <GitFork size={16} />
+            Fork to My Decisions
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 flex items-center gap-2 text-sm"
+          >
+            <X size={16} />
+            Close
+          </button>
+        </div>
+      </div>
+
+      {decision.issues.length > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <strong>Note:</strong> {decision.issues.length} field{decision.issues.length === 1 ? ' was' : 's were'} invalid
+          in this link and {decision.issues.length === 1 ? 'has' : 'have'} been repaired or removed.
+        </div>
+      )}
+
+      {/* Wheels */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 2xl:grid-cols-3 gap-6 sm:gap-8">
+        {decision.wheels.map(wheel => (
+          <div key={wheel.id} className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+            <h3 className="text-xl sm:text-2xl font-bold text-gray-800 mb-4">{wheel.name}</h3>
+            <div className="flex justify-center overflow-x-auto">
+              <CircleWheel wheel={wheel} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <ComparisonBars wheels={decision.wheels} />
+    </div>
+  );
+};
+
+export default SharedDecisionView;
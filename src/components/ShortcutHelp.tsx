@@ -0,0 +1,77 @@
+/**
+ * ShortcutHelp Component
+ *
+ * Overlay listing every keyboard shortcut, opened with "?" or from the
+ * command palette.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { SHORTCUTS } from '../utils/keyboard';
+
+interface ShortcutHelpProps {
+  /** Callback when the overlay is dismissed */
+  onClose: () => void;
+}
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    closeRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+    >
+      <div
+        className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-auto p-6"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="shortcut-help-title" className="flex items-center gap-2 text-xl font-bold text-gray-900">
+            <Keyboard size={20} aria-hidden="true" /> Keyboard Shortcuts
+          </h2>
+          <button
+            ref={closeRef}
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded"
+            aria-label="Close keyboard shortcuts"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {SHORTCUTS.map(section => (
+          <section key={section.group} className="mb-4">
+            <h3 className="text-sm font-semibold text-gray-800 mb-2">{section.group}</h3>
+            <dl className="space-y-1.5">
+              {section.shortcuts.map(shortcut => (
+                <div key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+                  <dt className="flex gap-1">
+                    {shortcut.keys.map(key => (
+                      <kbd key={key} className="px-1.5 py-0.5 text-xs font-mono bg-gray-100 border border-gray-300 rounded text-gray-700">
+                        {key}
+                      </kbd>
+                    ))}
+                  </dt>
+                  <dd className="text-gray-700 text-right">{shortcut.description}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        ))}
+
+        <p className="text-xs text-gray-500">Shortcuts are paused while you type in a text field.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
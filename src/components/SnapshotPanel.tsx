@@ -0,0 +1,270 @@
+/**
+ * SnapshotPanel Component
+ *
+ * Named snapshots of the decision and how it evolved. Snapshots are listed
+ * on a timeline ending with the current state; any two points can be
+ * compared to see which opportunities and considerations were added,
+ * removed or renamed and which ratings moved. Each changed opportunity can
+ * be shown as a wheel with the earlier ratings drawn over the later ones.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Camera, Trash2 } from 'lucide-react';
+import { AlignmentSettings, APP_CONSTANTS, DecisionSnapshot, Wheel } from '../types';
+import { formatRelativeTime } from '../utils/format';
+import { diffWheels, hasWheelChanges, WheelDiff } from '../utils/snapshots';
+import CircleWheel from './CircleWheel';
+
+interface SnapshotPanelProps {
+  /** Current wheels */
+  wheels: Wheel[];
+  /** Saved snapshots, oldest first */
+  snapshots: DecisionSnapshot[];
+  /** How considerations recreated under new IDs are matched */
+  alignmentSettings?: AlignmentSettings;
+  /** Size wedges in proportion to segment weight instead of equally */
+  proportionalAngles?: boolean;
+  /** Callback to take a snapshot of the current wheels */
+  onTakeSnapshot: (name: string) => void;
+  /** Callback to replace the current wheels with a snapshot's */
+  onRestore: (snapshotId: string) => void;
+  /** Callback to delete a snapshot */
+  onDelete: (snapshotId: string) => void;
+}
+
+/** Timeline value standing for the current wheels */
+const NOW = 'now';
+
+/**
+ * Formats a rating change as "+2" or "-1.5"
+ */
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? '+' : ''}${Number(delta.toFixed(1))}`;
+}
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({
+  wheels,
+  snapshots,
+  alignmentSettings,
+  proportionalAngles = false,
+  onTakeSnapshot,
+  onRestore,
+  onDelete
+}) => {
+  const [name, setName] = useState<string>('');
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string>(NOW);
+  const [overlayWheelId, setOverlayWheelId] = useState<number | null>(null);
+
+  // Compare the latest snapshot with now unless another point was picked
+  const from = snapshots.find(s => s.id === fromId) ?? snapshots[snapshots.length - 1] ?? null;
+  const to = snapshots.find(s => s.id === toId) ?? null;
+  const toWheels = to ? to.wheels : wheels;
+  const toLabel = to ? to.name : 'Now';
+
+  const diffs = useMemo(
+    () => (from ? diffWheels(from.wheels, toWheels, alignmentSettings).filter(hasWheelChanges) : []),
+    [from, toWheels, alignmentSettings]
+  );
+
+  /**
+   * Takes a snapshot and clears the name field
+   */
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    onTakeSnapshot(name);
+    setName('');
+  };
+
+  /**
+   * Renders what changed for one opportunity
+   */
+  const renderDiff = (diff: WheelDiff) => {
+    const wheel = toWheels.find(w => w.id === diff.wheelId);
+    const showOverlay = overlayWheelId === diff.wheelId && wheel && diff.status === 'kept';
+
+    return (
+      <li key={diff.wheelId} className="border border-gray-200 rounded p-3">
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: diff.color }} aria-hidden="true" />
+          <span className="font-semibold text-gray-900">{diff.name}</span>
+          {diff.status === 'added' && <span className="px-1.5 py-0.5 text-xs rounded bg-green-100 text-green-800">Added</span>}
+          {diff.status === 'removed' && <span className="px-1.5 py-0.5 text-xs rounded bg-red-100 text-red-800">Removed</span>}
+          {diff.previousName && <span className="text-xs text-gray-500">(was {diff.previousName})</span>}
+        </div>
+
+        {diff.status === 'kept' && (
+          <div className="text-sm text-gray-700 space-y-1">
+            {diff.added.length > 0 && <p><span className="text-green-700 font-medium">Added:</span> {diff.added.join(', ')}</p>}
+            {diff.removed.length > 0 && <p><span className="text-red-700 font-medium">Removed:</span> {diff.removed.join(', ')}</p>}
+            {diff.renamed.length > 0 && (
+              <p>
+                <span className="font-medium">Renamed:</span>{' '}
+                {diff.renamed.map(r => `${r.from} → ${r.to}`).join(', ')}
+              </p>
+            )}
+            {diff.changes.length > 0 && (
+              <table className="w-full text-xs sm:text-sm mt-2">
+                <caption className="sr-only">Rating changes for {diff.name}</caption>
+                <thead>
+                  <tr className="text-gray-600 border-b border-gray-200">
+                    <th scope="col" className="py-1 text-left font-medium">Consideration</th>
+                    <th scope="col" className="py-1 text-right font-medium">{from?.name}</th>
+                    <th scope="col" className="py-1 text-right font-medium">{toLabel}</th>
+                    <th scope="col" className="py-1 text-right font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changes.map(change => (
+                    <tr key={change.segmentId} className="border-b border-gray-100">
+                      <th scope="row" className="py-1 text-left font-normal">{change.name}</th>
+                      <td className="py-1 text-right">{change.before}</td>
+                      <td className="py-1 text-right">{change.after}</td>
+                      <td className={`py-1 text-right font-semibold ${change.delta > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                        {formatDelta(change.delta)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {wheel && (
+              <button
+                onClick={() => setOverlayWheelId(showOverlay ? null : diff.wheelId)}
+                aria-expanded={!!showOverlay}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                {showOverlay ? 'Hide wheel' : 'Show before/after on the wheel'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {showOverlay && (
+          <div className="mt-3 flex justify-center overflow-x-auto">
+            <CircleWheel
+              wheel={wheel}
+              proportionalAngles={proportionalAngles}
+              previousValues={diff.previousValues}
+              previousLabel={from?.name}
+            />
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <h2 className="text-lg sm:text-xl font-bold text-gray-900 mb-4">Snapshots</h2>
+
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2 mb-6">
+        <label htmlFor="snapshot-name" className="sr-only">Snapshot name</label>
+        <input
+          id="snapshot-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={APP_CONSTANTS.MAX_PROJECT_NAME_LENGTH}
+          placeholder="e.g. After second viewing"
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
+        />
+        <button
+          type="submit"
+          className="flex items-center justify-center gap-2 px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600"
+          title={`The newest ${APP_CONSTANTS.MAX_SNAPSHOTS} snapshots are kept`}
+        >
+          <Camera size={16} aria-hidden="true" /> Take snapshot
+        </button>
+      </form>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No snapshots yet. Take one now and again after your ratings change to see how the picture evolved.
+        </p>
+      ) : (
+        <>
+          {/* Timeline */}
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Timeline</h3>
+          <ol className="relative border-l-2 border-gray-200 ml-2 mb-6 space-y-3">
+            {snapshots.map(snapshot => (
+              <li key={snapshot.id} className="ml-4">
+                <span
+                  className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                    snapshot.id === from?.id || snapshot.id === to?.id ? 'bg-blue-500' : 'bg-gray-400'
+                  }`}
+                  aria-hidden="true"
+                />
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <span className="font-medium text-sm text-gray-900">{snapshot.name}</span>
+                  <time dateTime={snapshot.createdAt} className="text-xs text-gray-500" title={new Date(snapshot.createdAt).toLocaleString()}>
+                    {formatRelativeTime(new Date(snapshot.createdAt))}
+                  </time>
+                  <button onClick={() => { setFromId(snapshot.id); setToId(NOW); }} className="text-xs text-blue-600 hover:underline">
+                    Compare with now
+                  </button>
+                  <button
+                    onClick={() => onRestore(snapshot.id)}
+                    className="text-xs text-blue-600 hover:underline"
+                    title="Replace the current wheels with this snapshot (can be undone)"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete the snapshot "${snapshot.name}"?`)) {
+                        onDelete(snapshot.id);
+                      }
+                    }}
+                    className="p-1 rounded text-gray-500 hover:bg-red-50 hover:text-red-600"
+                    aria-label={`Delete snapshot ${snapshot.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+            <li className="ml-4">
+              <span
+                className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 border-white ${!to ? 'bg-blue-500' : 'bg-gray-400'}`}
+                aria-hidden="true"
+              />
+              <span className="font-medium text-sm text-gray-900">Now</span>
+            </li>
+          </ol>
+
+          {/* Diff */}
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">What changed</h3>
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-gray-700">
+            <label htmlFor="snapshot-from">From</label>
+            <select
+              id="snapshot-from"
+              value={from?.id ?? ''}
+              onChange={(e) => setFromId(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            <label htmlFor="snapshot-to">to</label>
+            <select
+              id="snapshot-to"
+              value={to?.id ?? NOW}
+              onChange={(e) => setToId(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              <option value={NOW}>Now</option>
+            </select>
+          </div>
+          {diffs.length === 0 ? (
+            <p className="text-sm text-gray-600" role="status">Nothing changed between {from?.name} and {toLabel}.</p>
+          ) : (
+            <ul className="space-y-3">{diffs.map(renderDiff)}</ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotPanel;
@@ -0,0 +1,272 @@
+/**
+ * TemplateModal Component
+ *
+ * The template library: built-in and saved sets of considerations. A
+ * template can be applied to every opportunity in the open decision or used
+ * to start a new one. The current opportunity's considerations can be saved
+ * as a template, and saved templates imported from or exported to JSON.
+ */
+
+import React, { useState } from 'react';
+import { Download, LayoutTemplate, Trash2, Upload, X } from 'lucide-react';
+import { APP_CONSTANTS, ConsiderationTemplate, Wheel } from '../types';
+import { exportTemplatesToJSON } from '../utils/exports';
+import { BUILT_IN_TEMPLATES, isBuiltInTemplate, parseTemplatesJSON } from '../utils/templates';
+
+interface TemplateModalProps {
+  /** Templates saved by the user */
+  templates: ConsiderationTemplate[];
+  /** Wheels of the open decision, any of which can be saved as a template */
+  wheels: Wheel[];
+  /** Callback to give every opportunity the template's considerations */
+  onApply: (template: ConsiderationTemplate) => void;
+  /** Callback to start a new decision from the template */
+  onStartDecision: (template: ConsiderationTemplate) => void;
+  /** Callback to save a wheel's considerations as a template */
+  onSave: (wheelId: number, name: string, description: string) => void;
+  /** Callback to delete a saved template */
+  onDelete: (templateId: string) => void;
+  /** Callback with validated templates read from a file */
+  onImport: (templates: ConsiderationTemplate[]) => void;
+  /** Callback when the modal is dismissed */
+  onClose: () => void;
+}
+
+/** Largest template file accepted (1 MB) */
+const MAX_TEMPLATE_FILE_SIZE = 1024 * 1024;
+
+const TemplateModal: React.FC<TemplateModalProps> = ({
+  templates,
+  wheels,
+  onApply,
+  onStartDecision,
+  onSave,
+  onDelete,
+  onImport,
+  onClose
+}) => {
+  const [sourceWheelId, setSourceWheelId] = useState<number>(wheels[0]?.id ?? 0);
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [message, setMessage] = useState<{ kind: 'error' | 'info'; text: string } | null>(null);
+
+  const canSave = templates.length < APP_CONSTANTS.MAX_TEMPLATES;
+
+  /**
+   * Saves the chosen wheel's considerations and clears the form
+   */
+  const handleSave = (e: React.FormEvent): void => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(sourceWheelId, name, description);
+    setName('');
+    setDescription('');
+    setMessage({ kind: 'info', text: 'Template saved.' });
+  };
+
+  /**
+   * Reads and validates a template file
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      if (file.size > MAX_TEMPLATE_FILE_SIZE) {
+        throw new Error('File is larger than 1 MB');
+      }
+      const result = parseTemplatesJSON(await file.text());
+      onImport(result.templates);
+      setMessage({
+        kind: 'info',
+        text: `Imported ${result.templates.length} template${result.templates.length === 1 ? '' : 's'}` +
+          (result.skipped > 0 ? `; ${result.skipped} without usable considerations skipped.` : '.')
+      });
+    } catch (err) {
+      setMessage({ kind: 'error', text: err instanceof Error ? err.message : 'Import failed' });
+    }
+  };
+
+  /**
+   * Renders one template with its considerations and actions
+   */
+  const renderTemplate = (template: ConsiderationTemplate) => (
+    <li key={template.id} className="border border-gray-200 rounded">
+      <details>
+        <summary className="cursor-pointer px-3 py-2 flex items-center justify-between gap-2">
+          <span className="font-medium text-sm text-gray-900">{template.name}</span>
+          <span className="text-xs text-gray-500">{template.considerations.length} considerations</span>
+        </summary>
+        <div className="px-3 pb-3">
+          {template.description && <p className="text-xs text-gray-600 mb-2">{template.description}</p>}
+          <ul className="text-xs text-gray-700 space-y-1 mb-3">
+            {template.considerations.map(consideration => (
+              <li key={consideration.name}>
+                <span className="font-medium">{consideration.name}</span>
+                {consideration.weight !== undefined && (
+                  <span className="text-gray-500"> · importance {consideration.weight}/{APP_CONSTANTS.MAX_WEIGHT}</span>
+                )}
+                {consideration.description && <span className="block text-gray-500">{consideration.description}</span>}
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onApply(template)}
+              className="px-3 py-1 bg-blue-500 text-white text-xs sm:text-sm rounded hover:bg-blue-600"
+              title="Give every opportunity these considerations, keeping ratings that already match"
+            >
+              Apply to all opportunities
+            </button>
+            <button
+              onClick={() => onStartDecision(template)}
+              className="px-3 py-1 bg-indigo-500 text-white text-xs sm:text-sm rounded hover:bg-indigo-600"
+            >
+              Start new decision
+            </button>
+            {!isBuiltInTemplate(template) && (
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete the template "${template.name}"?`)) {
+                    onDelete(template.id);
+                  }
+                }}
+                className="ml-auto p-1 rounded text-gray-500 hover:bg-red-50 hover:text-red-600"
+                aria-label={`Delete template ${template.name}`}
+                title="Delete template"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+      </details>
+    </li>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="template-modal-title"
+    >
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-auto p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 id="template-modal-title" className="flex items-center gap-2 text-xl font-bold text-gray-900">
+            <LayoutTemplate size={20} aria-hidden="true" /> Templates
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded"
+            aria-label="Close templates"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-4 p-3 rounded text-sm border ${
+              message.kind === 'error' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'
+            }`}
+            role={message.kind === 'error' ? 'alert' : 'status'}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* Built-in templates */}
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Built-in</h3>
+        <ul className="space-y-2 mb-6">
+          {BUILT_IN_TEMPLATES.map(renderTemplate)}
+        </ul>
+
+        {/* Saved templates */}
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <h3 className="text-sm font-semibold text-gray-800">Your templates</h3>
+          <div className="flex gap-2">
+            <label className="flex items-center gap-1 px-2 py-1 bg-gray-200 text-gray-800 text-xs rounded hover:bg-gray-300 cursor-pointer">
+              <Upload size={14} aria-hidden="true" /> Import
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFileChange}
+                className="sr-only"
+                aria-label="Import templates from a JSON file"
+              />
+            </label>
+            <button
+              onClick={() => exportTemplatesToJSON(templates)}
+              disabled={templates.length === 0}
+              className="flex items-center gap-1 px-2 py-1 bg-gray-200 text-gray-800 text-xs rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Export your templates as JSON"
+            >
+              <Download size={14} aria-hidden="true" /> Export
+            </button>
+          </div>
+        </div>
+        {templates.length === 0 ? (
+          <p className="text-sm text-gray-600 mb-4">Nothing saved yet. Save an opportunity's considerations below to reuse them.</p>
+        ) : (
+          <ul className="space-y-2 mb-4">
+            {templates.map(renderTemplate)}
+          </ul>
+        )}
+
+        {/* Save as template */}
+        <form onSubmit={handleSave} className="p-3 bg-gray-50 border border-gray-200 rounded space-y-2">
+          <h3 className="text-sm font-semibold text-gray-800">Save as template</h3>
+          <div>
+            <label htmlFor="template-source" className="block text-xs font-medium text-gray-600 mb-1">Considerations of</label>
+            <select
+              id="template-source"
+              value={sourceWheelId}
+              onChange={(e) => setSourceWheelId(Number(e.target.value))}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              {wheels.map(wheel => (
+                <option key={wheel.id} value={wheel.id}>{wheel.name} ({wheel.segments.length})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="template-name" className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+            <input
+              id="template-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={APP_CONSTANTS.MAX_PROJECT_NAME_LENGTH}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              placeholder="e.g. Car purchase"
+            />
+          </div>
+          <div>
+            <label htmlFor="template-description" className="block text-xs font-medium text-gray-600 mb-1">Description (optional)</label>
+            <input
+              id="template-description"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={APP_CONSTANTS.MAX_DESCRIPTION_LENGTH}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!name.trim() || !canSave}
+            className="px-3 py-1.5 bg-purple-500 text-white text-sm rounded hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={canSave ? 'Save these considerations and their importance weights' : `At most ${APP_CONSTANTS.MAX_TEMPLATES} templates can be saved`}
+          >
+            Save Template
+          </button>
+          <p className="text-xs text-gray-500">A template with the same name is replaced.</p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateModal;
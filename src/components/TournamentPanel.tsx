@@ -0,0 +1,261 @@
+/**
+ * TournamentPanel Component
+ *
+ * Narrows a long list of opportunities to a final two or three through
+ * head-to-head matches. Each match shows the pair side by side with their
+ * ratings on the considerations they share, and the user picks the winner.
+ * Earlier results can be changed, which redraws the rounds after them. At
+ * the end the eliminated opportunities can be removed (this can be undone).
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { AlignmentSettings, CriteriaComparison, ScoringMethodId, Wheel } from '../types';
+import { alignConsiderations } from '../utils/alignment';
+import { rankWheels, SCORING_METHODS, scoreWheels } from '../utils/calculations';
+import {
+  createTournament,
+  isTournamentCurrent,
+  nextMatch,
+  recordMatchWinner,
+  Tournament,
+  TOURNAMENT_TARGETS,
+  tournamentFinalists
+} from '../utils/tournament';
+import MiniWheel from './MiniWheel';
+
+interface TournamentPanelProps {
+  /** Wheels taking part */
+  wheels: Wheel[];
+  /** How considerations are matched across wheels */
+  alignmentSettings?: AlignmentSettings;
+  /** Method used to seed the wheels and suggest winners */
+  scoringMethod?: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  criteriaComparisons?: CriteriaComparison[];
+  /** Size wedges in proportion to segment weight instead of equally */
+  proportionalAngles?: boolean;
+  /** Tournament in progress, if any */
+  tournament: Tournament | null;
+  /** Callback when the tournament starts, advances or is abandoned */
+  onTournamentChange: (tournament: Tournament | null) => void;
+  /** Callback to remove every wheel except the finalists */
+  onKeepFinalists: (wheelIds: number[]) => void;
+}
+
+const TournamentPanel: React.FC<TournamentPanelProps> = ({
+  wheels,
+  alignmentSettings,
+  scoringMethod = 'weighted-sum',
+  criteriaComparisons,
+  proportionalAngles = false,
+  tournament,
+  onTournamentChange,
+  onKeepFinalists
+}) => {
+  const [target, setTarget] = useState<number>(TOURNAMENT_TARGETS[0]);
+
+  const result = useMemo(
+    () => scoreWheels(wheels, scoringMethod, alignmentSettings, criteriaComparisons),
+    [wheels, scoringMethod, alignmentSettings, criteriaComparisons]
+  );
+  const method = SCORING_METHODS[result.method];
+  const wheelById = (id: number): Wheel | undefined => wheels.find(w => w.id === id);
+  const scoreOf = (id: number): number => result.scores[wheels.findIndex(w => w.id === id)] ?? 0;
+
+  const active = tournament && isTournamentCurrent(tournament, wheels.map(w => w.id)) ? tournament : null;
+  const current = active ? nextMatch(active) : null;
+  const finalists = active ? tournamentFinalists(active) : null;
+
+  /**
+   * Seeds the opportunities by score and draws the first round
+   */
+  const start = (): void => {
+    const seeds = rankWheels(wheels, result.scores).map(index => wheels[index].id);
+    onTournamentChange(createTournament(seeds, target));
+  };
+
+  /**
+   * Renders the head-to-head for the current match
+   */
+  const renderMatch = (roundIndex: number, matchIndex: number) => {
+    const match = active!.rounds[roundIndex].matches[matchIndex];
+    const players = [wheelById(match.first), wheelById(match.second)];
+    if (!players[0] || !players[1]) return null;
+    const [a, b] = players as [Wheel, Wheel];
+
+    const rows = alignConsiderations([a, b], alignmentSettings).rows;
+    const shared = rows.filter(row => row.cells[0] && row.cells[1]);
+    const unshared = rows.length - shared.length;
+    const favourite = scoreOf(a.id) === scoreOf(b.id) ? null : scoreOf(a.id) > scoreOf(b.id) ? a : b;
+
+    return (
+      <div className="border border-gray-200 rounded p-3 sm:p-4">
+        <p className="text-sm text-gray-600 mb-3">
+          Round {roundIndex + 1}, match {matchIndex + 1} of {active!.rounds[roundIndex].matches.length}.{' '}
+          {favourite ? `${favourite.name} has the higher ${method.label} score.` : 'They score the same.'}
+        </p>
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          {[a, b].map(player => (
+            <div key={player.id} className="flex flex-col items-center gap-2 text-center">
+              <MiniWheel wheel={player} size={140} proportionalAngles={proportionalAngles} />
+              <span className="font-semibold text-gray-900">{player.name}</span>
+              <span className="text-xs text-gray-600">{method.formatScore(scoreOf(player.id))}</span>
+              <button
+                onClick={() => onTournamentChange(recordMatchWinner(active!, roundIndex, matchIndex, player.id))}
+                className="px-3 py-1.5 text-white text-sm rounded hover:opacity-90"
+                style={{ backgroundColor: player.color }}
+              >
+                {player.name} wins
+              </button>
+            </div>
+          ))}
+        </div>
+        {shared.length > 0 && (
+          <table className="w-full text-xs sm:text-sm">
+            <caption className="sr-only">Ratings of {a.name} and {b.name} on the considerations they share</caption>
+            <thead>
+              <tr className="text-gray-600 border-b border-gray-200">
+                <th scope="col" className="py-1 text-left font-medium">Consideration</th>
+                <th scope="col" className="py-1 text-right font-medium">{a.name}</th>
+                <th scope="col" className="py-1 text-right font-medium">{b.name}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shared.map(row => {
+                const [x, y] = [row.cells[0]!.segment.value, row.cells[1]!.segment.value];
+                return (
+                  <tr key={row.name} className="border-b border-gray-100 text-gray-700">
+                    <th scope="row" className="py-1 text-left font-normal">{row.name}</th>
+                    <td className={`py-1 text-right ${x > y ? 'font-bold text-gray-900' : ''}`}>{x}</td>
+                    <td className={`py-1 text-right ${y > x ? 'font-bold text-gray-900' : ''}`}>{y}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {unshared > 0 && (
+          <p className="mt-2 text-xs text-gray-500">
+            {unshared} consideration{unshared === 1 ? ' is' : 's are'} rated for only one of them.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+      <h2 className="flex items-center gap-2 text-lg sm:text-xl font-bold text-gray-900 mb-4">
+        <Trophy size={20} aria-hidden="true" /> Tournament
+      </h2>
+
+      {!active && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Compare the opportunities two at a time until only your finalists are left. They are seeded by{' '}
+            {method.label} score, so the strongest meet the weakest first and the top seeds may get a bye.
+          </p>
+          {wheels.length <= TOURNAMENT_TARGETS[0] ? (
+            <p className="text-sm text-gray-600">Add more opportunities to run a tournament.</p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="tournament-target" className="text-sm text-gray-700">Narrow down to</label>
+              <select
+                id="tournament-target"
+                value={target}
+                onChange={(e) => setTarget(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {TOURNAMENT_TARGETS.filter(t => t < wheels.length).map(t => (
+                  <option key={t} value={t}>{t} finalists</option>
+                ))}
+              </select>
+              <button
+                onClick={start}
+                className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600"
+              >
+                Start tournament
+              </button>
+            </div>
+          )}
+          {tournament && (
+            <p className="text-xs text-gray-500">The previous tournament ended because the opportunities changed.</p>
+          )}
+        </div>
+      )}
+
+      {active && current && renderMatch(current.roundIndex, current.matchIndex)}
+
+      {active && finalists && (
+        <div className="p-3 sm:p-4 bg-green-50 border border-green-200 rounded" role="status">
+          <p className="font-semibold text-green-900 mb-2">
+            Finalists: {finalists.map(id => wheelById(id)?.name).join(', ')}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => {
+                if (window.confirm(`Remove the ${wheels.length - finalists.length} eliminated opportunities? You can undo this.`)) {
+                  onKeepFinalists(finalists);
+                }
+              }}
+              className="px-3 py-1.5 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+            >
+              Keep only the finalists
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Results so far */}
+      {active && active.rounds.some(round => round.matches.some(m => m.winner !== null)) && (
+        <div className="mt-4">
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Results</h3>
+          <ol className="space-y-2 text-sm text-gray-700">
+            {active.rounds.map((round, roundIndex) => (
+              <li key={roundIndex}>
+                <span className="font-medium">Round {roundIndex + 1}</span>
+                {round.byes.length > 0 && (
+                  <span className="text-xs text-gray-500"> · byes: {round.byes.map(id => wheelById(id)?.name).join(', ')}</span>
+                )}
+                <ul className="mt-1 space-y-1">
+                  {round.matches.map((match, matchIndex) => match.winner !== null && (
+                    <li key={matchIndex} className="flex flex-wrap items-center gap-2">
+                      <span>
+                        <strong>{wheelById(match.winner)?.name}</strong> beat{' '}
+                        {wheelById(match.winner === match.first ? match.second : match.first)?.name}
+                      </span>
+                      <button
+                        onClick={() => onTournamentChange(recordMatchWinner(
+                          active,
+                          roundIndex,
+                          matchIndex,
+                          match.winner === match.first ? match.second : match.first
+                        ))}
+                        className="text-xs text-blue-600 hover:underline"
+                        title="Later rounds are redrawn"
+                      >
+                        Change result
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {active && (
+        <button
+          onClick={() => onTournamentChange(null)}
+          className="mt-4 px-3 py-1.5 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+        >
+          Start over
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TournamentPanel;
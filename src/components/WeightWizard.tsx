@@ -0,0 +1,341 @@
+/**
+ * WeightWizard Component
+ *
+ * A questionnaire that works out importance weights from pairwise answers:
+ * "Which matters more to you, Location or Time, and by how much?" for each
+ * pair of considerations. The review step shows the derived weights next to
+ * the current ones, flags contradictory answers with a way back to them,
+ * and lets each weight be adjusted before it is applied. Earlier answers
+ * are filled in, so reopening the questionnaire edits them.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Scale, X } from 'lucide-react';
+import { AlignmentSettings, APP_CONSTANTS, CriteriaComparison, Wheel } from '../types';
+import { alignConsiderations } from '../utils/alignment';
+import { AHP_CONSISTENCY_LIMIT } from '../utils/calculations';
+import {
+  answersFromComparisons,
+  derivePairwiseWeights,
+  PAIRWISE_INTENSITIES,
+  PAIRWISE_METHODS,
+  PairwiseAnswer,
+  mergeComparisons,
+  PairwiseMethod,
+  pairwiseQuestions
+} from '../utils/pairwise';
+
+interface WeightWizardProps {
+  /** Wheels whose considerations are compared */
+  wheels: Wheel[];
+  /** How considerations are matched across wheels */
+  alignmentSettings?: AlignmentSettings;
+  /** Comparisons saved from earlier answers */
+  comparisons: CriteriaComparison[];
+  /** Callback with the reviewed weight per consideration name and the comparisons to save */
+  onApply: (weights: Map<string, number>, comparisons: CriteriaComparison[]) => void;
+  /** Callback when the wizard is dismissed */
+  onClose: () => void;
+}
+
+/** Which consideration an answer favours */
+type Side = 'first' | 'equal' | 'second';
+
+/**
+ * Splits an answer into the favoured side and its strength
+ */
+function describeAnswer(answer: PairwiseAnswer): { side: Side | null; intensity: number } {
+  if (answer === null) return { side: null, intensity: 3 };
+  if (answer > 1) return { side: 'first', intensity: answer };
+  if (answer < 1) return { side: 'second', intensity: 1 / answer };
+  return { side: 'equal', intensity: 3 };
+}
+
+const WeightWizard: React.FC<WeightWizardProps> = ({ wheels, alignmentSettings, comparisons, onApply, onClose }) => {
+  const rows = useMemo(() => alignConsiderations(wheels, alignmentSettings).rows, [wheels, alignmentSettings]);
+  const names = rows.map(row => row.name);
+  const questions = useMemo(() => pairwiseQuestions(names.length), [names.length]);
+
+  const [answers, setAnswers] = useState<PairwiseAnswer[]>(() => answersFromComparisons(names, comparisons));
+  // Start on the review when every pair was compared before
+  const [step, setStep] = useState<number>(() => (answers.every(a => a !== null) ? questions.length : 0));
+  const [method, setMethod] = useState<PairwiseMethod>('eigenvector');
+  // Weights changed by hand on the review step, by consideration index
+  const [overrides, setOverrides] = useState<Record<number, number>>({});
+
+  const result = useMemo(() => derivePairwiseWeights(names.length, answers, method), [names.length, answers, method]);
+  const reviewing = step >= questions.length;
+  const unanswered = answers.filter(a => a === null).length;
+
+  /**
+   * Records an answer for the current question
+   */
+  const answer = (side: Side, intensity: number): void => {
+    const value = side === 'equal' ? 1 : side === 'first' ? intensity : 1 / intensity;
+    setAnswers(answers.map((a, i) => (i === step ? value : a)));
+    setOverrides({});
+  };
+
+  /**
+   * Goes back to the question comparing two considerations
+   */
+  const revisit = (a: number, b: number): void => {
+    const index = questions.findIndex(q => (q.first === a && q.second === b) || (q.first === b && q.second === a));
+    if (index !== -1) setStep(index);
+  };
+
+  /**
+   * Current weights of a consideration across the wheels, e.g. "3" or "2–4"
+   */
+  const currentWeight = (rowIndex: number): string => {
+    const weights = rows[rowIndex].cells.filter(cell => cell !== null).map(cell => cell!.segment.weight);
+    const low = Math.min(...weights);
+    const high = Math.max(...weights);
+    return low === high ? String(low) : `${low}–${high}`;
+  };
+
+  const finalWeight = (index: number): number => overrides[index] ?? result.weights[index];
+
+  /**
+   * Applies the reviewed weights
+   */
+  const handleApply = (): void => {
+    onApply(
+      new Map(names.map((name, index) => [name, finalWeight(index)])),
+      mergeComparisons(names, answers, comparisons)
+    );
+  };
+
+  const renderQuestion = () => {
+    const question = questions[step];
+    const first = names[question.first];
+    const second = names[question.second];
+    const { side, intensity } = describeAnswer(answers[step]);
+
+    return (
+      <div>
+        <div className="mb-4">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>Question {step + 1} of {questions.length}</span>
+            <span>{questions.length - unanswered} answered</span>
+          </div>
+          <div className="h-1.5 bg-gray-200 rounded" aria-hidden="true">
+            <div className="h-1.5 bg-blue-500 rounded" style={{ width: `${((step + 1) / questions.length) * 100}%` }} />
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="text-base font-semibold text-gray-900 mb-3">
+            Which matters more to you: {first} or {second}?
+          </legend>
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            {([['first', first], ['equal', 'Equally'], ['second', second]] as Array<[Side, string]>).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => answer(value, intensity)}
+                aria-pressed={side === value}
+                className={`px-2 py-3 rounded border text-sm font-medium break-words ${
+                  side === value ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-800 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        {(side === 'first' || side === 'second') && (
+          <fieldset className="mb-4">
+            <legend className="text-sm text-gray-700 mb-2">
+              By how much does {side === 'first' ? first : second} matter more?
+            </legend>
+            <div className="flex flex-wrap gap-2">
+              {PAIRWISE_INTENSITIES.filter(option => option.value > 1).map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => answer(side, option.value)}
+                  aria-pressed={intensity === option.value}
+                  className={`px-3 py-1.5 rounded border text-sm ${
+                    intensity === option.value ? 'bg-blue-100 border-blue-400 text-blue-900' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <button
+            onClick={() => setStep(step - 1)}
+            disabled={step === 0}
+            className="px-3 py-1.5 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Back
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setStep(questions.length)}
+              className="px-3 py-1.5 text-sm text-blue-600 hover:underline"
+              title="Unanswered questions count as equally important"
+            >
+              Review weights
+            </button>
+            <button
+              onClick={() => setStep(step + 1)}
+              disabled={side === null}
+              className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderReview = () => {
+    const flagged = result.inconsistent || result.cycles.length > 0;
+    const worst = result.worstQuestion !== null ? questions[result.worstQuestion] : null;
+
+    return (
+      <div>
+        {unanswered > 0 && (
+          <p className="mb-3 text-sm text-gray-600">
+            {unanswered} question{unanswered === 1 ? ' was' : 's were'} skipped and count{unanswered === 1 ? 's' : ''} as equally important.
+          </p>
+        )}
+
+        <fieldset className="mb-4">
+          <legend className="text-xs font-medium text-gray-600 mb-1">Method</legend>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(PAIRWISE_METHODS) as PairwiseMethod[]).map(id => (
+              <label key={id} className="flex items-center gap-2 text-sm text-gray-700" title={PAIRWISE_METHODS[id].description}>
+                <input
+                  type="radio"
+                  name="pairwise-method"
+                  checked={method === id}
+                  onChange={() => { setMethod(id); setOverrides({}); }}
+                />
+                {PAIRWISE_METHODS[id].label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {/* Consistency check */}
+        <div
+          className={`mb-4 p-3 rounded border text-sm ${flagged ? 'bg-amber-50 border-amber-200 text-amber-900' : 'bg-green-50 border-green-200 text-green-800'}`}
+          role={flagged ? 'alert' : 'status'}
+        >
+          <p className="flex items-center gap-2 font-medium">
+            {flagged && <AlertTriangle size={16} aria-hidden="true" />}
+            Consistency ratio {result.consistencyRatio.toFixed(2)}
+            {result.inconsistent
+              ? ` — above ${AHP_CONSISTENCY_LIMIT.toFixed(2)}, so some answers contradict each other.`
+              : ' — your answers hang together.'}
+          </p>
+          {result.cycles.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {result.cycles.map(({ members: [a, b, c] }) => (
+                <li key={`${a}-${b}-${c}`} className="flex flex-wrap items-center gap-2">
+                  <span>{names[a]} &gt; {names[b]}, {names[b]} &gt; {names[c]}, but {names[c]} &gt; {names[a]}</span>
+                  <button onClick={() => revisit(c, a)} className="text-xs text-blue-700 hover:underline">Revisit</button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.inconsistent && worst && (
+            <p className="mt-2">
+              Your answer on {names[worst.first]} vs {names[worst.second]} disagrees most with the rest.{' '}
+              <button onClick={() => setStep(result.worstQuestion!)} className="text-xs text-blue-700 hover:underline">Revisit</button>
+            </p>
+          )}
+        </div>
+
+        <table className="w-full text-sm mb-4">
+          <caption className="sr-only">Derived importance weights</caption>
+          <thead>
+            <tr className="text-gray-600 border-b border-gray-200">
+              <th scope="col" className="py-1 text-left font-medium">Consideration</th>
+              <th scope="col" className="py-1 text-right font-medium">Priority</th>
+              <th scope="col" className="py-1 text-right font-medium">Now</th>
+              <th scope="col" className="py-1 text-right font-medium">New weight</th>
+            </tr>
+          </thead>
+          <tbody>
+            {names.map((name, index) => (
+              <tr key={name} className="border-b border-gray-100 text-gray-700">
+                <th scope="row" className="py-1 text-left font-normal">{name}</th>
+                <td className="py-1 text-right">{(result.priorities[index] * 100).toFixed(0)}%</td>
+                <td className="py-1 text-right text-gray-500">{currentWeight(index)}</td>
+                <td className="py-1 text-right">
+                  <select
+                    value={finalWeight(index)}
+                    onChange={(e) => setOverrides({ ...overrides, [index]: Number(e.target.value) })}
+                    className="px-1 py-0.5 border border-gray-300 rounded text-sm"
+                    aria-label={`New weight for ${name}`}
+                  >
+                    {Array.from(
+                      { length: APP_CONSTANTS.MAX_WEIGHT - APP_CONSTANTS.MIN_WEIGHT + 1 },
+                      (_, i) => APP_CONSTANTS.MIN_WEIGHT + i
+                    ).map(weight => (
+                      <option key={weight} value={weight}>{weight}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-between gap-2">
+          <button
+            onClick={() => setStep(0)}
+            className="px-3 py-1.5 bg-gray-200 text-gray-800 text-sm rounded hover:bg-gray-300"
+          >
+            Back to questions
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded hover:bg-blue-600"
+            title="Set these weights on every opportunity"
+          >
+            Apply weights
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="weight-wizard-title"
+    >
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-auto p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 id="weight-wizard-title" className="flex items-center gap-2 text-xl font-bold text-gray-900">
+            <Scale size={20} aria-hidden="true" /> {reviewing ? 'Review Weights' : 'Weigh Considerations'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded"
+            aria-label="Close weight questionnaire"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {names.length < 2 ? (
+          <p className="text-sm text-gray-600">Add at least two considerations to compare their importance.</p>
+        ) : reviewing ? renderReview() : renderQuestion()}
+      </div>
+    </div>
+  );
+};
+
+export default WeightWizard;
@@ -0,0 +1,106 @@
+/**
+ * WheelNotesEditor Component
+ *
+ * Collapsible notes, pros, cons and reference links for one opportunity.
+ * Pros, cons and links are typed one per line. Fields are saved when they
+ * lose focus, so every keystroke doesn't create an undo step.
+ */
+
+import React from 'react';
+import { NotebookPen } from 'lucide-react';
+import { APP_CONSTANTS, Wheel } from '../types';
+import { describeParseProblems, formatLines, hasWheelNotes, parseLinks, parsePoints, WheelNotes } from '../utils/notes';
+
+interface WheelNotesEditorProps {
+  /** Wheel whose notes are edited */
+  wheel: Wheel;
+  /** Callback with the changed fields */
+  onChange: (changes: WheelNotes) => void;
+}
+
+const WheelNotesEditor: React.FC<WheelNotesEditorProps> = ({ wheel, onChange }) => {
+  const fieldClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm resize-y';
+  const itemCount = (wheel.pros?.length ?? 0) + (wheel.cons?.length ?? 0) + (wheel.links?.length ?? 0);
+
+  /**
+   * Saves a one-per-line list, reporting entries that couldn't be kept
+   */
+  const saveList = (field: 'pros' | 'cons' | 'links', text: string): void => {
+    const parsed = field === 'links' ? parseLinks(text) : parsePoints(text);
+    onChange({ [field]: parsed.items });
+
+    const problems = describeParseProblems(parsed, field);
+    if (problems) {
+      alert(problems);
+    }
+  };
+
+  return (
+    <details className="mb-4 border border-gray-200 rounded">
+      <summary className="cursor-pointer px-3 py-2 text-sm font-medium text-gray-700 flex items-center gap-2">
+        <NotebookPen size={16} aria-hidden="true" />
+        Notes, pros &amp; cons
+        {hasWheelNotes(wheel) && (
+          <span className="text-xs text-gray-500">
+            ({[wheel.notes ? 'notes' : '', itemCount > 0 ? `${itemCount} item${itemCount === 1 ? '' : 's'}` : ''].filter(Boolean).join(', ')})
+          </span>
+        )}
+      </summary>
+      <div className="px-3 pb-3 space-y-3">
+        <div>
+          <label htmlFor={`notes-${wheel.id}`} className="block text-xs font-medium text-gray-600 mb-1">Notes</label>
+          <textarea
+            id={`notes-${wheel.id}`}
+            key={wheel.notes ?? ''}
+            defaultValue={wheel.notes ?? ''}
+            onBlur={(e) => onChange({ notes: e.target.value })}
+            maxLength={APP_CONSTANTS.MAX_NOTE_LENGTH}
+            rows={2}
+            className={fieldClass}
+            placeholder="Context, open questions, who you spoke to…"
+          />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor={`pros-${wheel.id}`} className="block text-xs font-medium text-green-700 mb-1">Pros (one per line)</label>
+            <textarea
+              id={`pros-${wheel.id}`}
+              key={formatLines(wheel.pros)}
+              defaultValue={formatLines(wheel.pros)}
+              onBlur={(e) => saveList('pros', e.target.value)}
+              rows={3}
+              className={fieldClass}
+            />
+          </div>
+          <div>
+            <label htmlFor={`cons-${wheel.id}`} className="block text-xs font-medium text-red-700 mb-1">Cons (one per line)</label>
+            <textarea
+              id={`cons-${wheel.id}`}
+              key={formatLines(wheel.cons)}
+              defaultValue={formatLines(wheel.cons)}
+              onBlur={(e) => saveList('cons', e.target.value)}
+              rows={3}
+              className={fieldClass}
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor={`links-${wheel.id}`} className="block text-xs font-medium text-gray-600 mb-1">
+            Reference links (one per line, up to {APP_CONSTANTS.MAX_LINKS})
+          </label>
+          <textarea
+            id={`links-${wheel.id}`}
+            key={formatLines(wheel.links)}
+            defaultValue={formatLines(wheel.links)}
+            onBlur={(e) => saveList('links', e.target.value)}
+            rows={2}
+            className={fieldClass}
+            placeholder="https://"
+          />
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default WheelNotesEditor;
@@ -0,0 +1,83 @@
+/**
+ * useAutosave Hook
+ *
+ * Debounces writes of the application state to localStorage and reports
+ * when the last successful save happened. Any save still pending when the
+ * page is hidden or closed is flushed immediately so quick refreshes don't
+ * lose the latest edit.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { APP_CONSTANTS, PersistedAppState } from '../types';
+import { clearAppState, saveAppState } from '../utils/storage';
+
+interface AutosaveStatus {
+  /** Time of the last successful save, or null if nothing is saved */
+  lastSaved: Date | null;
+  /** Message describing the last failed save, or null */
+  saveError: string | null;
+  /** Removes saved data; the next state change is not saved */
+  clearSavedData: () => boolean;
+}
+
+/**
+ * Autosaves state whenever it changes
+ *
+ * @param state - Current application state
+ * @param initialSavedAt - When the restored state was saved, if it was restored
+ * @returns Save status and a function to clear saved data
+ */
+export function useAutosave(state: PersistedAppState, initialSavedAt: Date | null): AutosaveStatus {
+  const [lastSaved, setLastSaved] = useState<Date | null>(initialSavedAt);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const skipNextSave = useRef<boolean>(false);
+  const pendingState = useRef<PersistedAppState | null>(null);
+
+  const save = useCallback((toSave: PersistedAppState): void => {
+    pendingState.current = null;
+    const result = saveAppState(toSave);
+    if (result.ok) {
+      setLastSaved(result.savedAt);
+      setSaveError(null);
+    } else {
+      setSaveError(result.message);
+    }
+  }, []);
+
+  // Debounced save on every state change
+  useEffect(() => {
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+
+    pendingState.current = state;
+    const timer = setTimeout(() => save(state), APP_CONSTANTS.AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [state, save]);
+
+  // Flush a pending save before the page goes away
+  useEffect(() => {
+    const flush = (): void => {
+      if (pendingState.current) {
+        save(pendingState.current);
+      }
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, [save]);
+
+  const clearSavedData = useCallback((): boolean => {
+    if (!clearAppState()) {
+      return false;
+    }
+    pendingState.current = null;
+    skipNextSave.current = true;
+    setLastSaved(null);
+    setSaveError(null);
+    return true;
+  }, []);
+
+  return { lastSaved, saveError, clearSavedData };
+}
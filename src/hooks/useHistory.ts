@@ -0,0 +1,72 @@
+/**
+ * useHistory Hook
+ *
+ * Holds a bounded undo/redo history of state snapshots and exposes commands
+ * to record, undo and redo changes. The state itself stays with the caller;
+ * undo and redo return the snapshot the caller should restore.
+ */
+
+import { useCallback, useState } from 'react';
+import {
+  createHistory,
+  HistoryState,
+  recordChange,
+  redoChange,
+  undoChange
+} from '../utils/history';
+
+interface HistoryControls<T> {
+  /** Records the state as it was before a change */
+  record: (previous: T, label: string, coalesceKey?: string | null) => void;
+  /** Returns the state to restore for undo, or null if there is none */
+  undo: (current: T) => T | null;
+  /** Returns the state to restore for redo, or null if there is none */
+  redo: (current: T) => T | null;
+  /** Discards all history */
+  reset: () => void;
+  /** Description of the change undo would revert */
+  undoLabel: string | null;
+  /** Description of the change redo would reapply */
+  redoLabel: string | null;
+}
+
+/**
+ * Manages undo/redo history for a piece of state
+ *
+ * @param limit - Maximum number of undo steps kept
+ * @returns History commands and labels for the next undo/redo
+ */
+export function useHistory<T>(limit: number): HistoryControls<T> {
+  const [history, setHistory] = useState<HistoryState<T>>(createHistory);
+
+  const record = useCallback((previous: T, label: string, coalesceKey: string | null = null): void => {
+    setHistory(prev => recordChange(prev, previous, label, coalesceKey, limit));
+  }, [limit]);
+
+  const undo = useCallback((current: T): T | null => {
+    const result = undoChange(history, current);
+    if (!result) return null;
+    setHistory(result.history);
+    return result.snapshot;
+  }, [history]);
+
+  const redo = useCallback((current: T): T | null => {
+    const result = redoChange(history, current);
+    if (!result) return null;
+    setHistory(result.history);
+    return result.snapshot;
+  }, [history]);
+
+  const reset = useCallback((): void => {
+    setHistory(createHistory<T>());
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    reset,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[history.future.length - 1]?.label ?? null
+  };
+}
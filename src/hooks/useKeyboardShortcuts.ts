@@ -0,0 +1,105 @@
+/**
+ * useKeyboardShortcuts Hook
+ *
+ * Listens for the app's keyboard shortcuts (see SHORTCUTS) and calls the
+ * matching handler. Nothing fires while typing in a text field, with a
+ * modifier other than the palette's held, or while disabled (e.g. when a
+ * dialog is open).
+ */
+
+import { useEffect, useRef } from 'react';
+import { isTypingTarget, ratingFromDigit } from '../utils/keyboard';
+
+export interface ShortcutHandlers {
+  /** Ctrl/Cmd+K */
+  openPalette: () => void;
+  /** ? */
+  showHelp: () => void;
+  /** J / K: move to the next (1) or previous (-1) consideration */
+  moveSegment: (step: 1 | -1) => void;
+  /** ] / [: move to the next (1) or previous (-1) opportunity */
+  moveWheel: (step: 1 | -1) => void;
+  /** 0-9, or 1 then 0 for 10: rate the selected consideration */
+  rate: (value: number) => void;
+  /** A: add a consideration to the selected opportunity */
+  addSegment: () => void;
+  /** Esc: clear the selected consideration */
+  clearSelection: () => void;
+}
+
+/**
+ * Registers the keyboard shortcuts
+ *
+ * @param handlers - Actions to run; the latest ones are always used
+ * @param enabled - Whether shortcuts are active
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled: boolean): void {
+  const handlersRef = useRef<ShortcutHandlers>(handlers);
+  handlersRef.current = handlers;
+
+  // Last digit typed, so "1" then "0" can mean 10
+  const lastDigit = useRef<{ digit: number; time: number } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.defaultPrevented || e.altKey || isTypingTarget(e.target)) return;
+      const actions = handlersRef.current;
+
+      if (e.ctrlKey || e.metaKey) {
+        if (e.key.toLowerCase() === 'k' && !e.shiftKey) {
+          e.preventDefault();
+          actions.openPalette();
+        }
+        return;
+      }
+
+      if (/^[0-9]$/.test(e.key)) {
+        e.preventDefault();
+        const digit = Number(e.key);
+        const now = Date.now();
+        actions.rate(ratingFromDigit(digit, lastDigit.current, now));
+        lastDigit.current = digit === 1 ? { digit, time: now } : null;
+        return;
+      }
+      lastDigit.current = null;
+
+      switch (e.key) {
+        case '?':
+          e.preventDefault();
+          actions.showHelp();
+          break;
+        case 'j':
+        case 'J':
+          e.preventDefault();
+          actions.moveSegment(1);
+          break;
+        case 'k':
+        case 'K':
+          e.preventDefault();
+          actions.moveSegment(-1);
+          break;
+        case ']':
+          e.preventDefault();
+          actions.moveWheel(1);
+          break;
+        case '[':
+          e.preventDefault();
+          actions.moveWheel(-1);
+          break;
+        case 'a':
+        case 'A':
+          e.preventDefault();
+          actions.addSegment();
+          break;
+        case 'Escape':
+          actions.clearSelection();
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -15,6 +15,37 @@ export interface Segment {
   name: string;
   /** Rating value from 0-10 */
   value: number;
+  /** Importance weight from 1 (nice-to-have) to 5 (critical) */
+  weight: number;
+  /**
+   * Optional must-have: the lowest acceptable rating (0-10). A wheel rated
+   * below it is disqualified, however good its average.
+   */
+  minimum?: number;
+  /**
+   * Individual ratings by rater ID when several people rate the decision.
+   * When present, `value` is their aggregate.
+   */
+  ratings?: Record<string, number>;
+  /**
+   * Optional uncertainty: the lowest and highest plausible rating (0-10).
+   * `value` is then the most likely rating, between the two.
+   */
+  range?: RatingRange;
+  /** Why the consideration got its rating (max 1000 characters) */
+  rationale?: string;
+  /** Evidence backing the rating: http(s) addresses */
+  links?: string[];
+}
+
+/**
+ * Lowest and highest plausible rating of an uncertain consideration
+ */
+export interface RatingRange {
+  /** Pessimistic rating */
+  low: number;
+  /** Optimistic rating */
+  high: number;
 }
 
 /**
@@ -29,6 +60,14 @@ export interface Wheel {
   color: string;
   /** Array of segments/considerations for this wheel */
   segments: Segment[];
+  /** Free-text notes about the opportunity (max 1000 characters) */
+  notes?: string;
+  /** Points in the opportunity's favour */
+  pros?: string[];
+  /** Points against the opportunity */
+  cons?: string[];
+  /** Reference material: http(s) addresses */
+  links?: string[];
 }
 
 /**
@@ -45,10 +84,14 @@ export interface SelectedSegment {
  * Configuration constants for the application
  */
 export const APP_CONSTANTS = {
-  /** Maximum number of wheels allowed */
-  MAX_WHEELS: 3,
+  /** Highest wheel limit the user can choose */
+  MAX_WHEELS: 20,
   /** Minimum number of wheels required */
   MIN_WHEELS: 2,
+  /** Wheel limit until the user changes it */
+  DEFAULT_WHEEL_LIMIT: 12,
+  /** Number of options beyond which the app suggests narrowing the field */
+  RECOMMENDED_WHEELS: 3,
   /** Minimum number of segments per wheel */
   MIN_SEGMENTS: 1,
   /** Maximum number of segments per wheel */
@@ -57,12 +100,218 @@ export const APP_CONSTANTS = {
   MIN_VALUE: 0,
   /** Maximum rating value */
   MAX_VALUE: 10,
+  /** Minimum importance weight */
+  MIN_WEIGHT: 1,
+  /** Maximum importance weight */
+  MAX_WEIGHT: 5,
+  /** Weight given to new considerations */
+  DEFAULT_WEIGHT: 3,
   /** Maximum length for wheel names */
   MAX_NAME_LENGTH: 50,
   /** Maximum length for segment names */
   MAX_SEGMENT_NAME_LENGTH: 50,
+  /** Maximum length for project names */
+  MAX_PROJECT_NAME_LENGTH: 80,
+  /** Maximum length for project descriptions */
+  MAX_DESCRIPTION_LENGTH: 500,
   /** Available color palette for wheels */
   COLOR_PALETTE: ['#60A5FA', '#34D399', '#F59E0B', '#EF4444', '#8B5CF6'],
   /** Scroll delay for segment selection (ms) */
   SCROLL_DELAY: 100,
+  /** localStorage key for the persisted application state */
+  STORAGE_KEY: 'decision-circle-data',
+  /** Debounce delay before changes are autosaved (ms) */
+  AUTOSAVE_DELAY: 300,
+  /** Maximum number of undo steps kept */
+  MAX_HISTORY: 50,
+  /** Maximum number of people rating one decision */
+  MAX_RATERS: 12,
+  /** Maximum length of notes and rationales */
+  MAX_NOTE_LENGTH: 1000,
+  /** Maximum length of a single pro or con */
+  MAX_POINT_LENGTH: 200,
+  /** Maximum number of pros, and of cons, per wheel */
+  MAX_POINTS: 10,
+  /** Maximum number of reference links per wheel or consideration */
+  MAX_LINKS: 5,
+  /** Maximum length of a reference link */
+  MAX_LINK_LENGTH: 500,
+  /** Number of draws in the win-probability simulation */
+  SIMULATION_RUNS: 1000,
+  /** Seed of the win-probability simulation, so results don't jitter between renders */
+  SIMULATION_SEED: 20240601,
+  /** Maximum number of saved templates */
+  MAX_TEMPLATES: 50,
+  /** Maximum number of snapshots kept per project (the oldest are dropped) */
+  MAX_SNAPSHOTS: 30,
 } as const;
+
+/**
+ * A consideration defined by a template
+ */
+export interface TemplateConsideration {
+  /** Consideration name (max 50 characters) */
+  name: string;
+  /** Optional default importance weight (1-5) */
+  weight?: number;
+  /** Optional explanation of what to rate (max 500 characters) */
+  description?: string;
+}
+
+/**
+ * A reusable set of considerations for a kind of decision
+ */
+export interface ConsiderationTemplate {
+  /** Unique identifier; built-in templates start with "builtin-" */
+  id: string;
+  /** Template name (max 80 characters) */
+  name: string;
+  /** What kind of decision the template is for */
+  description: string;
+  /** Considerations in order */
+  considerations: TemplateConsideration[];
+}
+
+/**
+ * The wheel data of one project, as captured for undo/redo
+ */
+export interface WheelsSnapshot {
+  /** Wheels at the time of the snapshot */
+  wheels: Wheel[];
+  /** Next wheel ID counter at the time of the snapshot */
+  nextWheelId: number;
+  /** Raters and how their ratings combine, which the wheels' ratings depend on */
+  group: GroupSettings;
+}
+
+/**
+ * How several raters' ratings are combined into one
+ *
+ * - mean: the average of all ratings
+ * - median: the middle rating, robust to a single outlier
+ * - trimmed-mean: the average after dropping the highest and lowest ratings
+ */
+export type AggregationMethod = 'mean' | 'median' | 'trimmed-mean';
+
+/**
+ * A person rating the decision
+ */
+export interface Rater {
+  /** Unique identifier for the rater */
+  id: string;
+  /** Display name (max 50 characters) */
+  name: string;
+  /** Whether the rater has finished and submitted their ratings */
+  submitted: boolean;
+}
+
+/**
+ * Group rating settings of a project
+ */
+export interface GroupSettings {
+  /** People rating the decision; empty when one person rates directly */
+  raters: Rater[];
+  /** How individual ratings are combined into the displayed one */
+  aggregation: AggregationMethod;
+  /** Hide everyone's ratings and the results until all raters have submitted */
+  blind: boolean;
+}
+
+/**
+ * A named copy of a project's wheels at one point in time
+ */
+export interface DecisionSnapshot {
+  /** Unique identifier for the snapshot */
+  id: string;
+  /** User-defined name, e.g. "After second viewing" */
+  name: string;
+  /** ISO timestamp of when the snapshot was taken */
+  createdAt: string;
+  /** The wheels as they were */
+  wheels: Wheel[];
+}
+
+/**
+ * The user's judgement of how much more one consideration matters than another
+ */
+export interface CriteriaComparison {
+  /** Consideration asked about first */
+  first: string;
+  /** Consideration it was compared with */
+  second: string;
+  /** How many times more `first` matters, on Saaty's scale (1/9 to 9; 1 is equal) */
+  value: number;
+}
+
+/**
+ * A named decision with its own set of wheels
+ */
+export interface Project {
+  /** Unique identifier for the project */
+  id: string;
+  /** User-defined project name (max 80 characters) */
+  name: string;
+  /** Optional notes about the decision (max 500 characters) */
+  description: string;
+  /** ISO timestamp of when the project was created */
+  createdAt: string;
+  /** ISO timestamp of the last change to the project */
+  updatedAt: string;
+  /** Archived projects are hidden from the main project list */
+  archived: boolean;
+  /** Wheels being compared in this project */
+  wheels: Wheel[];
+  /** ID to assign to the next wheel created in this project */
+  nextWheelId: number;
+  /** Raters and how their ratings are combined */
+  group: GroupSettings;
+  /** Saved snapshots of the wheels, oldest first */
+  snapshots: DecisionSnapshot[];
+  /** Pairwise judgements of the considerations from the weighting questionnaire, used by AHP */
+  criteriaComparisons: CriteriaComparison[];
+}
+
+/**
+ * How considerations are matched up across wheels
+ */
+export interface AlignmentSettings {
+  /** Match names that are spelled slightly differently (e.g. "Neighbors"/"Neighbours") */
+  fuzzyMatching: boolean;
+  /** Minimum similarity (0-1) for a fuzzy match */
+  fuzzyThreshold: number;
+  /** Groups of names treated as the same consideration (e.g. ["Cost", "Price"]) */
+  synonyms: string[][];
+}
+
+/**
+ * Multi-criteria method used to score and rank wheels
+ *
+ * - weighted-sum: importance-weighted average of each wheel's own ratings
+ * - topsis: closeness to the ideal (and distance from the worst) opportunity
+ * - ahp: Analytic Hierarchy Process priorities from pairwise comparisons
+ */
+export type ScoringMethodId = 'weighted-sum' | 'topsis' | 'ahp';
+
+/**
+ * Snapshot of the application state that is persisted between sessions
+ */
+export interface PersistedAppState {
+  /** All decision projects in the workspace */
+  projects: Project[];
+  /** ID of the project currently open */
+  activeProjectId: string;
+  /** Segment that was selected for editing, if any */
+  selectedSegment: SelectedSegment | null;
+  /** Whether ratings are entered with number buttons instead of sliders */
+  useNumberSelector: boolean;
+  /** Whether wheel wedges are sized in proportion to their weight */
+  weightedWedges: boolean;
+  /** How considerations are matched across wheels */
+  alignment: AlignmentSettings;
+  /** Method used to score and rank wheels */
+  scoringMethod: ScoringMethodId;
+  /** Templates saved by the user; the built-in ones aren't stored */
+  templates: ConsiderationTemplate[];
+  /** Most opportunities a decision may have (MIN_WHEELS to MAX_WHEELS) */
+  wheelLimit: number;
+}
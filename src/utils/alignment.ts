@@ -0,0 +1,377 @@
+/**
+ * Consideration Alignment
+ *
+ * Maps considerations across wheels so opportunities can be compared factor
+ * by factor. Names are matched after normalization (case, accents,
+ * punctuation and spacing are ignored), then through user-defined synonym
+ * groups (e.g. "Cost" ≈ "Price"), then optionally by fuzzy similarity to
+ * catch spelling variants such as "Neighbors"/"Neighbours".
+ *
+ * The report lists exactly which factors each wheel is missing or has extra,
+ * and the pure actions below fix them without losing existing ratings.
+ */
+
+import { AlignmentSettings, APP_CONSTANTS, Segment, Wheel } from '../types';
+import { validateSegmentName, validateWeight } from './validation';
+
+/** How a segment was matched to its row */
+export type MatchKind = 'exact' | 'synonym' | 'fuzzy';
+
+/**
+ * A segment placed in an alignment row
+ */
+export interface AlignmentCell {
+  /** The wheel's segment */
+  segment: Segment;
+  /** How it was matched to the row's name */
+  match: MatchKind;
+}
+
+/**
+ * One consideration across all wheels
+ */
+export interface AlignedConsideration {
+  /** Display name, taken from the first wheel that has the consideration */
+  name: string;
+  /** The matching segment in each wheel (by wheel index), or null where missing */
+  cells: Array<AlignmentCell | null>;
+}
+
+/**
+ * Differences for a single wheel
+ */
+export interface WheelAlignment {
+  /** ID of the wheel */
+  wheelId: number;
+  /** Considerations other wheels have but this one lacks */
+  missing: string[];
+  /** Considerations this wheel has but at least one other wheel lacks */
+  extra: string[];
+}
+
+/**
+ * A segment whose name could be changed to match the other wheels
+ */
+export interface RenameSuggestion {
+  /** ID of the wheel containing the segment */
+  wheelId: number;
+  /** ID of the segment */
+  segmentId: number;
+  /** Current name */
+  from: string;
+  /** Name used by the other wheels */
+  to: string;
+}
+
+/**
+ * Result of aligning considerations across wheels
+ */
+export interface AlignmentReport {
+  /** Every distinct consideration, in order of first appearance */
+  rows: AlignedConsideration[];
+  /** Missing and extra considerations per wheel, in wheel order */
+  wheels: WheelAlignment[];
+  /** Segments matched by synonym or fuzzy match whose names differ */
+  renames: RenameSuggestion[];
+  /** True when every wheel has every consideration */
+  aligned: boolean;
+}
+
+/**
+ * Result of adding missing considerations to a wheel
+ */
+export interface AddMissingResult {
+  /** Updated wheels */
+  wheels: Wheel[];
+  /** Considerations not added because the wheel reached MAX_SEGMENTS */
+  skipped: string[];
+}
+
+/** Settings used when the user hasn't changed anything */
+export const DEFAULT_ALIGNMENT_SETTINGS: AlignmentSettings = {
+  fuzzyMatching: true,
+  fuzzyThreshold: 0.8,
+  synonyms: [
+    ['Cost', 'Price', 'Expense'],
+    ['Salary', 'Pay', 'Compensation'],
+    ['Commute', 'Travel Time'],
+    ['Space', 'Size'],
+    ['Location', 'Area']
+  ]
+};
+
+/** Rating given to considerations added by alignment actions */
+const DEFAULT_RATING = 5;
+
+/**
+ * Normalizes a consideration name for matching
+ *
+ * @param name - Raw name
+ * @returns Lowercase name without accents or punctuation and with single spaces
+ *
+ * @example
+ * normalizeConsiderationName('  Café / Bars ') // Returns: 'cafe bars'
+ */
+export function normalizeConsiderationName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Measures how similar two normalized names are
+ *
+ * @param a - First name
+ * @param b - Second name
+ * @returns 1 for identical names down to 0 for nothing in common, based on
+ *   Levenshtein edit distance
+ *
+ * @example
+ * nameSimilarity('neighbors', 'neighbours') // Returns: 0.9
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Parses synonym groups from text, one group per line with comma-separated names
+ *
+ * @param text - User-entered text
+ * @returns Groups with at least two distinct names
+ *
+ * @example
+ * parseSynonymText('Cost, Price\nSalary, Pay') // Returns: [['Cost', 'Price'], ['Salary', 'Pay']]
+ */
+export function parseSynonymText(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.split(',').map(name => validateSegmentName(name)).filter(name => name !== ''))
+    .map(group => group.filter((name, i) => group.findIndex(n => normalizeConsiderationName(n) === normalizeConsiderationName(name)) === i))
+    .filter(group => group.length >= 2);
+}
+
+/**
+ * Formats synonym groups as editable text
+ *
+ * @param synonyms - Synonym groups
+ * @returns One line per group
+ */
+export function formatSynonymText(synonyms: string[][]): string {
+  return synonyms.map(group => group.join(', ')).join('\n');
+}
+
+/**
+ * Lines up considerations across wheels
+ *
+ * Each segment joins the first row (in order of appearance) that its wheel
+ * hasn't filled yet and whose name matches exactly, then by synonym, then by
+ * fuzzy similarity. Segments that match nothing start a new row.
+ *
+ * @param wheels - Wheels to align
+ * @param settings - Synonyms and fuzzy matching options
+ * @returns Alignment report
+ *
+ * @example
+ * alignConsiderations([
+ *   { id: 1, segments: [{ name: 'Cost' }, { name: 'Time' }] },
+ *   { id: 2, segments: [{ name: 'price' }] }
+ * ]).wheels[1].missing // Returns: ['Time']
+ */
+export function alignConsiderations(
+  wheels: Wheel[],
+  settings: AlignmentSettings = DEFAULT_ALIGNMENT_SETTINGS
+): AlignmentReport {
+  // Normalized name → synonym group index
+  const synonymGroups = new Map<string, number>();
+  settings.synonyms.forEach((group, index) => {
+    group.forEach(name => synonymGroups.set(normalizeConsiderationName(name), index));
+  });
+
+  const rows: Array<AlignedConsideration & { key: string }> = [];
+
+  wheels.forEach((wheel, wheelIndex) => {
+    wheel.segments.forEach(segment => {
+      const key = normalizeConsiderationName(segment.name);
+      const open = rows.filter(row => row.cells[wheelIndex] === null);
+      const synonymGroup = synonymGroups.get(key);
+
+      let row = open.find(r => r.key === key);
+      let match: MatchKind = 'exact';
+
+      if (!row && synonymGroup !== undefined) {
+        row = open.find(r => synonymGroups.get(r.key) === synonymGroup);
+        match = 'synonym';
+      }
+
+      if (!row && settings.fuzzyMatching) {
+        let bestScore = 0;
+        for (const candidate of open) {
+          const score = nameSimilarity(candidate.key, key);
+          if (score >= settings.fuzzyThreshold && score > bestScore) {
+            bestScore = score;
+            row = candidate;
+          }
+        }
+        match = 'fuzzy';
+      }
+
+      if (row) {
+        row.cells[wheelIndex] = { segment, match };
+      } else {
+        const cells: Array<AlignmentCell | null> = wheels.map(() => null);
+        cells[wheelIndex] = { segment, match: 'exact' };
+        rows.push({ key, name: segment.name, cells });
+      }
+    });
+  });
+
+  const wheelReports = wheels.map((wheel, wheelIndex) => ({
+    wheelId: wheel.id,
+    missing: rows.filter(row => row.cells[wheelIndex] === null).map(row => row.name),
+    extra: rows
+      .filter(row => row.cells[wheelIndex] !== null && row.cells.some(cell => cell === null))
+      .map(row => row.cells[wheelIndex]!.segment.name)
+  }));
+
+  const renames: RenameSuggestion[] = [];
+  rows.forEach(row => {
+    row.cells.forEach((cell, wheelIndex) => {
+      if (cell && cell.match !== 'exact' && cell.segment.name !== row.name) {
+        renames.push({ wheelId: wheels[wheelIndex].id, segmentId: cell.segment.id, from: cell.segment.name, to: row.name });
+      }
+    });
+  });
+
+  return {
+    rows: rows.map(({ name, cells }) => ({ name, cells })),
+    wheels: wheelReports,
+    renames,
+    aligned: rows.every(row => row.cells.every(cell => cell !== null))
+  };
+}
+
+/**
+ * Adds the considerations a wheel is missing, rated at the midpoint
+ *
+ * New segments take the importance weight (and any must-have minimum) of
+ * the first wheel that has them.
+ *
+ * @param wheels - All wheels
+ * @param wheelId - Wheel to complete
+ * @param settings - Alignment settings
+ * @returns Updated wheels and any considerations that didn't fit
+ */
+export function addMissingConsiderations(
+  wheels: Wheel[],
+  wheelId: number,
+  settings: AlignmentSettings = DEFAULT_ALIGNMENT_SETTINGS
+): AddMissingResult {
+  const wheelIndex = wheels.findIndex(w => w.id === wheelId);
+  if (wheelIndex === -1) return { wheels, skipped: [] };
+
+  const wheel = wheels[wheelIndex];
+  const missingRows = alignConsiderations(wheels, settings).rows.filter(row => row.cells[wheelIndex] === null);
+  const room = Math.max(0, APP_CONSTANTS.MAX_SEGMENTS - wheel.segments.length);
+  let nextId = Math.max(0, ...wheel.segments.map(s => s.id)) + 1;
+
+  const added: Segment[] = missingRows.slice(0, room).map(row => {
+    const source = row.cells.find(cell => cell !== null)!.segment;
+    return {
+      id: nextId++,
+      name: validateSegmentName(row.name),
+      value: DEFAULT_RATING,
+      weight: validateWeight(source.weight),
+      ...(source.minimum !== undefined ? { minimum: source.minimum } : {})
+    };
+  });
+
+  return {
+    wheels: wheels.map(w => (w.id === wheelId ? { ...w, segments: [...w.segments, ...added] } : w)),
+    skipped: missingRows.slice(room).map(row => row.name)
+  };
+}
+
+/**
+ * Gives one wheel the same considerations as another
+ *
+ * The target ends up with the source's considerations, names, order,
+ * importance weights and must-have minimums. Ratings of considerations the
+ * target already had (matched by name, synonym or fuzzy match) are kept,
+ * along with their ranges, individual raters' ratings and rationale; only
+ * new ones start at the midpoint. Considerations only the target had are
+ * removed.
+ *
+ * @param wheels - All wheels
+ * @param sourceId - Wheel to copy considerations from
+ * @param targetId - Wheel to update
+ * @param settings - Alignment settings
+ * @returns Updated wheels
+ *
+ * @example
+ * syncConsiderations(wheels, 2, 1) // Wheel 1 now lists wheel 2's considerations
+ */
+export function syncConsiderations(
+  wheels: Wheel[],
+  sourceId: number,
+  targetId: number,
+  settings: AlignmentSettings = DEFAULT_ALIGNMENT_SETTINGS
+): Wheel[] {
+  const sourceIndex = wheels.findIndex(w => w.id === sourceId);
+  const targetIndex = wheels.findIndex(w => w.id === targetId);
+  if (sourceIndex === -1 || targetIndex === -1 || sourceIndex === targetIndex) return wheels;
+
+  // Align just the pair so other wheels can't influence the matching
+  const pair = [wheels[sourceIndex], wheels[targetIndex]];
+  const { rows } = alignConsiderations(pair, settings);
+  const target = wheels[targetIndex];
+  let nextId = Math.max(0, ...target.segments.map(s => s.id)) + 1;
+
+  const segments = rows
+    .filter(row => row.cells[0] !== null)
+    .map(row => {
+      const source = row.cells[0]!.segment;
+      const existing: Segment = row.cells[1]?.segment ?? { id: nextId++, name: '', value: DEFAULT_RATING, weight: 0 };
+      const { minimum: _previous, ...rated } = existing;
+      return {
+        ...rated,
+        name: validateSegmentName(source.name),
+        weight: validateWeight(source.weight),
+        ...(source.minimum !== undefined ? { minimum: source.minimum } : {})
+      };
+    });
+
+  return wheels.map(w => (w.id === targetId ? { ...w, segments } : w));
+}
+
+/**
+ * Applies rename suggestions
+ *
+ * @param wheels - All wheels
+ * @param renames - Suggestions to apply
+ * @returns Updated wheels
+ */
+export function applyRenames(wheels: Wheel[], renames: RenameSuggestion[]): Wheel[] {
+  return wheels.map(wheel => ({
+    ...wheel,
+    segments: wheel.segments.map(segment => {
+      const rename = renames.find(r => r.wheelId === wheel.id && r.segmentId === segment.id);
+      return rename ? { ...segment, name: validateSegmentName(rename.to) } : segment;
+    })
+  }));
+}
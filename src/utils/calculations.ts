@@ -2,10 +2,22 @@
  * Calculation utilities for decision wheel analytics
  *
  * This module provides pure functions for calculating statistics and
- * comparisons between decision wheels.
+ * comparisons between decision wheels, including the pluggable scoring
+ * methods (weighted sum, TOPSIS and AHP) used to rank them.
  */
 
-import { Wheel } from '../types';
+import { AlignmentSettings, APP_CONSTANTS, CriteriaComparison, ScoringMethodId, Segment, Wheel } from '../types';
+import { alignConsiderations, normalizeConsiderationName } from './alignment';
+
+/**
+ * One consideration across all wheels
+ */
+export interface MatrixRow {
+  /** Display name (as first written in any wheel) */
+  name: string;
+  /** The matching segment in each wheel, or null where the wheel lacks it */
+  cells: Array<Segment | null>;
+}
 
 /**
  * Calculates the average rating for a wheel
@@ -13,97 +25,750 @@ import { Wheel } from '../types';
  * Returns the mean of all segment values in a wheel. Returns 0 if wheel has no segments.
  *
  * @param wheel - The wheel to calculate average for
- * @returns Average value rounded to 1 decimal place
+ * @returns Average value on the 0-10 scale
  *
  * @example
- * calculateAverage({ segments: [{ value: 5 }, { value: 7 }] }) // Returns: '6.0'
- * calculateAverage({ segments: [] }) // Returns: '0.0'
+ * calculateAverage({ segments: [{ value: 5 }, { value: 7 }] }) // Returns: 6
+ * calculateAverage({ segments: [] }) // Returns: 0
  */
-export function calculateAverage(wheel: Wheel): string {
+export function calculateAverage(wheel: Wheel): number {
   if (!wheel.segments || wheel.segments.length === 0) {
-    return '0.0';
+    return 0;
   }
 
   const sum = wheel.segments.reduce((acc, seg) => acc + seg.value, 0);
-  const average = sum / wheel.segments.length;
+  return sum / wheel.segments.length;
+}
+
+/**
+ * Calculates the importance-weighted average rating for a wheel
+ *
+ * Each segment contributes in proportion to its weight:
+ * Σ(value × weight) / Σ(weight). When every weight is equal this is the same
+ * as calculateAverage.
+ *
+ * @param wheel - The wheel to calculate weighted average for
+ * @returns Weighted average on the 0-10 scale
+ *
+ * @example
+ * calculateWeightedAverage({ segments: [{ value: 8, weight: 5 }, { value: 10, weight: 1 }] }) // Returns: 8.33…
+ */
+export function calculateWeightedAverage(wheel: Wheel): number {
+  return weightedScore(wheel);
+}
 
-  return average.toFixed(1);
+/**
+ * Checks whether any wheel weights its segments unequally
+ *
+ * @param wheels - Array of wheels to check
+ * @returns true if weighted and unweighted averages can differ
+ */
+export function hasCustomWeights(wheels: Wheel[]): boolean {
+  return wheels.some(wheel => {
+    const weights = wheel.segments.map(s => s.weight);
+    return weights.some(w => w !== weights[0]);
+  });
 }
 
 /**
- * Checks if all wheels have matching consideration names
+ * Lines up considerations across wheels
  *
- * Used to determine if wheels can be directly compared. Comparison is case-insensitive
- * and ignores leading/trailing whitespace.
+ * Considerations are matched by case-insensitive, trimmed name and listed in
+ * order of first appearance. Wheels that lack a consideration get a null
+ * cell rather than a rating.
  *
- * @param wheels - Array of wheels to compare
- * @returns true if all wheels have the same considerations in the same order
+ * @param wheels - Array of wheels
+ * @returns One row per distinct consideration
  *
  * @example
- * doConsiderationsMatch([
- *   { segments: [{ name: 'Cost' }, { name: 'Time' }] },
- *   { segments: [{ name: 'cost' }, { name: 'time' }] }
- * ]) // Returns: true
+ * buildConsiderationMatrix([
+ *   { segments: [{ name: 'Cost', value: 7 }] },
+ *   { segments: [{ name: 'cost', value: 5 }, { name: 'Time', value: 3 }] }
+ * ]) // Returns: [{ name: 'Cost', cells: [seg, seg] }, { name: 'Time', cells: [null, seg] }]
  */
-export function doConsiderationsMatch(wheels: Wheel[]): boolean {
-  if (wheels.length === 0) {
-    return true;
-  }
+export function buildConsiderationMatrix(wheels: Wheel[]): MatrixRow[] {
+  const rows = new Map<string, MatrixRow>();
 
-  // Get normalized consideration names from first wheel
-  const firstConsiderations = wheels[0].segments
-    .map(s => s.name.toLowerCase().trim())
-    .sort();
+  wheels.forEach((wheel, wheelIndex) => {
+    wheel.segments.forEach(segment => {
+      const key = segment.name.toLowerCase().trim();
+      let row = rows.get(key);
+      if (!row) {
+        row = { name: segment.name, cells: wheels.map(() => null) };
+        rows.set(key, row);
+      }
+      // Keep the first match if a wheel repeats a name
+      if (!row.cells[wheelIndex]) {
+        row.cells[wheelIndex] = segment;
+      }
+    });
+  });
 
-  // Check if all other wheels have the same considerations
-  return wheels.every((wheel, index) => {
-    if (index === 0) return true;
+  return Array.from(rows.values());
+}
 
-    const considerations = wheel.segments
-      .map(s => s.name.toLowerCase().trim())
-      .sort();
+/**
+ * A must-have consideration a wheel is rated below
+ */
+export interface DealBreakerFailure {
+  /** Segment that failed */
+  segmentId: number;
+  /** Name of the consideration */
+  consideration: string;
+  /** The wheel's rating */
+  value: number;
+  /** Lowest acceptable rating */
+  minimum: number;
+}
 
-    if (considerations.length !== firstConsiderations.length) {
-      return false;
-    }
+/**
+ * Lists the must-have minimums a wheel fails
+ *
+ * @param wheel - The wheel to check
+ * @returns One entry per segment rated below its minimum (empty if none)
+ *
+ * @example
+ * getDealBreakerFailures({ segments: [{ name: 'Investment', value: 2, minimum: 4 }] })
+ * // Returns: [{ consideration: 'Investment', value: 2, minimum: 4, ... }]
+ */
+export function getDealBreakerFailures(wheel: Wheel): DealBreakerFailure[] {
+  return wheel.segments
+    .filter(seg => seg.minimum !== undefined && seg.value < seg.minimum)
+    .map(seg => ({ segmentId: seg.id, consideration: seg.name, value: seg.value, minimum: seg.minimum! }));
+}
 
-    return considerations.every((name, i) => name === firstConsiderations[i]);
-  });
+/**
+ * Checks whether a wheel fails any must-have minimum
+ *
+ * @param wheel - The wheel to check
+ * @returns true if the wheel is disqualified
+ */
+export function isDisqualified(wheel: Wheel): boolean {
+  return getDealBreakerFailures(wheel).length > 0;
+}
+
+/**
+ * Explains why a wheel is disqualified
+ *
+ * @param failures - Failures from getDealBreakerFailures
+ * @returns Sentence such as "Investment is rated 2, below the minimum of 4"
+ */
+export function describeDealBreakers(failures: DealBreakerFailure[]): string {
+  return failures
+    .map(f => `${f.consideration} is rated ${f.value}, below the minimum of ${f.minimum}`)
+    .join('; ');
 }
 
 /**
  * Gets the highest-rated wheel(s) from an array
  *
+ * Ranking uses the chosen scoring method (the weighted average by default).
+ * Scores are compared at the one-decimal precision they are shown with, so
+ * wheels that look level are treated as tied. Wheels that fail a must-have
+ * minimum are disqualified and never returned, so the result is empty when
+ * every wheel fails one.
+ *
  * @param wheels - Array of wheels to analyze
- * @returns Array of wheels with the highest average rating
+ * @param method - Scoring method to rank by
+ * @param alignment - How considerations are matched for TOPSIS and AHP
+ * @param comparisons - The user's pairwise judgements of the considerations, for AHP
+ * @returns Array of wheels with the highest score
  *
  * @example
- * getHighestRatedWheel([wheelA, wheelB]) // Returns: [wheelA] if wheelA has higher avg
+ * getHighestRatedWheels([wheelA, wheelB]) // Returns: [wheelA] if wheelA has higher avg
+ * getHighestRatedWheels([wheelA, wheelB], 'topsis') // Returns: the wheel closest to the ideal
  */
-export function getHighestRatedWheels(wheels: Wheel[]): Wheel[] {
+export function getHighestRatedWheels(
+  wheels: Wheel[],
+  method: ScoringMethodId = 'weighted-sum',
+  alignment?: AlignmentSettings,
+  comparisons?: CriteriaComparison[]
+): Wheel[] {
   if (wheels.length === 0) {
     return [];
   }
 
-  const averages = wheels.map(wheel => ({
-    wheel,
-    avg: parseFloat(calculateAverage(wheel))
-  }));
+  return highestScoringWheels(wheels, scoreWheels(wheels, method, alignment, comparisons).scores);
+}
 
-  const maxAvg = Math.max(...averages.map(a => a.avg));
+/**
+ * Picks the top-rated wheel(s) from scores that are already worked out
+ *
+ * Applies the same rules as getHighestRatedWheels: one-decimal ties and no
+ * disqualified wheels.
+ *
+ * @param wheels - Wheels that were scored
+ * @param scores - Score per wheel, in the same order
+ * @param disqualified - Whether each wheel fails a must-have, if already known
+ * @returns Array of wheels with the highest score
+ */
+export function highestScoringWheels(
+  wheels: Wheel[],
+  scores: number[],
+  disqualified: boolean[] = wheels.map(isDisqualified)
+): Wheel[] {
+  const contenders = wheels
+    .map((wheel, index) => ({ wheel, score: parseFloat(scores[index].toFixed(1)) }))
+    .filter((_, index) => !disqualified[index]);
+
+  if (contenders.length === 0) {
+    return [];
+  }
 
-  return averages
-    .filter(a => a.avg === maxAvg)
-    .map(a => a.wheel);
+  const maxScore = Math.max(...contenders.map(c => c.score));
+
+  return contenders.filter(c => c.score === maxScore).map(c => c.wheel);
 }
 
 /**
- * Calculates percentage score for a wheel (0-100%)
+ * Orders wheels from best to worst
+ *
+ * Wheels that meet every must-have come first, by score; disqualified
+ * wheels follow, also by score. Equal scores keep the wheels' order.
+ *
+ * @param wheels - Wheels to rank
+ * @param scores - Score per wheel, in the same order, e.g. from scoreWheels
+ * @returns Indexes into `wheels`, best first
+ *
+ * @example
+ * rankWheels([wheelA, wheelB], [6.2, 7.9]) // Returns: [1, 0]
+ */
+export function rankWheels(wheels: Wheel[], scores: number[]): number[] {
+  return wheels
+    .map((wheel, index) => ({ index, disqualified: isDisqualified(wheel), score: scores[index] }))
+    .sort((a, b) => Number(a.disqualified) - Number(b.disqualified) || b.score - a.score || a.index - b.index)
+    .map(entry => entry.index);
+}
+
+/**
+ * Calculates percentage score for a wheel (0-100%) from its weighted average
  *
  * @param wheel - The wheel to calculate percentage for
  * @returns Percentage score as a number (0-100)
  */
 export function calculatePercentage(wheel: Wheel): number {
-  const avg = parseFloat(calculateAverage(wheel));
-  return (avg / 10) * 100;
+  return (calculateWeightedAverage(wheel) / 10) * 100;
+}
+
+// ========== SCORING METHODS ==========
+
+/**
+ * Consistency of one AHP pairwise comparison matrix
+ */
+export interface CriterionConsistency {
+  /** What was compared, e.g. "Considerations" */
+  criterion: string;
+  /** Saaty consistency ratio; above AHP_CONSISTENCY_LIMIT is unreliable */
+  ratio: number;
+}
+
+/**
+ * Numeric outcome of a scoring method
+ */
+export interface ScoringResult {
+  /** Method that produced the scores */
+  method: ScoringMethodId;
+  /** Score per wheel, in the order the wheels were given, on a 0-10 scale */
+  scores: number[];
+  /** Caveats worth showing next to the ranking */
+  notes: string[];
+  /** AHP consistency per comparison matrix (empty for other methods) */
+  consistency: CriterionConsistency[];
+}
+
+/**
+ * A way of turning wheels into comparable scores
+ */
+export interface ScoringMethod {
+  id: ScoringMethodId;
+  /** Short name, e.g. "TOPSIS" */
+  label: string;
+  /** One-line explanation for the method picker */
+  description: string;
+  /** What the number means, e.g. "closeness to ideal" */
+  scoreLabel: string;
+  /** Formats a 0-10 score for display */
+  formatScore: (score: number) => string;
+  /** Scores every wheel */
+  score: (wheels: Wheel[], alignment?: AlignmentSettings, comparisons?: CriteriaComparison[]) => ScoringResult;
+}
+
+/** Consistency ratios above this mean the pairwise judgements contradict each other */
+export const AHP_CONSISTENCY_LIMIT = 0.1;
+
+/** Saaty's random consistency index, by matrix size */
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49, 1.51, 1.48, 1.56, 1.57, 1.59];
+
+/**
+ * Importance-weighted average without rounding
+ *
+ * @param wheel - The wheel to score
+ * @returns Weighted average on the 0-10 scale
+ */
+export function weightedScore(wheel: Wheel): number {
+  if (!wheel.segments || wheel.segments.length === 0) {
+    return 0;
+  }
+
+  const totalWeight = wheel.segments.reduce((acc, seg) => acc + seg.weight, 0);
+  if (totalWeight === 0) {
+    return wheel.segments.reduce((acc, seg) => acc + seg.value, 0) / wheel.segments.length;
+  }
+
+  return wheel.segments.reduce((acc, seg) => acc + seg.value * seg.weight, 0) / totalWeight;
+}
+
+/**
+ * Considerations every wheel shares, as a ratings table
+ *
+ * TOPSIS and AHP compare wheels criterion by criterion, so they only use
+ * considerations that every wheel rates. Each criterion's weight is the
+ * mean of the weights the wheels give it.
+ */
+function sharedCriteria(wheels: Wheel[], alignment?: AlignmentSettings): {
+  names: string[];
+  weights: number[];
+  values: number[][];
+  omitted: number;
+} {
+  const rows = alignConsiderations(wheels, alignment).rows;
+  const shared = rows.filter(row => row.cells.every(cell => cell !== null));
+
+  return {
+    names: shared.map(row => row.name),
+    weights: shared.map(row => row.cells.reduce((acc, cell) => acc + cell!.segment.weight, 0) / row.cells.length),
+    values: wheels.map((_, wheelIndex) => shared.map(row => row.cells[wheelIndex]!.segment.value)),
+    omitted: rows.length - shared.length
+  };
+}
+
+/**
+ * Note about considerations left out of a criterion-by-criterion method
+ */
+function omittedNote(omitted: number): string[] {
+  return omitted > 0
+    ? [`${omitted} consideration${omitted === 1 ? ' is' : 's are'} not shared by every opportunity and ${omitted === 1 ? 'was' : 'were'} left out.`]
+    : [];
+}
+
+/**
+ * Priority vector of a pairwise comparison matrix
+ *
+ * Uses the principal eigenvector (power iteration), normalised to sum to 1.
+ *
+ * @param matrix - Square reciprocal matrix where matrix[i][j] says how much i is preferred over j
+ * @returns Priorities summing to 1
+ *
+ * @example
+ * ahpPriorities([[1, 3], [1 / 3, 1]]) // Returns: [0.75, 0.25]
+ */
+export function ahpPriorities(matrix: number[][]): number[] {
+  const n = matrix.length;
+  if (n === 0) return [];
+
+  let vector = new Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const next = matrix.map(row => row.reduce((acc, value, j) => acc + value * vector[j], 0));
+    const total = next.reduce((acc, value) => acc + value, 0);
+    const normalised = next.map(value => value / total);
+    const change = normalised.reduce((acc, value, i) => acc + Math.abs(value - vector[i]), 0);
+    vector = normalised;
+    if (change < 1e-10) break;
+  }
+
+  return vector;
+}
+
+/**
+ * Saaty consistency ratio of a pairwise comparison matrix
+ *
+ * CR = CI / RI where CI = (λmax - n) / (n - 1). Matrices of size 2 or less
+ * are always consistent.
+ *
+ * @param matrix - Square reciprocal matrix
+ * @returns Consistency ratio (0 is perfectly consistent)
+ */
+export function consistencyRatio(matrix: number[][]): number {
+  const n = matrix.length;
+  if (n <= 2) return 0;
+
+  const priorities = ahpPriorities(matrix);
+  const lambdaMax = matrix.reduce((acc, row, i) => {
+    const weighted = row.reduce((sum, value, j) => sum + value * priorities[j], 0);
+    return acc + weighted / priorities[i];
+  }, 0) / n;
+
+  const randomIndex = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+  return Math.max(0, (lambdaMax - n) / (n - 1) / randomIndex);
+}
+
+/**
+ * Looks up the user's judgement of one consideration against another
+ *
+ * Names are matched case- and accent-insensitively, in either order.
+ *
+ * @param comparisons - Saved pairwise judgements
+ * @param first - Consideration asked about first
+ * @param second - Consideration it is compared with
+ * @returns How many times more `first` matters than `second`, or null if the pair wasn't compared
+ *
+ * @example
+ * findComparison([{ first: 'Cost', second: 'Location', value: 3 }], 'location', 'cost') // Returns: 1/3
+ */
+export function findComparison(comparisons: CriteriaComparison[], first: string, second: string): number | null {
+  const a = normalizeConsiderationName(first);
+  const b = normalizeConsiderationName(second);
+
+  for (const comparison of comparisons) {
+    const from = normalizeConsiderationName(comparison.first);
+    const to = normalizeConsiderationName(comparison.second);
+    if (from === a && to === b) return comparison.value;
+    if (from === b && to === a) return 1 / comparison.value;
+  }
+
+  return null;
+}
+
+/**
+ * Pairwise comparison matrix of considerations from the user's judgements
+ *
+ * @param names - Considerations to compare
+ * @param comparisons - Saved pairwise judgements
+ * @returns Square reciprocal matrix, or null when any pair hasn't been compared
+ */
+export function criteriaComparisonMatrix(names: string[], comparisons: CriteriaComparison[]): number[][] | null {
+  const matrix = names.map(() => names.map(() => 1));
+
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const value = findComparison(comparisons, names[i], names[j]);
+      if (value === null || !(value > 0)) return null;
+      matrix[i][j] = value;
+      matrix[j][i] = 1 / value;
+    }
+  }
+
+  return matrix;
+}
+
+const weightedSumMethod: ScoringMethod = {
+  id: 'weighted-sum',
+  label: 'Weighted sum',
+  description: "Importance-weighted average of each opportunity's own ratings",
+  scoreLabel: 'weighted average',
+  formatScore: (score) => `${score.toFixed(1)} / 10`,
+  score: (wheels) => ({
+    method: 'weighted-sum',
+    scores: wheels.map(weightedScore),
+    notes: [],
+    consistency: []
+  })
+};
+
+const topsisMethod: ScoringMethod = {
+  id: 'topsis',
+  label: 'TOPSIS',
+  description: 'Closeness to an ideal opportunity that has the best rating on every shared consideration',
+  scoreLabel: 'closeness to ideal',
+  formatScore: (score) => `${(score / 10).toFixed(2)} closeness`,
+  score: (wheels, alignment) => {
+    const { weights, values, omitted } = sharedCriteria(wheels, alignment);
+    const notes = omittedNote(omitted);
+
+    if (weights.length === 0) {
+      return { method: 'topsis', scores: wheels.map(() => 0), notes: [...notes, 'No considerations are shared, so TOPSIS cannot compare these opportunities.'], consistency: [] };
+    }
+
+    const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+
+    // Vector-normalise each criterion, then apply its share of the weight
+    const weighted = values.map(row => row.map((value, j) => {
+      const norm = Math.sqrt(values.reduce((acc, r) => acc + r[j] * r[j], 0));
+      return norm === 0 ? 0 : (value / norm) * (weights[j] / totalWeight);
+    }));
+
+    const ideal = weights.map((_, j) => Math.max(...weighted.map(row => row[j])));
+    const antiIdeal = weights.map((_, j) => Math.min(...weighted.map(row => row[j])));
+    const distance = (row: number[], target: number[]): number =>
+      Math.sqrt(row.reduce((acc, value, j) => acc + (value - target[j]) ** 2, 0));
+
+    const scores = weighted.map(row => {
+      const toIdeal = distance(row, ideal);
+      const toAntiIdeal = distance(row, antiIdeal);
+      // Every opportunity is identical: none is closer to the ideal
+      const closeness = toIdeal + toAntiIdeal === 0 ? 0.5 : toAntiIdeal / (toIdeal + toAntiIdeal);
+      return closeness * 10;
+    });
+
+    return { method: 'topsis', scores, notes, consistency: [] };
+  }
+};
+
+const ahpMethod: ScoringMethod = {
+  id: 'ahp',
+  label: 'AHP',
+  description: 'Analytic Hierarchy Process: considerations weighed by your pairwise comparisons, opportunities by their ratings',
+  scoreLabel: 'priority',
+  formatScore: (score) => `${(score * 10).toFixed(0)}% priority`,
+  score: (wheels, alignment, comparisons = []) => {
+    const { names, weights, values, omitted } = sharedCriteria(wheels, alignment);
+    const notes = omittedNote(omitted);
+
+    if (names.length === 0) {
+      return { method: 'ahp', scores: wheels.map(() => 0), notes: [...notes, 'No considerations are shared, so AHP cannot compare these opportunities.'], consistency: [] };
+    }
+
+    // Considerations are weighed by the user's own pairwise judgements, the
+    // only ones whose consistency is worth checking
+    const criteriaMatrix = names.length > 1 ? criteriaComparisonMatrix(names, comparisons) : null;
+    const consistency: CriterionConsistency[] = [];
+    let criteriaPriorities: number[];
+    if (criteriaMatrix) {
+      criteriaPriorities = ahpPriorities(criteriaMatrix);
+      consistency.push({ criterion: 'Considerations', ratio: consistencyRatio(criteriaMatrix) });
+    } else {
+      const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+      criteriaPriorities = weights.map(w => (totalWeight === 0 ? 1 / weights.length : w / totalWeight));
+      if (names.length > 1) {
+        notes.push('Considerations are weighed by their importance weights. Compare them in pairs with Weigh to use your own judgements and check that they hang together.');
+      }
+    }
+
+    // Ratings are already on a ratio scale, so each opportunity's local
+    // priority is its share of the ratings on that consideration
+    const totals = wheels.map(() => 0);
+    names.forEach((_, j) => {
+      const column = values.map(row => row[j]);
+      const sum = column.reduce((acc, value) => acc + value, 0);
+      column.forEach((value, i) => {
+        totals[i] += (sum === 0 ? 1 / column.length : value / sum) * criteriaPriorities[j];
+      });
+    });
+
+    if (consistency.some(c => c.ratio > AHP_CONSISTENCY_LIMIT)) {
+      notes.push(
+        `Your comparisons of the considerations exceed the ${AHP_CONSISTENCY_LIMIT.toFixed(2)} consistency ratio, ` +
+        'so some contradict each other. Revisit them with Weigh.'
+      );
+    }
+
+    return { method: 'ahp', scores: totals.map(total => total * 10), notes, consistency };
+  }
+};
+
+/**
+ * Available scoring methods, in the order they are offered
+ */
+export const SCORING_METHODS: Record<ScoringMethodId, ScoringMethod> = {
+  'weighted-sum': weightedSumMethod,
+  topsis: topsisMethod,
+  ahp: ahpMethod
+};
+
+/**
+ * Scores wheels with the chosen method
+ *
+ * TOPSIS and AHP need at least two wheels to compare; with fewer, the
+ * weighted sum is used instead.
+ *
+ * @param wheels - Wheels to score
+ * @param method - Scoring method
+ * @param alignment - How considerations are matched for TOPSIS and AHP
+ * @param comparisons - The user's pairwise judgements of the considerations, for AHP
+ * @returns Numeric scores on a 0-10 scale, in the order of `wheels`
+ *
+ * @example
+ * scoreWheels(wheels, 'topsis').scores // Returns: [7.4, 2.6]
+ */
+export function scoreWheels(
+  wheels: Wheel[],
+  method: ScoringMethodId = 'weighted-sum',
+  alignment?: AlignmentSettings,
+  comparisons?: CriteriaComparison[]
+): ScoringResult {
+  if (method !== 'weighted-sum' && wheels.length < 2) {
+    return weightedSumMethod.score(wheels, alignment);
+  }
+
+  return SCORING_METHODS[method].score(wheels, alignment, comparisons);
+}
+
+// ========== UNCERTAINTY ==========
+
+/** Share of simulated scores that falls inside a reported interval */
+export const CONFIDENCE_LEVEL = 0.9;
+
+/**
+ * One wheel's outcome across the simulation
+ */
+export interface WinProbability {
+  /** Wheel the figures belong to */
+  wheelId: number;
+  /** Share of runs the wheel wins, with ties split evenly (0-1) */
+  probability: number;
+  /** Mean simulated score */
+  mean: number;
+  /** Central CONFIDENCE_LEVEL interval of the simulated score */
+  interval: { low: number; high: number };
+}
+
+/**
+ * Result of a win-probability simulation
+ */
+export interface SimulationResult {
+  /** Number of runs */
+  runs: number;
+  /** Seed the runs were drawn with */
+  seed: number;
+  /** Figures per wheel, in the order of the wheels */
+  wheels: WinProbability[];
+  /** Share of runs in which every wheel failed a must-have (0-1) */
+  noWinner: number;
+}
+
+/**
+ * Options for simulateWinProbabilities
+ */
+export interface SimulationOptions {
+  /** Number of runs (default APP_CONSTANTS.SIMULATION_RUNS) */
+  runs?: number;
+  /** Random seed (default APP_CONSTANTS.SIMULATION_SEED) */
+  seed?: number;
+  /** Scoring method that decides each run's winner */
+  method?: ScoringMethodId;
+  /** How considerations are matched for TOPSIS and AHP */
+  alignment?: AlignmentSettings;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  comparisons?: CriteriaComparison[];
+}
+
+/**
+ * Checks whether any consideration has an uncertainty range
+ *
+ * @param wheels - Wheels to check
+ * @returns true if at least one segment has a low/high range wider than a point
+ */
+export function hasUncertainty(wheels: Wheel[]): boolean {
+  return wheels.some(wheel => wheel.segments.some(seg => seg.range !== undefined && seg.range.high > seg.range.low));
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32)
+ *
+ * The same seed always yields the same sequence, so simulated results are
+ * reproducible and don't change between renders.
+ *
+ * @param seed - Any 32-bit integer
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draws from a triangular distribution
+ *
+ * @param low - Smallest possible value
+ * @param mode - Most likely value
+ * @param high - Largest possible value
+ * @param random - Uniform random number in [0, 1)
+ * @returns Sampled value between low and high
+ *
+ * @example
+ * sampleTriangular(4, 6, 8, 0.5) // Returns: 6
+ */
+export function sampleTriangular(low: number, mode: number, high: number, random: number): number {
+  if (high <= low) return mode;
+
+  const split = (mode - low) / (high - low);
+  return random < split
+    ? low + Math.sqrt(random * (high - low) * (mode - low))
+    : high - Math.sqrt((1 - random) * (high - low) * (high - mode));
+}
+
+/**
+ * Value at a fraction of the way through sorted numbers, interpolating between neighbours
+ */
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+/**
+ * Estimates each wheel's chance of winning when ratings are uncertain
+ *
+ * Each run draws every ranged rating from a triangular distribution over
+ * its low / most likely / high estimates (fixed ratings stay as they are),
+ * scores the wheels with the chosen method and awards the win to the top
+ * qualifying wheel. A drawn rating below a must-have minimum disqualifies
+ * the wheel for that run.
+ *
+ * @param wheels - Wheels to simulate
+ * @param options - Runs, seed, scoring method and alignment
+ * @returns Win probabilities and score intervals per wheel
+ *
+ * @example
+ * simulateWinProbabilities(wheels).wheels.map(w => w.probability) // Returns: [0.64, 0.36]
+ */
+export function simulateWinProbabilities(wheels: Wheel[], options: SimulationOptions = {}): SimulationResult {
+  const runs = options.runs ?? APP_CONSTANTS.SIMULATION_RUNS;
+  const seed = options.seed ?? APP_CONSTANTS.SIMULATION_SEED;
+  const random = createRandom(seed);
+  const wins = wheels.map(() => 0);
+  const samples: number[][] = wheels.map(() => []);
+  let noWinner = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const drawn = wheels.map(wheel => ({
+      ...wheel,
+      segments: wheel.segments.map(seg => seg.range
+        ? {
+          ...seg,
+          value: sampleTriangular(Math.min(seg.range.low, seg.value), seg.value, Math.max(seg.range.high, seg.value), random())
+        }
+        : seg)
+    }));
+    const { scores } = scoreWheels(drawn, options.method, options.alignment, options.comparisons);
+    scores.forEach((score, index) => samples[index].push(score));
+
+    const contenders = scores
+      .map((score, index) => ({ score, index }))
+      .filter(({ index }) => !isDisqualified(drawn[index]));
+    if (contenders.length === 0) {
+      noWinner++;
+      continue;
+    }
+
+    const best = Math.max(...contenders.map(c => c.score));
+    const winners = contenders.filter(c => c.score === best);
+    winners.forEach(({ index }) => { wins[index] += 1 / winners.length; });
+  }
+
+  const tail = (1 - CONFIDENCE_LEVEL) / 2;
+
+  return {
+    runs,
+    seed,
+    noWinner: runs > 0 ? noWinner / runs : 0,
+    wheels: wheels.map((wheel, index) => {
+      const sorted = [...samples[index]].sort((a, b) => a - b);
+      return {
+        wheelId: wheel.id,
+        probability: runs > 0 ? wins[index] / runs : 0,
+        mean: sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0,
+        interval: sorted.length > 0
+          ? { low: percentile(sorted, tail), high: percentile(sorted, 1 - tail) }
+          : { low: 0, high: 0 }
+      };
+    })
+  };
 }
@@ -0,0 +1,154 @@
+/**
+ * Default application data
+ *
+ * Provides the sample comparison shown on first load and after the user
+ * clears their saved data.
+ */
+
+import { APP_CONSTANTS, PersistedAppState, Wheel } from '../types';
+import { createProject } from './projects';
+import { DEFAULT_ALIGNMENT_SETTINGS } from './alignment';
+
+/**
+ * Builds the sample "Opportunity A/B" wheels
+ *
+ * A fresh copy is returned on every call so callers can safely mutate it.
+ *
+ * @returns Array of sample wheels
+ */
+export function createSampleWheels(): Wheel[] {
+  return [
+    {
+      id: 1,
+      name: 'Opportunity A',
+      color: '#60A5FA',
+      segments: [
+        { id: 1, name: 'Location', value: 10, weight: 3 },
+        { id: 2, name: 'Investment', value: 7, weight: 3 },
+        { id: 3, name: 'Time', value: 5, weight: 3 },
+        { id: 4, name: 'Interior Design', value: 5, weight: 3 },
+        { id: 5, name: 'Space', value: 10, weight: 3 },
+        { id: 6, name: 'Neighbours', value: 5, weight: 3 }
+      ]
+    },
+    {
+      id: 2,
+      name: 'Opportunity B',
+      color: '#34D399',
+      segments: [
+        { id: 1, name: 'Location', value: 8, weight: 3 },
+        { id: 2, name: 'Investment', value: 5, weight: 3 },
+        { id: 3, name: 'Time', value: 7, weight: 3 },
+        { id: 4, name: 'Interior Design', value: 6, weight: 3 }
+      ]
+    }
+  ];
+}
+
+/**
+ * Letters naming an opportunity by position, as in spreadsheet columns
+ *
+ * @param index - Zero-based position
+ * @returns 'A' to 'Z', then 'AA', 'AB' and so on
+ *
+ * @example
+ * opportunityLetter(2) // Returns: 'C'
+ * opportunityLetter(27) // Returns: 'AB'
+ */
+export function opportunityLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Picks a color for a new wheel
+ *
+ * Uses the first palette color not already taken; once the palette runs out,
+ * hues are spread around the color wheel by the golden angle so neighbouring
+ * wheels stay distinguishable.
+ *
+ * @param existing - Wheels already in the decision
+ * @returns Hex color
+ */
+function pickWheelColor(existing: Wheel[]): string {
+  const usedColors = existing.map(w => w.color.toUpperCase());
+  const unused = APP_CONSTANTS.COLOR_PALETTE.find(c => !usedColors.includes(c));
+  if (unused) {
+    return unused;
+  }
+
+  // HSL to RGB at a fixed saturation and lightness
+  const hue = (existing.length * 137.508) % 360;
+  const saturation = 0.65;
+  const lightness = 0.55;
+  const channel = (n: number): string => {
+    const k = (n + hue / 30) % 12;
+    const chroma = saturation * Math.min(lightness, 1 - lightness);
+    const value = lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`.toUpperCase();
+}
+
+/**
+ * Builds a new wheel with placeholder considerations
+ *
+ * The wheel is named after its position ("Opportunity C") and given a color
+ * not already used by the existing wheels.
+ *
+ * @param id - ID for the new wheel
+ * @param existing - Wheels it will be compared with
+ * @returns The new wheel
+ */
+export function createBlankWheel(id: number, existing: Wheel[]): Wheel {
+  return {
+    id,
+    name: `Opportunity ${opportunityLetter(existing.length)}`,
+    color: pickWheelColor(existing),
+    segments: [
+      { id: 1, name: 'Factor 1', value: 5, weight: APP_CONSTANTS.DEFAULT_WEIGHT },
+      { id: 2, name: 'Factor 2', value: 5, weight: APP_CONSTANTS.DEFAULT_WEIGHT },
+      { id: 3, name: 'Factor 3', value: 5, weight: APP_CONSTANTS.DEFAULT_WEIGHT }
+    ]
+  };
+}
+
+/**
+ * Builds the minimum number of blank wheels for a new decision
+ *
+ * @returns Array of MIN_WHEELS blank wheels with IDs starting at 1
+ */
+export function createBlankWheels(): Wheel[] {
+  const wheels: Wheel[] = [];
+  for (let id = 1; id <= APP_CONSTANTS.MIN_WHEELS; id++) {
+    wheels.push(createBlankWheel(id, wheels));
+  }
+  return wheels;
+}
+
+/**
+ * Builds the default application state
+ *
+ * @returns State used when nothing has been saved yet
+ *
+ * @example
+ * const state = createDefaultAppState();
+ * state.projects[0].wheels.length // Returns: 2
+ */
+export function createDefaultAppState(): PersistedAppState {
+  const project = createProject('Sample Decision', createSampleWheels(), 3);
+  return {
+    projects: [project],
+    activeProjectId: project.id,
+    selectedSegment: null,
+    useNumberSelector: false,
+    weightedWedges: false,
+    alignment: DEFAULT_ALIGNMENT_SETTINGS,
+    scoringMethod: 'weighted-sum',
+    templates: [],
+    wheelLimit: APP_CONSTANTS.DEFAULT_WHEEL_LIMIT
+  };
+}
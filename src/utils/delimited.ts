@@ -0,0 +1,133 @@
+/**
+ * Delimited Text Utilities
+ *
+ * Minimal RFC 4180 reader and writer for CSV and TSV. Handles quoted fields,
+ * escaped quotes, embedded delimiters and line breaks, and both LF and CRLF
+ * line endings. Text copied from Excel or Google Sheets arrives as TSV and is
+ * read by the same parser.
+ *
+ * Security measures:
+ * - Text cells that a spreadsheet would treat as a formula are prefixed with
+ *   an apostrophe on export (CSV injection), and the prefix is removed again
+ *   on import
+ */
+
+/** Characters that make spreadsheets interpret a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Guesses the delimiter of pasted or uploaded text
+ *
+ * @param text - Raw text
+ * @returns Tab if the first line contains one, otherwise semicolon when it
+ *   outnumbers commas (common in European locales), otherwise comma
+ *
+ * @example
+ * detectDelimiter('Name\tA\tB') // Returns: '\t'
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  if (firstLine.includes('\t')) return '\t';
+
+  const commas = (firstLine.match(/,/g) ?? []).length;
+  const semicolons = (firstLine.match(/;/g) ?? []).length;
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Parses delimited text into rows of cells
+ *
+ * Completely empty rows are dropped wherever they appear.
+ *
+ * @param text - Raw text
+ * @param delimiter - Field delimiter (defaults to detectDelimiter)
+ * @returns Array of rows, each an array of cell strings
+ *
+ * @example
+ * parseDelimited('a,"b, c"\n"say ""hi""",d') // Returns: [['a', 'b, c'], ['say "hi"', 'd']]
+ */
+export function parseDelimited(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark written by some spreadsheet apps
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map(r => r.map(unescapeFormula))
+    .filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Serializes rows of cells as delimited text
+ *
+ * @param rows - Rows of cells; numbers are written as-is
+ * @param delimiter - Field delimiter
+ * @returns Text with CRLF line endings, as RFC 4180 specifies
+ *
+ * @example
+ * toDelimited([['Name', 'A'], ['Cost, total', 7]], ',') // Returns: 'Name,A\r\n"Cost, total",7'
+ */
+export function toDelimited(rows: Array<Array<string | number>>, delimiter: string): string {
+  return rows
+    .map(row => row.map(cell => formatCell(cell, delimiter)).join(delimiter))
+    .join('\r\n');
+}
+
+/**
+ * Quotes and escapes a single cell
+ */
+function formatCell(cell: string | number, delimiter: string): string {
+  if (typeof cell === 'number') {
+    return String(cell);
+  }
+
+  const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Removes the apostrophe added by formatCell to neutralize formulas
+ */
+function unescapeFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
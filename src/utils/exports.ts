@@ -12,8 +12,12 @@
  * - Cleans up temporary URLs
  */
 
-import { Wheel } from '../types';
+import { ConsiderationTemplate, Project, Wheel } from '../types';
 import { validateFileName } from './validation';
+import { buildConsiderationMatrix, calculateWeightedAverage, hasCustomWeights } from './calculations';
+import { toDelimited } from './delimited';
+import { buildDecisionSvg, DecisionSvgOptions, renderDecisionSvg, serializeSvg } from './svgRenderer';
+import type { PdfReportOptions } from './pdfReport';
 
 /**
  * Creates a safe download link and triggers download
@@ -46,29 +50,60 @@ function triggerDownload(blob: Blob, filename: string): void {
 }
 
 /**
- * Exports wheels data as JSON
+ * Serializes data as pretty-printed JSON and downloads it
  *
- * Creates a JSON file containing all wheel data for backup or sharing.
- * The JSON is pretty-printed for readability.
+ * @param data - Value to serialize
+ * @param filename - Desired filename
+ */
+function downloadJSON(data: unknown, filename: string): void {
+  const dataStr = JSON.stringify(data, null, 2);
+  const dataBlob = new Blob([dataStr], { type: 'application/json' });
+  triggerDownload(dataBlob, filename);
+}
+
+/**
+ * Exports a single decision project as JSON
  *
- * @param wheels - Array of wheels to export
- * @throws Error if export fails
+ * The file includes the project's metadata alongside its wheels and can be
+ * re-imported with the JSON importer.
+ *
+ * @param project - Project to export
  *
  * @example
- * exportToJSON(wheels) // Downloads: decision-wheels-1234567890.json
+ * exportProjectToJSON(project) // Downloads: office-move-1234567890.json
  */
-export function exportToJSON(wheels: Wheel[]): void {
+export function exportProjectToJSON(project: Project): void {
   try {
-    // Validate data exists
-    if (!wheels || wheels.length === 0) {
+    if (!project || project.wheels.length === 0) {
       throw new Error('No wheels to export');
     }
 
-    const dataStr = JSON.stringify(wheels, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const filename = `decision-wheels-${Date.now()}.json`;
+    const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'decision';
+    downloadJSON(project, `${slug}-${Date.now()}.json`);
+  } catch (error) {
+    console.error('JSON export error:', error);
+    alert('JSON export failed. Please try again.');
+  }
+}
 
-    triggerDownload(dataBlob, filename);
+/**
+ * Exports every project in the workspace as JSON
+ *
+ * @param projects - All projects, including archived ones
+ *
+ * @example
+ * exportWorkspaceToJSON(projects) // Downloads: decision-workspace-1234567890.json
+ */
+export function exportWorkspaceToJSON(projects: Project[]): void {
+  try {
+    if (!projects || projects.length === 0) {
+      throw new Error('No projects to export');
+    }
+
+    downloadJSON(
+      { exportedAt: new Date().toISOString(), projects },
+      `decision-workspace-${Date.now()}.json`
+    );
   } catch (error) {
     console.error('JSON export error:', error);
     alert('JSON export failed. Please try again.');
@@ -76,176 +111,294 @@ export function exportToJSON(wheels: Wheel[]): void {
 }
 
 /**
- * Exports visualization as SVG
+ * Exports consideration templates as JSON
  *
- * Creates an SVG file containing all wheel visualizations and comparison bars.
- * SVG is a vector format that can be scaled without quality loss.
+ * The file can be imported again from the template library.
  *
- * @param wheels - Array of wheels to export
- * @throws Error if export fails
+ * @param templates - Templates to export
  *
  * @example
- * exportToSVG(wheels) // Downloads: decision-wheels-1234567890.svg
+ * exportTemplatesToJSON(templates) // Downloads: decision-templates-1234567890.json
  */
-export function exportToSVG(wheels: Wheel[]): void {
+export function exportTemplatesToJSON(templates: ConsiderationTemplate[]): void {
   try {
-    const wheelsContainer = document.querySelector('.wheels-container');
-    if (!wheelsContainer) {
-      throw new Error('Cannot find wheels to export');
+    if (!templates || templates.length === 0) {
+      throw new Error('No templates to export');
     }
 
-    const svgs = wheelsContainer.querySelectorAll('svg');
-    if (svgs.length === 0) {
-      throw new Error('No wheels found to export');
+    downloadJSON(
+      { exportedAt: new Date().toISOString(), templates },
+      `decision-templates-${Date.now()}.json`
+    );
+  } catch (error) {
+    console.error('JSON export error:', error);
+    alert('Template export failed. Please try again.');
+  }
+}
+
+/**
+ * Builds the considerations × opportunities table as delimited text
+ *
+ * One row per consideration and one column per wheel, followed by a footer
+ * row of averages. Considerations a wheel lacks are left blank.
+ *
+ * @param wheels - Array of wheels
+ * @param delimiter - ',' for CSV or '\t' for TSV
+ * @returns Delimited text
+ *
+ * @example
+ * wheelsToDelimited(wheels, ',')
+ * // Consideration,Opportunity A,Opportunity B
+ * // Location,10,8
+ * // Space,10,
+ * // Average,7.0,6.5
+ */
+export function wheelsToDelimited(wheels: Wheel[], delimiter: string): string {
+  const matrix = buildConsiderationMatrix(wheels);
+  const averageLabel = hasCustomWeights(wheels) ? 'Weighted Average' : 'Average';
+
+  const rows: Array<Array<string | number>> = [
+    ['Consideration', ...wheels.map(w => w.name)],
+    ...matrix.map(row => [row.name, ...row.cells.map(cell => (cell ? cell.value : ''))]),
+    [averageLabel, ...wheels.map(w => calculateWeightedAverage(w).toFixed(1))]
+  ];
+
+  return toDelimited(rows, delimiter);
+}
+
+/**
+ * Exports the ratings table as CSV
+ *
+ * @param wheels - Array of wheels to export
+ *
+ * @example
+ * exportToCSV(wheels) // Downloads: decision-wheels-1234567890.csv
+ */
+export function exportToCSV(wheels: Wheel[]): void {
+  try {
+    if (!wheels || wheels.length === 0) {
+      throw new Error('No wheels to export');
     }
 
-    // SVG dimensions
-    const svgWidth = 440;
-    const gap = 40;
-    const padding = 40;
-    const wheelsWidth = (svgWidth * svgs.length) + (gap * (svgs.length - 1)) + (padding * 2);
-    const wheelsHeight = 480;
-    const comparisonHeight = 200;
-    const comparisonPadding = 40;
-    const totalHeight = wheelsHeight + comparisonHeight + comparisonPadding;
-
-    // Build combined SVG
-    let combinedSVG = `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" width="${wheelsWidth}" height="${totalHeight}" viewBox="0 0 ${wheelsWidth} ${totalHeight}">
-  <rect width="${wheelsWidth}" height="${totalHeight}" fill="white"/>`;
-
-    // Add wheel SVGs
-    Array.from(svgs).forEach((svg, index) => {
-      const xOffset = padding + (index * (svgWidth + gap));
-      const svgData = new XMLSerializer().serializeToString(svg);
-      const cleanedData = svgData.replace(/<svg[^>]*>/, '').replace(/<\/svg>/, '');
-      combinedSVG += `<g transform="translate(${xOffset}, ${padding})">${cleanedData}</g>`;
-    });
-
-    // Add comparison bars
-    const comparisonY = wheelsHeight + comparisonPadding;
-    const barWidth = wheelsWidth - (padding * 2);
-    const barHeight = 40;
-    const barGap = 20;
-
-    combinedSVG += `<text x="${wheelsWidth / 2}" y="${comparisonY}" text-anchor="middle" font-size="20" font-weight="bold" fill="#111827">Overall Comparison</text>`;
-
-    wheels.forEach((wheel, index) => {
-      const avg = wheel.segments.reduce((acc, s) => acc + s.value, 0) / wheel.segments.length;
-      const percentage = (avg / 10) * 100;
-      const barY = comparisonY + 40 + (index * (barHeight + barGap));
-
-      combinedSVG += `<text x="${padding}" y="${barY + 15}" font-size="14" font-weight="600" fill="#374151">${wheel.name}</text>`;
-      combinedSVG += `<text x="${wheelsWidth - padding}" y="${barY + 15}" text-anchor="end" font-size="16" font-weight="bold" fill="#111827">${avg.toFixed(1)} / 10</text>`;
-      combinedSVG += `<rect x="${padding}" y="${barY + 20}" width="${barWidth}" height="${barHeight}" rx="20" fill="#E5E7EB"/>`;
-
-      const fillWidth = (barWidth * percentage) / 100;
-      combinedSVG += `<rect x="${padding}" y="${barY + 20}" width="${fillWidth}" height="${barHeight}" rx="20" fill="${wheel.color}"/>`;
-
-      if (fillWidth > 60) {
-        combinedSVG += `<text x="${padding + fillWidth - 15}" y="${barY + 20 + (barHeight / 2) + 5}" text-anchor="end" font-size="12" font-weight="600" fill="white">${percentage.toFixed(0)}%</text>`;
-      }
-    });
-
-    combinedSVG += '</svg>';
-
-    const blob = new Blob([combinedSVG], { type: 'image/svg+xml;charset=utf-8' });
-    const filename = `decision-wheels-${Date.now()}.svg`;
+    // BOM so Excel opens UTF-8 names correctly
+    const blob = new Blob(['\uFEFF' + wheelsToDelimited(wheels, ',')], { type: 'text/csv;charset=utf-8' });
+    triggerDownload(blob, `decision-wheels-${Date.now()}.csv`);
+  } catch (error) {
+    console.error('CSV export error:', error);
+    alert('CSV export failed. Please try again.');
+  }
+}
 
-    triggerDownload(blob, filename);
+/**
+ * Exports the ratings table as TSV
+ *
+ * @param wheels - Array of wheels to export
+ *
+ * @example
+ * exportToTSV(wheels) // Downloads: decision-wheels-1234567890.tsv
+ */
+export function exportToTSV(wheels: Wheel[]): void {
+  try {
+    if (!wheels || wheels.length === 0) {
+      throw new Error('No wheels to export');
+    }
+
+    const blob = new Blob([wheelsToDelimited(wheels, '\t')], { type: 'text/tab-separated-values;charset=utf-8' });
+    triggerDownload(blob, `decision-wheels-${Date.now()}.tsv`);
   } catch (error) {
-    console.error('SVG export error:', error);
-    alert('SVG export failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    console.error('TSV export error:', error);
+    alert('TSV export failed. Please try again.');
   }
 }
 
 /**
- * Exports visualization as WebP image
+ * Exports visualization as SVG
  *
- * Creates a raster image file. This is more compatible with standard image viewers
- * but loses the scalability of SVG.
+ * Creates an SVG file containing all wheel visualizations and comparison bars,
+ * drawn by the shared rendering engine so the file matches the screen.
+ * Comparison bars show importance-weighted averages.
+ * SVG is a vector format that can be scaled without quality loss.
  *
  * @param wheels - Array of wheels to export
+ * @param options - Layout options, e.g. proportionalAngles
  *
  * @example
- * exportToWebP(wheels) // Downloads: decision-wheels-1234567890.webp
+ * exportToSVG(wheels) // Downloads: decision-wheels-1234567890.svg
  */
-export async function exportToWebP(_wheels: Wheel[]): Promise<void> {
+export function exportToSVG(wheels: Wheel[], options: DecisionSvgOptions = {}): void {
   try {
-    const wheelsContainer = document.querySelector('.wheels-container');
-    if (!wheelsContainer) {
-      throw new Error('Cannot find wheels container');
+    if (!wheels || wheels.length === 0) {
+      throw new Error('No wheels found to export');
     }
 
-    const svgs = wheelsContainer.querySelectorAll('svg');
-    if (svgs.length === 0) {
-      throw new Error('No wheels found');
-    }
+    const svgString = renderDecisionSvg(wheels, options);
+    const blob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
+    const filename = `decision-wheels-${Date.now()}.svg`;
 
-    // Build SVG string
-    const svgWidth = 440;
-    const gap = 40;
-    const padding = 40;
-    const wheelsWidth = (svgWidth * svgs.length) + (gap * (svgs.length - 1)) + (padding * 2);
-    const wheelsHeight = 480;
-    const comparisonHeight = 200;
-    const comparisonPadding = 40;
-    const totalHeight = wheelsHeight + comparisonHeight + comparisonPadding;
-
-    let svgString = `<svg xmlns="http://www.w3.org/2000/svg" width="${wheelsWidth}" height="${totalHeight}" viewBox="0 0 ${wheelsWidth} ${totalHeight}">
-      <rect width="${wheelsWidth}" height="${totalHeight}" fill="white"/>`;
-
-    // Add wheels
-    Array.from(svgs).forEach((svg, index) => {
-      const xOffset = padding + (index * (svgWidth + gap));
-      const svgData = new XMLSerializer().serializeToString(svg);
-      const cleanedData = svgData.replace(/<svg[^>]*>/, '').replace(/<\/svg>/, '');
-      svgString += `<g transform="translate(${xOffset}, ${padding})">${cleanedData}</g>`;
-    });
-
-    svgString += '</svg>';
-
-    // Convert to image
-    const canvas = document.createElement('canvas');
-    canvas.width = wheelsWidth * 2; // 2x for better quality
-    canvas.height = totalHeight * 2;
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) {
-      throw new Error('Cannot create canvas context');
-    }
+    triggerDownload(blob, filename);
+  } catch (error) {
+    console.error('SVG export error:', error);
+    alert('SVG export failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+}
+
+/** Raster image formats supported by exportToImage */
+export type RasterFormat = 'png' | 'webp' | 'jpeg';
+
+/** Pixel density multipliers offered for raster export */
+export const RASTER_SCALES = [1, 2, 3, 4] as const;
+
+/** Largest canvas, in pixels, that every major browser can draw and encode */
+const MAX_RASTER_PIXELS = 8192 * 8192;
+
+/**
+ * Options for raster export
+ */
+export interface RasterExportOptions extends DecisionSvgOptions {
+  /** Image format */
+  format: RasterFormat;
+  /** Pixel density multiplier (1-4) */
+  scale: number;
+  /** Keep the background transparent (ignored for JPEG, which has no alpha) */
+  transparent?: boolean;
+}
 
-    ctx.scale(2, 2);
+const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg'
+};
 
+/**
+ * Loads an SVG document into an image element
+ *
+ * @param svgString - SVG markup
+ * @returns Promise resolving to the loaded image
+ */
+function loadSvgImage(svgString: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' }));
     const img = new Image();
-    const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(svgBlob);
 
     img.onload = () => {
-      ctx.fillStyle = 'white';
-      ctx.fillRect(0, 0, wheelsWidth, totalHeight);
-      ctx.drawImage(img, 0, 0);
       URL.revokeObjectURL(url);
-
-      // Convert to WebP
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          throw new Error('Failed to create WebP blob');
-        }
-
-        const filename = `decision-wheels-${Date.now()}.webp`;
-        triggerDownload(blob, filename);
-      }, 'image/webp', 0.95);
+      resolve(img);
     };
-
     img.onerror = () => {
       URL.revokeObjectURL(url);
-      throw new Error('Image load failed');
+      reject(new Error('The drawing could not be loaded as an image'));
     };
 
     img.src = url;
+  });
+}
+
+/**
+ * Renders wheels and comparison bars to a raster image
+ *
+ * Draws the same document as the SVG export onto a canvas at the requested
+ * scale and encodes it in the requested format.
+ *
+ * @param wheels - Array of wheels to render
+ * @param options - Format, scale, background and layout options
+ * @returns Promise resolving to the encoded image
+ * @throws Error if the browser cannot draw or encode the image
+ *
+ * @example
+ * const blob = await renderToImage(wheels, { format: 'png', scale: 2 });
+ */
+export async function renderToImage(wheels: Wheel[], options: RasterExportOptions): Promise<Blob> {
+  if (!wheels || wheels.length === 0) {
+    throw new Error('No wheels to export');
+  }
+
+  const requestedScale = Math.min(Math.max(Math.round(options.scale), 1), RASTER_SCALES[RASTER_SCALES.length - 1]);
+  const transparent = options.transparent === true && options.format !== 'jpeg';
+  const root = buildDecisionSvg(wheels, { ...options, background: transparent ? null : 'white' });
+  const width = Number(root.attrs.width);
+  const height = Number(root.attrs.height);
+  // Many opportunities make a large drawing; lower the density rather than exceed the canvas limit
+  const scale = Math.min(requestedScale, Math.sqrt(MAX_RASTER_PIXELS / (width * height)));
+
+  const img = await loadSvgImage(serializeSvg(root));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(width * scale);
+  canvas.height = Math.floor(height * scale);
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Cannot create canvas context');
+  }
+
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const mimeType = RASTER_MIME_TYPES[options.format];
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, 0.95));
+
+  if (!blob) {
+    throw new Error('The image could not be encoded');
+  }
+
+  // Browsers fall back to PNG for formats they cannot encode
+  if (blob.type !== mimeType) {
+    throw new Error(`This browser cannot create ${options.format.toUpperCase()} images. Try PNG instead.`);
+  }
+
+  return blob;
+}
+
+/**
+ * Exports visualization as a raster image (PNG, WebP or JPEG)
+ *
+ * Unlike the other exporters this does not alert on failure: the returned
+ * promise rejects so the caller can report the error in context.
+ *
+ * @param wheels - Array of wheels to export
+ * @param options - Format, scale, background and layout options
+ * @throws Error if rendering, encoding or the download fails
+ *
+ * @example
+ * await exportToImage(wheels, { format: 'webp', scale: 2 }) // Downloads: decision-wheels-1234567890.webp
+ */
+export async function exportToImage(wheels: Wheel[], options: RasterExportOptions): Promise<void> {
+  try {
+    const blob = await renderToImage(wheels, options);
+    const extension = options.format === 'jpeg' ? 'jpg' : options.format;
+    triggerDownload(blob, `decision-wheels-${Date.now()}.${extension}`);
+  } catch (error) {
+    console.error('Image export error:', error);
+    throw error instanceof Error ? error : new Error('Image export failed');
+  }
+}
+
+/**
+ * Exports a printable PDF report
+ *
+ * The report is generated entirely in the browser: a title page, one page per
+ * wheel with its drawing and ratings table, and a final ranking page. The PDF
+ * library is loaded on first use to keep it out of the main bundle.
+ *
+ * @param title - Decision name
+ * @param wheels - Array of wheels to report on
+ * @param options - Paper size, orientation and layout options
+ *
+ * @example
+ * exportToPDF('Office move', wheels, { pageSize: 'letter' }) // Downloads: office-move-1234567890.pdf
+ */
+export async function exportToPDF(title: string, wheels: Wheel[], options: PdfReportOptions = {}): Promise<void> {
+  try {
+    if (!wheels || wheels.length === 0) {
+      throw new Error('No wheels to export');
+    }
+
+    const { buildPdfReport } = await import('./pdfReport');
+    const blob = buildPdfReport(title, wheels, options).output('blob');
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'decision';
+    triggerDownload(blob, `${slug}-${Date.now()}.pdf`);
   } catch (error) {
-    console.error('WebP export error:', error);
-    alert('WebP export failed. Please use SVG export instead.');
+    console.error('PDF export error:', error);
+    alert('PDF export failed. Please try again.');
   }
 }
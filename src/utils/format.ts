@@ -0,0 +1,30 @@
+/**
+ * Formatting utilities for display text
+ */
+
+/**
+ * Formats a past time relative to now
+ *
+ * @param date - Time to describe
+ * @param now - Reference time (defaults to the current time)
+ * @returns Short description such as 'just now' or '2 minutes ago'
+ *
+ * @example
+ * formatRelativeTime(new Date(Date.now() - 120000)) // Returns: '2 minutes ago'
+ */
+export function formatRelativeTime(date: Date, now: Date = new Date()): string {
+  const seconds = Math.max(0, Math.round((now.getTime() - date.getTime()) / 1000));
+
+  if (seconds < 60) return 'just now';
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+
+  const days = Math.round(hours / 24);
+  if (days < 7) return `${days} day${days === 1 ? '' : 's'} ago`;
+
+  return date.toLocaleDateString();
+}
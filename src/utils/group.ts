@@ -0,0 +1,334 @@
+/**
+ * Group Rating
+ *
+ * Lets several people rate the same decision independently. Each segment
+ * keeps every rater's rating in `ratings`, keyed by rater ID, and its
+ * `value` holds their aggregate, so scoring, charts and exports work on the
+ * group result unchanged. Wheels without raters are left exactly as they are.
+ *
+ * Disagreement is measured per consideration as the spread (highest minus
+ * lowest) and standard deviation of the individual ratings, which points to
+ * the factors worth discussing.
+ */
+
+import { AggregationMethod, APP_CONSTANTS, GroupSettings, Rater, Segment, Wheel } from '../types';
+import { validateRaterName, validateValue } from './validation';
+
+/** Group settings of a project nobody has added raters to */
+export const DEFAULT_GROUP_SETTINGS: GroupSettings = {
+  raters: [],
+  aggregation: 'mean',
+  blind: false
+};
+
+/** Rating shown to a rater for a consideration they haven't rated yet */
+export const UNRATED_VALUE = 5;
+
+/** Standard deviation at or above which a consideration is flagged for discussion */
+export const DISAGREEMENT_THRESHOLD = 2;
+
+/** Labels and explanations of the aggregation methods */
+export const AGGREGATION_METHODS: Record<AggregationMethod, { label: string; description: string }> = {
+  mean: {
+    label: 'Mean',
+    description: 'The average of everyone\'s ratings.'
+  },
+  median: {
+    label: 'Median',
+    description: 'The middle rating, so one unusually high or low rating can\'t pull the result.'
+  },
+  'trimmed-mean': {
+    label: 'Trimmed mean',
+    description: 'The average after dropping the highest and lowest ratings (a fifth at each end, at least one when there are three or more).'
+  }
+};
+
+/**
+ * How much the raters disagree about one consideration
+ */
+export interface Disagreement {
+  /** Highest minus lowest rating */
+  spread: number;
+  /** Population standard deviation of the ratings */
+  standardDeviation: number;
+}
+
+/**
+ * Individual ratings and disagreement for one consideration of one wheel
+ */
+export interface DisagreementRow extends Disagreement {
+  wheelId: number;
+  segmentId: number;
+  consideration: string;
+  /** Rating by each rater, in rater order; null when not rated */
+  ratings: Array<number | null>;
+  /** Combined rating */
+  aggregate: number;
+}
+
+/**
+ * Generates a unique rater ID
+ */
+function generateRaterId(): string {
+  return `rater-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Combines individual ratings into one
+ *
+ * @param values - Ratings to combine
+ * @param method - Aggregation method
+ * @returns Combined rating rounded to one decimal, or null when there are no ratings
+ *
+ * @example
+ * aggregateRatings([2, 7, 8], 'mean') // Returns: 5.7
+ * aggregateRatings([2, 7, 8], 'median') // Returns: 7
+ * aggregateRatings([0, 6, 7, 10], 'trimmed-mean') // Returns: 6.5
+ */
+export function aggregateRatings(values: number[], method: AggregationMethod): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = (list: number[]): number => list.reduce((sum, v) => sum + v, 0) / list.length;
+  let result: number;
+
+  if (method === 'median') {
+    const middle = Math.floor(sorted.length / 2);
+    result = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  } else if (method === 'trimmed-mean' && sorted.length >= 3) {
+    const trim = Math.max(1, Math.floor(sorted.length / 5));
+    result = mean(sorted.slice(trim, sorted.length - trim));
+  } else {
+    result = mean(sorted);
+  }
+
+  return Math.round(result * 10) / 10;
+}
+
+/**
+ * Measures how far apart a set of ratings are
+ *
+ * @param values - Individual ratings
+ * @returns Spread and standard deviation, both 0 for fewer than two ratings
+ */
+export function measureDisagreement(values: number[]): Disagreement {
+  if (values.length < 2) {
+    return { spread: 0, standardDeviation: 0 };
+  }
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return {
+    spread: Math.max(...values) - Math.min(...values),
+    standardDeviation: Math.sqrt(variance)
+  };
+}
+
+/**
+ * Whether several people are rating the decision
+ */
+export function isGroupRating(group: GroupSettings): boolean {
+  return group.raters.length > 0;
+}
+
+/**
+ * Whether results must stay hidden because blind rating is on and someone hasn't submitted
+ */
+export function areResultsHidden(group: GroupSettings): boolean {
+  return group.blind && group.raters.some(rater => !rater.submitted);
+}
+
+/**
+ * Ratings of a segment by the given raters, skipping those who haven't rated it
+ */
+function ratingsOf(segment: Segment, raters: Rater[]): number[] {
+  return raters
+    .map(rater => segment.ratings?.[rater.id])
+    .filter((value): value is number => value !== undefined);
+}
+
+/**
+ * Recomputes a segment's value from its individual ratings
+ */
+function aggregateSegment(segment: Segment, group: GroupSettings): Segment {
+  const aggregate = aggregateRatings(ratingsOf(segment, group.raters), group.aggregation);
+  return aggregate === null || aggregate === segment.value ? segment : { ...segment, value: aggregate };
+}
+
+/**
+ * Sets every rated segment's value to the group aggregate
+ *
+ * @param wheels - Wheels with individual ratings
+ * @param group - Raters and aggregation method
+ * @returns Wheels with aggregated values; the same array when nobody is rating
+ */
+export function applyAggregation(wheels: Wheel[], group: GroupSettings): Wheel[] {
+  if (!isGroupRating(group)) {
+    return wheels;
+  }
+
+  return wheels.map(wheel => ({
+    ...wheel,
+    segments: wheel.segments.map(segment => aggregateSegment(segment, group))
+  }));
+}
+
+/**
+ * Shows the wheels as one rater rated them
+ *
+ * Considerations the rater hasn't rated yet show UNRATED_VALUE.
+ *
+ * @param wheels - Wheels with individual ratings
+ * @param raterId - Rater whose view to show
+ * @returns Wheels whose values are that rater's ratings
+ */
+export function wheelsForRater(wheels: Wheel[], raterId: string): Wheel[] {
+  return wheels.map(wheel => ({
+    ...wheel,
+    segments: wheel.segments.map(segment => ({
+      ...segment,
+      value: segment.ratings?.[raterId] ?? UNRATED_VALUE
+    }))
+  }));
+}
+
+/**
+ * Counts the considerations a rater hasn't rated yet
+ */
+export function countUnrated(wheels: Wheel[], raterId: string): number {
+  return wheels.reduce(
+    (count, wheel) => count + wheel.segments.filter(segment => segment.ratings?.[raterId] === undefined).length,
+    0
+  );
+}
+
+/**
+ * Records one rater's rating and updates the aggregate
+ *
+ * @param wheels - Wheels with individual ratings
+ * @param group - Raters and aggregation method
+ * @param raterId - Rater giving the rating
+ * @param wheelId - Wheel being rated
+ * @param segmentId - Consideration being rated
+ * @param value - Rating (will be validated)
+ * @returns New wheels
+ */
+export function setRaterRating(
+  wheels: Wheel[],
+  group: GroupSettings,
+  raterId: string,
+  wheelId: number,
+  segmentId: number,
+  value: number
+): Wheel[] {
+  return wheels.map(wheel => wheel.id !== wheelId ? wheel : {
+    ...wheel,
+    segments: wheel.segments.map(segment => segment.id !== segmentId ? segment : aggregateSegment(
+      { ...segment, ratings: { ...segment.ratings, [raterId]: validateValue(value) } },
+      group
+    ))
+  });
+}
+
+/**
+ * Records UNRATED_VALUE for every consideration a rater skipped
+ *
+ * Used on submit, so the rater's ratings count exactly as they saw them.
+ */
+export function fillUnrated(wheels: Wheel[], group: GroupSettings, raterId: string): Wheel[] {
+  return applyAggregation(wheels.map(wheel => ({
+    ...wheel,
+    segments: wheel.segments.map(segment =>
+      segment.ratings?.[raterId] !== undefined
+        ? segment
+        : { ...segment, ratings: { ...segment.ratings, [raterId]: UNRATED_VALUE } }
+    )
+  })), group);
+}
+
+/**
+ * Adds a rater
+ *
+ * The first rater takes over the existing ratings so nothing already rated
+ * is lost; later raters start with nothing rated.
+ *
+ * @param wheels - Current wheels
+ * @param group - Current group settings
+ * @param name - Rater's name (will be validated)
+ * @returns Updated wheels and group settings, or null when the rater limit is reached
+ */
+export function addRater(
+  wheels: Wheel[],
+  group: GroupSettings,
+  name: string
+): { wheels: Wheel[]; group: GroupSettings; rater: Rater } | null {
+  if (group.raters.length >= APP_CONSTANTS.MAX_RATERS) {
+    return null;
+  }
+
+  const rater: Rater = { id: generateRaterId(), name: validateRaterName(name), submitted: false };
+  const next: GroupSettings = { ...group, raters: [...group.raters, rater] };
+  const seeded = group.raters.length > 0 ? wheels : wheels.map(wheel => ({
+    ...wheel,
+    segments: wheel.segments.map(segment => ({ ...segment, ratings: { [rater.id]: validateValue(segment.value) } }))
+  }));
+
+  return { wheels: applyAggregation(seeded, next), group: next, rater };
+}
+
+/**
+ * Removes a rater and their ratings
+ *
+ * When the last rater goes, the wheels keep the final ratings as plain values.
+ *
+ * @returns Updated wheels and group settings
+ */
+export function removeRater(
+  wheels: Wheel[],
+  group: GroupSettings,
+  raterId: string
+): { wheels: Wheel[]; group: GroupSettings } {
+  const next: GroupSettings = { ...group, raters: group.raters.filter(rater => rater.id !== raterId) };
+  const stripped = wheels.map(wheel => ({
+    ...wheel,
+    segments: wheel.segments.map(segment => {
+      if (!segment.ratings) return segment;
+      const { ratings, ...rest } = segment;
+      const { [raterId]: _removed, ...remaining } = ratings;
+      return isGroupRating(next) ? { ...rest, ratings: remaining } : rest;
+    })
+  }));
+
+  return { wheels: applyAggregation(stripped, next), group: next };
+}
+
+/**
+ * Lists every consideration's individual ratings and disagreement
+ *
+ * @param wheels - Wheels with individual ratings
+ * @param group - Raters and aggregation method
+ * @returns Rows for considerations at least two raters rated, most disputed first
+ */
+export function analyzeDisagreement(wheels: Wheel[], group: GroupSettings): DisagreementRow[] {
+  const rows: DisagreementRow[] = [];
+
+  wheels.forEach(wheel => {
+    wheel.segments.forEach(segment => {
+      const values = ratingsOf(segment, group.raters);
+      if (values.length < 2) return;
+
+      rows.push({
+        wheelId: wheel.id,
+        segmentId: segment.id,
+        consideration: segment.name,
+        ratings: group.raters.map(rater => segment.ratings?.[rater.id] ?? null),
+        aggregate: aggregateRatings(values, group.aggregation) ?? segment.value,
+        ...measureDisagreement(values)
+      });
+    });
+  });
+
+  return rows.sort((a, b) => b.standardDeviation - a.standardDeviation || b.spread - a.spread);
+}
@@ -0,0 +1,143 @@
+/**
+ * Undo/Redo History
+ *
+ * Pure functions for a bounded undo/redo stack of state snapshots. Each
+ * entry stores the state as it was BEFORE a change, along with a label
+ * describing the change.
+ *
+ * Rapid repeated edits to the same field (slider drags, typing a name) share
+ * a coalesce key; consecutive changes with the same key inside the coalesce
+ * window collapse into a single entry so one undo reverts the whole gesture.
+ */
+
+/**
+ * A single undoable step
+ */
+export interface HistoryEntry<T> {
+  /** State to restore when this step is undone or redone */
+  snapshot: T;
+  /** Human-readable description of the change, e.g. 'Remove Opportunity B' */
+  label: string;
+  /** Changes with the same key in quick succession are merged */
+  coalesceKey: string | null;
+  /** Time of the most recent change merged into this entry (ms) */
+  timestamp: number;
+}
+
+/**
+ * Undo and redo stacks (most recent entry last)
+ */
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+/** Changes with the same coalesce key within this window are merged (ms) */
+export const COALESCE_WINDOW = 1000;
+
+/**
+ * Creates an empty history
+ */
+export function createHistory<T>(): HistoryState<T> {
+  return { past: [], future: [] };
+}
+
+/**
+ * Records a change
+ *
+ * Clears the redo stack. If the change continues the previous one (same
+ * coalesce key within COALESCE_WINDOW) the existing entry is kept, so undo
+ * returns to the state before the whole gesture.
+ *
+ * @param history - Current history
+ * @param previous - State before the change
+ * @param label - Description of the change
+ * @param coalesceKey - Key identifying the edited field, or null to never merge
+ * @param limit - Maximum number of undo steps kept
+ * @param now - Current time (ms)
+ * @returns Updated history
+ *
+ * @example
+ * let h = recordChange(createHistory(), stateBefore, 'Rate Location', 'value-1-1', 50);
+ * h = recordChange(h, stateMidDrag, 'Rate Location', 'value-1-1', 50); // merged, still 1 entry
+ */
+export function recordChange<T>(
+  history: HistoryState<T>,
+  previous: T,
+  label: string,
+  coalesceKey: string | null,
+  limit: number,
+  now: number = Date.now()
+): HistoryState<T> {
+  const last = history.past[history.past.length - 1];
+
+  if (
+    last &&
+    coalesceKey !== null &&
+    last.coalesceKey === coalesceKey &&
+    history.future.length === 0 &&
+    now - last.timestamp < COALESCE_WINDOW
+  ) {
+    return {
+      past: [...history.past.slice(0, -1), { ...last, timestamp: now }],
+      future: []
+    };
+  }
+
+  const past = [...history.past, { snapshot: previous, label, coalesceKey, timestamp: now }];
+
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    future: []
+  };
+}
+
+/**
+ * Steps back one entry
+ *
+ * @param history - Current history
+ * @param current - Current state, pushed onto the redo stack
+ * @returns Updated history and the state to restore, or null if there is nothing to undo
+ */
+export function undoChange<T>(
+  history: HistoryState<T>,
+  current: T
+): { history: HistoryState<T>; snapshot: T } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...entry, snapshot: current, coalesceKey: null }]
+    }
+  };
+}
+
+/**
+ * Steps forward one entry
+ *
+ * @param history - Current history
+ * @param current - Current state, pushed back onto the undo stack
+ * @returns Updated history and the state to restore, or null if there is nothing to redo
+ */
+export function redoChange<T>(
+  history: HistoryState<T>,
+  current: T
+): { history: HistoryState<T>; snapshot: T } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      past: [...history.past, { ...entry, snapshot: current, coalesceKey: null }],
+      future: history.future.slice(0, -1)
+    }
+  };
+}
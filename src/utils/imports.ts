@@ -0,0 +1,474 @@
+/**
+ * Import Utilities
+ *
+ * Reads decision wheels back from JSON files (project exports, and the bare
+ * wheel lists earlier versions exported), and from
+ * CSV/TSV ratings tables (exported by exportToCSV/exportToTSV or pasted from
+ * a spreadsheet). Imported
+ * data is treated as untrusted input: every field is checked against the
+ * Wheel/Segment types and passed through the same validators used for
+ * direct user input before it can reach application state.
+ *
+ * Security measures:
+ * - Limits file size before parsing
+ * - Sanitizes every name and validates every value and color
+ * - Enforces APP_CONSTANTS limits on wheels and segments
+ * - Reassigns all IDs so imported data can never collide with existing wheels
+ */
+
+import { APP_CONSTANTS, RatingRange, Segment, Wheel } from '../types';
+import {
+  validateColor,
+  validateRange,
+  validateSegmentName,
+  validateValue,
+  validateWeight,
+  validateWheelName
+} from './validation';
+import { parseDelimited } from './delimited';
+import { withSegmentNotes, withWheelNotes } from './notes';
+
+/** Maximum accepted import file size (bytes) */
+export const MAX_IMPORT_FILE_SIZE = 1024 * 1024;
+
+/**
+ * A field that was rejected or changed during import
+ */
+export interface ImportIssue {
+  /** Human-readable location of the field, e.g. 'Wheel 2 › Segment 3 › value' */
+  path: string;
+  /** 'rejected' when data was dropped, 'repaired' when it was changed */
+  kind: 'rejected' | 'repaired';
+  /** Description of what happened */
+  message: string;
+}
+
+/**
+ * Result of validating imported data
+ */
+export interface ImportResult {
+  /** Wheels that passed validation (IDs are not yet remapped) */
+  wheels: Wheel[];
+  /** Every rejected or repaired field */
+  issues: ImportIssue[];
+}
+
+/**
+ * How imported wheels are combined with the current ones
+ */
+export type ImportMode = 'replace' | 'merge';
+
+/**
+ * Result of applying an import
+ */
+export interface AppliedImport {
+  /** The new full list of wheels */
+  wheels: Wheel[];
+  /** ID to assign to the next wheel that is created */
+  nextWheelId: number;
+  /** Wheels dropped because the result would exceed the wheel limit */
+  dropped: string[];
+}
+
+/**
+ * Validates a single segment
+ *
+ * @returns The validated segment, or null if it must be rejected
+ */
+function sanitizeSegment(raw: unknown, path: string, issues: ImportIssue[]): Segment | null {
+  if (!raw || typeof raw !== 'object') {
+    issues.push({ path, kind: 'rejected', message: 'Not a valid consideration' });
+    return null;
+  }
+
+  const seg = raw as Record<string, unknown>;
+
+  const rawName = typeof seg.name === 'string' ? seg.name : '';
+  const name = validateSegmentName(rawName);
+  if (name !== rawName) {
+    issues.push({ path: `${path} › name`, kind: 'repaired', message: `Name changed to "${name}"` });
+  }
+
+  const rawValue = seg.value;
+  const value = validateValue(typeof rawValue === 'number' || typeof rawValue === 'string' ? rawValue : NaN);
+  if (value !== rawValue) {
+    issues.push({
+      path: `${path} › value`,
+      kind: 'repaired',
+      message: `Rating ${JSON.stringify(rawValue) ?? 'missing'} changed to ${value}`
+    });
+  }
+
+  // Files exported before weights existed have none; give them the default silently
+  let weight: number = APP_CONSTANTS.DEFAULT_WEIGHT;
+  if (seg.weight !== undefined) {
+    weight = validateWeight(typeof seg.weight === 'number' || typeof seg.weight === 'string' ? seg.weight : NaN);
+    if (weight !== seg.weight) {
+      issues.push({
+        path: `${path} › weight`,
+        kind: 'repaired',
+        message: `Weight ${JSON.stringify(seg.weight)} changed to ${weight}`
+      });
+    }
+  }
+
+  // Must-have minimums are optional; anything unusable is dropped rather than guessed
+  let minimum: number | undefined;
+  if (seg.minimum !== undefined && seg.minimum !== null && seg.minimum !== '') {
+    if (typeof seg.minimum === 'number' || typeof seg.minimum === 'string') {
+      minimum = validateValue(seg.minimum);
+      if (minimum !== seg.minimum) {
+        issues.push({
+          path: `${path} › minimum`,
+          kind: 'repaired',
+          message: `Minimum ${JSON.stringify(seg.minimum)} changed to ${minimum}`
+        });
+      }
+    } else {
+      issues.push({ path: `${path} › minimum`, kind: 'repaired', message: 'Invalid minimum removed' });
+    }
+  }
+
+  // Uncertainty ranges are optional too; a usable one is put in order around the rating
+  let range: RatingRange | undefined;
+  if (seg.range !== undefined && seg.range !== null) {
+    const raw = seg.range as Record<string, unknown>;
+    const isEnd = (end: unknown): end is number | string => typeof end === 'number' || typeof end === 'string';
+    if (typeof seg.range === 'object' && isEnd(raw.low) && isEnd(raw.high)) {
+      range = validateRange({ low: raw.low, high: raw.high }, value);
+      if (range.low !== raw.low || range.high !== raw.high) {
+        issues.push({
+          path: `${path} › range`,
+          kind: 'repaired',
+          message: `Range ${JSON.stringify(raw.low)}–${JSON.stringify(raw.high)} changed to ${range.low}–${range.high}`
+        });
+      }
+    } else {
+      issues.push({ path: `${path} › range`, kind: 'repaired', message: 'Invalid range removed' });
+    }
+  }
+
+  const segment: Segment = {
+    id: typeof seg.id === 'number' ? seg.id : 0,
+    name,
+    value,
+    weight,
+    ...(minimum !== undefined ? { minimum } : {}),
+    ...(range !== undefined ? { range } : {})
+  };
+
+  return sanitizeNotes(seg, 'rationale', ['links'], path, issues, changes => withSegmentNotes(segment, changes));
+}
+
+/**
+ * Reads optional free text, ignoring anything that isn't a string
+ */
+function readText(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Reads an optional list of strings, ignoring anything else
+ */
+function readList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+}
+
+/**
+ * Validates the notes and links of a wheel or segment, reporting anything changed
+ *
+ * @param raw - Raw imported object
+ * @param textField - Free-text field ('notes' or 'rationale')
+ * @param listFields - List fields ('pros', 'cons', 'links')
+ * @param path - Location for issue messages
+ * @param issues - Issues collected so far
+ * @param apply - Applies the raw notes to the validated object
+ * @returns The object with validated notes
+ */
+function sanitizeNotes<T extends Wheel | Segment>(
+  raw: Record<string, unknown>,
+  textField: string,
+  listFields: string[],
+  path: string,
+  issues: ImportIssue[],
+  apply: (changes: Record<string, string | string[] | undefined>) => T
+): T {
+  const text = readText(raw[textField]);
+  const changes: Record<string, string | string[] | undefined> = { [textField]: text };
+  listFields.forEach(field => { changes[field] = readList(raw[field]); });
+
+  const result = apply(changes);
+  const kept = result as unknown as Record<string, string | string[] | undefined>;
+
+  if (text?.trim() && kept[textField] !== text.trim()) {
+    issues.push({ path: `${path} › ${textField}`, kind: 'repaired', message: 'Text cleaned or shortened' });
+  }
+  listFields.forEach(field => {
+    const removed = ((raw[field] as unknown[] | undefined)?.length ?? 0) - ((kept[field] as string[] | undefined)?.length ?? 0);
+    if (Array.isArray(raw[field]) && removed > 0) {
+      issues.push({ path: `${path} › ${field}`, kind: 'repaired', message: `${removed} invalid or extra entr${removed === 1 ? 'y' : 'ies'} removed` });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Validates a single wheel and its segments
+ *
+ * @returns The validated wheel, or null if it must be rejected
+ */
+function sanitizeWheel(raw: unknown, path: string, issues: ImportIssue[]): Wheel | null {
+  if (!raw || typeof raw !== 'object') {
+    issues.push({ path, kind: 'rejected', message: 'Not a valid opportunity' });
+    return null;
+  }
+
+  const wheel = raw as Record<string, unknown>;
+
+  if (!Array.isArray(wheel.segments)) {
+    issues.push({ path, kind: 'rejected', message: 'Opportunity has no considerations list' });
+    return null;
+  }
+
+  const rawName = typeof wheel.name === 'string' ? wheel.name : '';
+  const name = validateWheelName(rawName);
+  if (name !== rawName) {
+    issues.push({ path: `${path} › name`, kind: 'repaired', message: `Name changed to "${name}"` });
+  }
+
+  const rawColor = typeof wheel.color === 'string' ? wheel.color : '';
+  const color = validateColor(rawColor);
+  if (color !== rawColor) {
+    issues.push({ path: `${path} › color`, kind: 'repaired', message: `Color changed to ${color}` });
+  }
+
+  let rawSegments = wheel.segments;
+  if (rawSegments.length > APP_CONSTANTS.MAX_SEGMENTS) {
+    issues.push({
+      path,
+      kind: 'rejected',
+      message: `Only the first ${APP_CONSTANTS.MAX_SEGMENTS} of ${rawSegments.length} considerations were kept`
+    });
+    rawSegments = rawSegments.slice(0, APP_CONSTANTS.MAX_SEGMENTS);
+  }
+
+  const segments = rawSegments
+    .map((seg, index) => sanitizeSegment(seg, `${path} › Consideration ${index + 1}`, issues))
+    .filter((seg): seg is Segment => seg !== null);
+
+  if (segments.length < APP_CONSTANTS.MIN_SEGMENTS) {
+    issues.push({ path, kind: 'rejected', message: 'Opportunity has no valid considerations' });
+    return null;
+  }
+
+  return sanitizeNotes(
+    wheel,
+    'notes',
+    ['pros', 'cons', 'links'],
+    path,
+    issues,
+    changes => withWheelNotes({ id: typeof wheel.id === 'number' ? wheel.id : 0, name, color, segments }, changes)
+  );
+}
+
+/**
+ * Validates parsed import data
+ *
+ * Accepts either a bare Wheel[] (as earlier versions exported) or an object
+ * with a `wheels` array (such as a project from exportProjectToJSON).
+ *
+ * @param data - Parsed, untrusted JSON value
+ * @returns Valid wheels and a list of issues
+ * @throws Error if the data contains no usable wheels
+ */
+export function sanitizeImportedWheels(data: unknown): ImportResult {
+  const rawWheels = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { wheels?: unknown }).wheels)
+      ? (data as { wheels: unknown[] }).wheels
+      : null;
+
+  if (!rawWheels) {
+    if (data && typeof data === 'object' && Array.isArray((data as { projects?: unknown }).projects)) {
+      throw new Error('This is a whole-workspace backup; export a single decision to import it here');
+    }
+    throw new Error('File does not contain a list of opportunities');
+  }
+
+  const issues: ImportIssue[] = [];
+  let wheels = rawWheels
+    .map((wheel, index) => sanitizeWheel(wheel, `Opportunity ${index + 1}`, issues))
+    .filter((wheel): wheel is Wheel => wheel !== null);
+
+  if (wheels.length === 0) {
+    throw new Error('File contains no valid opportunities');
+  }
+
+  if (wheels.length > APP_CONSTANTS.MAX_WHEELS) {
+    wheels.slice(APP_CONSTANTS.MAX_WHEELS).forEach(wheel => {
+      issues.push({
+        path: wheel.name,
+        kind: 'rejected',
+        message: `Only ${APP_CONSTANTS.MAX_WHEELS} opportunities can be compared at once`
+      });
+    });
+    wheels = wheels.slice(0, APP_CONSTANTS.MAX_WHEELS);
+  }
+
+  return { wheels, issues };
+}
+
+/**
+ * Parses and validates the text of an exported JSON file
+ *
+ * @param text - File contents
+ * @returns Valid wheels and a list of issues
+ * @throws Error if the text is not valid JSON or contains no usable wheels
+ *
+ * @example
+ * parseWheelsJSON('[{"name":"A","color":"#FF0000","segments":[{"name":"Cost","value":12}]}]')
+ * // Returns: { wheels: [...], issues: [{ path: 'Opportunity 1 › Consideration 1 › value', ... }] }
+ */
+export function parseWheelsJSON(text: string): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  return sanitizeImportedWheels(data);
+}
+
+/** Footer rows written by wheelsToDelimited, skipped on import */
+const AVERAGE_ROW = /^(weighted )?average$/i;
+
+/**
+ * Parses and validates a considerations × opportunities table
+ *
+ * Expects a header row of opportunity names (the first cell is ignored),
+ * then one row per consideration with a rating in each opportunity's column.
+ * Blank cells mean the opportunity doesn't have that consideration. A
+ * trailing "Average" row is ignored.
+ *
+ * @param text - CSV or TSV text, e.g. pasted from Excel or Google Sheets
+ * @returns Valid wheels and a list of issues, including clamped ratings
+ * @throws Error if the table has no opportunities or considerations
+ *
+ * @example
+ * parseWheelsTable('Consideration,A,B\nCost,7,12\nTime,,4')
+ * // Returns: wheels A (Cost) and B (Cost, Time), with B's Cost clamped to 10
+ */
+export function parseWheelsTable(text: string): ImportResult {
+  const rows = parseDelimited(text);
+  if (rows.length < 2) {
+    throw new Error('Table needs a header row and at least one consideration');
+  }
+
+  const [header, ...body] = rows;
+  const dataRows = body.filter(row => !AVERAGE_ROW.test((row[0] ?? '').trim()));
+
+  // Opportunity columns, ignoring empty trailing columns some spreadsheets add
+  const columns = header
+    .map((name, index) => ({ name, index }))
+    .slice(1)
+    .filter(col => col.name.trim() !== '' || dataRows.some(row => (row[col.index] ?? '').trim() !== ''));
+
+  if (columns.length === 0) {
+    throw new Error('Table needs at least one opportunity column');
+  }
+
+  const rawWheels = columns.map((col, position) => ({
+    name: col.name.trim(),
+    color: APP_CONSTANTS.COLOR_PALETTE[position % APP_CONSTANTS.COLOR_PALETTE.length],
+    segments: dataRows
+      .filter(row => (row[col.index] ?? '').trim() !== '')
+      .map(row => {
+        const cell = row[col.index].trim();
+        const num = Number(cell);
+        return { name: (row[0] ?? '').trim(), value: isFinite(num) ? num : cell };
+      })
+  }));
+
+  return sanitizeImportedWheels(rawWheels);
+}
+
+/**
+ * Parses import text in any supported format
+ *
+ * Text starting with '[' or '{' is treated as JSON; anything else as a
+ * CSV/TSV table.
+ *
+ * @param text - File contents or pasted text
+ * @returns Valid wheels and a list of issues
+ * @throws Error if the text cannot be parsed or contains no usable wheels
+ */
+export function parseImportText(text: string): ImportResult {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed === '') {
+    throw new Error('Nothing to import');
+  }
+  return trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parseWheelsJSON(trimmed)
+    : parseWheelsTable(text);
+}
+
+/**
+ * Reads and validates an import file
+ *
+ * @param file - File selected by the user
+ * @returns Valid wheels and a list of issues
+ * @throws Error if the file is too large, unreadable or invalid
+ */
+export async function readWheelsFile(file: File): Promise<ImportResult> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new Error('File is larger than 1 MB');
+  }
+
+  let text: string;
+  try {
+    text = await file.text();
+  } catch {
+    throw new Error('File could not be read');
+  }
+
+  return parseImportText(text);
+}
+
+/**
+ * Combines imported wheels with the current ones
+ *
+ * Every imported wheel gets a fresh ID starting at nextWheelId, and its
+ * segments are renumbered from 1, so nothing can collide with existing data.
+ *
+ * @param current - Wheels currently in the app
+ * @param imported - Validated wheels from sanitizeImportedWheels
+ * @param nextWheelId - Current next wheel ID counter
+ * @param mode - Replace the current wheels or append to them
+ * @param wheelLimit - Most wheels the result may have
+ * @returns The combined wheels and updated ID counter
+ */
+export function applyImport(
+  current: Wheel[],
+  imported: Wheel[],
+  nextWheelId: number,
+  mode: ImportMode,
+  wheelLimit: number = APP_CONSTANTS.MAX_WHEELS
+): AppliedImport {
+  const base = mode === 'replace' ? [] : current;
+  const room = Math.max(0, wheelLimit - base.length);
+  const accepted = imported.slice(0, room);
+  const dropped = imported.slice(room).map(w => w.name);
+
+  const remapped = accepted.map((wheel, index) => ({
+    ...wheel,
+    id: nextWheelId + index,
+    segments: wheel.segments.map((seg, segIndex) => ({ ...seg, id: segIndex + 1 }))
+  }));
+
+  return {
+    wheels: [...base, ...remapped],
+    nextWheelId: nextWheelId + remapped.length,
+    dropped
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Keyboard Utilities
+ *
+ * The documented keyboard shortcuts, the rules for when they may fire, and
+ * the command list behind the command palette. Shortcuts never fire while
+ * the user is typing in a text field.
+ */
+
+/**
+ * An action offered in the command palette
+ */
+export interface PaletteCommand {
+  /** Unique identifier */
+  id: string;
+  /** What the command does, e.g. "Add opportunity" */
+  label: string;
+  /** Heading the command is listed under */
+  group: string;
+  /** Keyboard shortcut for the same action, as shown to the user */
+  shortcut?: string;
+  /** Extra words the search should match */
+  keywords?: string;
+  /** Why the command can't run right now; disabled commands are listed but can't be chosen */
+  disabledReason?: string;
+  /** Performs the command */
+  run: () => void;
+}
+
+/**
+ * A documented keyboard shortcut
+ */
+export interface ShortcutDescription {
+  /** Keys to press, e.g. ['Ctrl', 'K'] */
+  keys: string[];
+  /** What the shortcut does */
+  description: string;
+}
+
+/** Time allowed between typing "1" and "0" for a rating of 10, in ms */
+export const RATING_CHORD_DELAY = 800;
+
+/** Whether the modifier key for shortcuts is ⌘ (Apple platforms) or Ctrl */
+export const MODIFIER_LABEL =
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl';
+
+/** Every shortcut, grouped for the help overlay */
+export const SHORTCUTS: Array<{ group: string; shortcuts: ShortcutDescription[] }> = [
+  {
+    group: 'General',
+    shortcuts: [
+      { keys: [MODIFIER_LABEL, 'K'], description: 'Open the command palette' },
+      { keys: ['?'], description: 'Show these shortcuts' },
+      { keys: [MODIFIER_LABEL, 'Z'], description: 'Undo' },
+      { keys: [MODIFIER_LABEL, 'Shift', 'Z'], description: 'Redo' },
+      { keys: ['Esc'], description: 'Close a dialog or clear the selected consideration' }
+    ]
+  },
+  {
+    group: 'Moving around',
+    shortcuts: [
+      { keys: ['J'], description: 'Next consideration' },
+      { keys: ['K'], description: 'Previous consideration' },
+      { keys: [']'], description: 'Next opportunity' },
+      { keys: ['['], description: 'Previous opportunity' }
+    ]
+  },
+  {
+    group: 'Editing',
+    shortcuts: [
+      { keys: ['0', '–', '9'], description: 'Rate the selected consideration' },
+      { keys: ['1', '0'], description: 'Rate it 10 (type both quickly)' },
+      { keys: ['A'], description: 'Add a consideration to the selected opportunity' }
+    ]
+  }
+];
+
+/**
+ * Checks whether a key press happened while typing in a text field
+ *
+ * Text, number and other typed inputs, text areas, selects and editable
+ * content all count; sliders, checkboxes, color pickers and buttons don't.
+ *
+ * @param target - The event target
+ * @returns True when shortcuts should stay out of the way
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!target || typeof (target as HTMLElement).tagName !== 'string') {
+    return false;
+  }
+
+  const element = target as HTMLElement;
+  if (element.isContentEditable || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT') {
+    return true;
+  }
+  if (element.tagName === 'INPUT') {
+    const type = (element as HTMLInputElement).type;
+    return !['range', 'checkbox', 'radio', 'color', 'button', 'submit', 'reset', 'file'].includes(type);
+  }
+  return false;
+}
+
+/**
+ * Works out the rating meant by a digit key
+ *
+ * A "0" typed shortly after a "1" on the same consideration means 10;
+ * otherwise the digit is the rating.
+ *
+ * @param digit - Digit pressed (0-9)
+ * @param previous - The last digit pressed for the same consideration and when, if any
+ * @param now - Time of this key press in ms
+ * @returns Rating from 0 to 10
+ *
+ * @example
+ * ratingFromDigit(0, { digit: 1, time: 1000 }, 1300) // Returns: 10
+ * ratingFromDigit(0, null, 1300) // Returns: 0
+ */
+export function ratingFromDigit(
+  digit: number,
+  previous: { digit: number; time: number } | null,
+  now: number
+): number {
+  if (digit === 0 && previous?.digit === 1 && now - previous.time <= RATING_CHORD_DELAY) {
+    return 10;
+  }
+  return digit;
+}
+
+/**
+ * Filters commands by a search query
+ *
+ * Every word of the query must appear in the command's label, group or
+ * keywords; matches at the start of the label come first.
+ *
+ * @param commands - All commands
+ * @param query - What the user typed
+ * @returns Matching commands
+ *
+ * @example
+ * filterCommands(commands, 'exp csv') // Returns: [{ label: 'Export CSV table', … }]
+ */
+export function filterCommands(commands: PaletteCommand[], query: string): PaletteCommand[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return commands;
+  }
+
+  const matches = commands.filter(command => {
+    const haystack = `${command.label} ${command.group} ${command.keywords ?? ''}`.toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+  const startsWith = (command: PaletteCommand): boolean => command.label.toLowerCase().startsWith(words[0]);
+  return [...matches.filter(startsWith), ...matches.filter(c => !startsWith(c))];
+}
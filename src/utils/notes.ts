@@ -0,0 +1,180 @@
+/**
+ * Notes Utilities
+ *
+ * Helpers for the written context attached to a decision: each wheel's
+ * notes, pros, cons and reference links, and each consideration's rationale
+ * and links. Lists are edited as one entry per line; these functions turn
+ * that text into validated lists and back. Empty fields are left off the
+ * wheel and segment objects entirely, so exports stay lean.
+ */
+
+import { APP_CONSTANTS, Segment, Wheel } from '../types';
+import { validateLink, validateNote, validatePoint } from './validation';
+
+/**
+ * Result of parsing one-per-line text into a list
+ */
+export interface ParsedList {
+  /** Validated entries, in order */
+  items: string[];
+  /** Lines that were rejected as invalid */
+  rejected: string[];
+  /** Number of entries dropped for exceeding the limit */
+  dropped: number;
+}
+
+/** Written context of a wheel */
+export type WheelNotes = Pick<Wheel, 'notes' | 'pros' | 'cons' | 'links'>;
+
+/** Written context of a segment */
+export type SegmentNotes = Pick<Segment, 'rationale' | 'links'>;
+
+/**
+ * Parses one entry per line, validating each and capping the count
+ */
+function parseLines(text: string, validate: (line: string) => string | null, max: number): ParsedList {
+  const items: string[] = [];
+  const rejected: string[] = [];
+  let dropped = 0;
+
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return;
+    const item = validate(line);
+    if (!item) {
+      rejected.push(line.trim());
+    } else if (items.length >= max) {
+      dropped++;
+    } else if (!items.includes(item)) {
+      items.push(item);
+    }
+  });
+
+  return { items, rejected, dropped };
+}
+
+/**
+ * Parses pros or cons typed one per line
+ *
+ * @param text - Raw text
+ * @returns Up to MAX_POINTS sanitized points
+ *
+ * @example
+ * parsePoints('Short commute\n\nGarden').items // Returns: ['Short commute', 'Garden']
+ */
+export function parsePoints(text: string): ParsedList {
+  return parseLines(text, line => validatePoint(line) || null, APP_CONSTANTS.MAX_POINTS);
+}
+
+/**
+ * Parses reference links typed one per line
+ *
+ * @param text - Raw text
+ * @returns Up to MAX_LINKS web addresses; anything else is listed as rejected
+ *
+ * @example
+ * parseLinks('https://example.com\nnot a link') // Returns: { items: ['https://example.com/'], rejected: ['not a link'], dropped: 0 }
+ */
+export function parseLinks(text: string): ParsedList {
+  return parseLines(text, validateLink, APP_CONSTANTS.MAX_LINKS);
+}
+
+/**
+ * Explains which typed entries couldn't be kept
+ *
+ * @param parsed - Result of parsePoints or parseLinks
+ * @param field - Name of the list, e.g. 'links' or 'pros'
+ * @returns Message for the user, or null when everything was kept
+ */
+export function describeParseProblems(parsed: ParsedList, field: string): string | null {
+  const problems: string[] = [];
+  if (parsed.rejected.length > 0) {
+    problems.push(field === 'links'
+      ? `Not valid http(s) links: ${parsed.rejected.join(', ')}`
+      : `Left out ${field} with no text once cleaned up: ${parsed.rejected.join(', ')}`);
+  }
+  if (parsed.dropped > 0) {
+    problems.push(`Only the first ${parsed.items.length} ${field} were kept`);
+  }
+  return problems.length > 0 ? problems.join('\n') : null;
+}
+
+/**
+ * Formats a list for editing, one entry per line
+ */
+export function formatLines(items: string[] | undefined): string {
+  return (items ?? []).join('\n');
+}
+
+/**
+ * Short label for a link: its host and path without the protocol
+ *
+ * @example
+ * linkLabel('https://www.example.com/report?id=2') // Returns: 'example.com/report?id=2'
+ */
+export function linkLabel(link: string): string {
+  try {
+    const url = new URL(link);
+    const label = `${url.hostname.replace(/^www\./, '')}${url.pathname === '/' ? '' : url.pathname}${url.search}`;
+    return label.length > 60 ? `${label.slice(0, 57)}...` : label;
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * Checks whether a wheel has any notes, pros, cons or links
+ */
+export function hasWheelNotes(wheel: Wheel): boolean {
+  return !!wheel.notes || !!wheel.pros?.length || !!wheel.cons?.length || !!wheel.links?.length;
+}
+
+/**
+ * Checks whether a segment has a rationale or links
+ */
+export function hasSegmentNotes(segment: Segment): boolean {
+  return !!segment.rationale || !!segment.links?.length;
+}
+
+/**
+ * Applies notes to a wheel, validating them and dropping empty fields
+ *
+ * @param wheel - Wheel to update
+ * @param changes - Fields to set; empty strings and lists clear them
+ * @returns New wheel
+ */
+export function withWheelNotes(wheel: Wheel, changes: WheelNotes): Wheel {
+  const next: Wheel = { ...wheel, ...changes };
+  const notes = next.notes !== undefined ? validateNote(next.notes) : '';
+  const pros = (next.pros ?? []).map(validatePoint).filter(Boolean).slice(0, APP_CONSTANTS.MAX_POINTS);
+  const cons = (next.cons ?? []).map(validatePoint).filter(Boolean).slice(0, APP_CONSTANTS.MAX_POINTS);
+  const links = (next.links ?? []).map(validateLink).filter((link): link is string => !!link).slice(0, APP_CONSTANTS.MAX_LINKS);
+
+  const { notes: _notes, pros: _pros, cons: _cons, links: _links, ...rest } = next;
+  return {
+    ...rest,
+    ...(notes ? { notes } : {}),
+    ...(pros.length > 0 ? { pros } : {}),
+    ...(cons.length > 0 ? { cons } : {}),
+    ...(links.length > 0 ? { links } : {})
+  };
+}
+
+/**
+ * Applies a rationale and links to a segment, validating them and dropping empty fields
+ *
+ * @param segment - Segment to update
+ * @param changes - Fields to set; an empty string or list clears them
+ * @returns New segment
+ */
+export function withSegmentNotes(segment: Segment, changes: SegmentNotes): Segment {
+  const next: Segment = { ...segment, ...changes };
+  const rationale = next.rationale !== undefined ? validateNote(next.rationale) : '';
+  const links = (next.links ?? []).map(validateLink).filter((link): link is string => !!link).slice(0, APP_CONSTANTS.MAX_LINKS);
+
+  const { rationale: _rationale, links: _links, ...rest } = next;
+  return {
+    ...rest,
+    ...(rationale ? { rationale } : {}),
+    ...(links.length > 0 ? { links } : {})
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * Pairwise Weighting
+ *
+ * Derives importance weights from a questionnaire: for each pair of
+ * considerations the user says which matters more and by how much, on
+ * Saaty's 1-9 scale. The answers form a reciprocal comparison matrix whose
+ * priority vector (by principal eigenvector or row geometric mean) becomes
+ * the weights. Contradictory answers are flagged so they can be revisited
+ * before the weights are applied. The answers are kept with the project so
+ * AHP can weigh the considerations by them and the questionnaire can be
+ * reopened to edit them.
+ */
+
+import { AlignmentSettings, APP_CONSTANTS, CriteriaComparison, Wheel } from '../types';
+import { alignConsiderations } from './alignment';
+import { ahpPriorities, AHP_CONSISTENCY_LIMIT, consistencyRatio, findComparison } from './calculations';
+import { validateWeight } from './validation';
+
+/** How the comparison matrix is turned into priorities */
+export type PairwiseMethod = 'eigenvector' | 'geometric-mean';
+
+/**
+ * One question of the questionnaire
+ */
+export interface PairwiseQuestion {
+  /** Index of the first consideration */
+  first: number;
+  /** Index of the second consideration */
+  second: number;
+}
+
+/**
+ * Answer to a question, as how many times more the first consideration
+ * matters than the second: 1 is equal, 1/5 means the second matters
+ * strongly more. Null while unanswered.
+ */
+export type PairwiseAnswer = number | null;
+
+/**
+ * Three answers that contradict each other (A > B, B > C but C > A)
+ */
+export interface PairwiseCycle {
+  /** Consideration indexes in the order of the cycle */
+  members: [number, number, number];
+}
+
+/**
+ * Weights derived from the answers
+ */
+export interface PairwiseResult {
+  /** Priorities summing to 1, per consideration */
+  priorities: number[];
+  /** Priorities scaled to whole importance weights (the most important gets the maximum) */
+  weights: number[];
+  /** Saaty consistency ratio of the answers */
+  consistencyRatio: number;
+  /** Whether the ratio exceeds AHP_CONSISTENCY_LIMIT */
+  inconsistent: boolean;
+  /** Circular preferences among the answers */
+  cycles: PairwiseCycle[];
+  /** Question whose answer disagrees most with the derived weights, if any do */
+  worstQuestion: number | null;
+}
+
+/** Strengths offered for each answer, with their Saaty values */
+export const PAIRWISE_INTENSITIES = [
+  { value: 1, label: 'Equally' },
+  { value: 3, label: 'A little more' },
+  { value: 5, label: 'Clearly more' },
+  { value: 7, label: 'Much more' },
+  { value: 9, label: 'Overwhelmingly more' }
+] as const;
+
+/** Labels for the two methods */
+export const PAIRWISE_METHODS: Record<PairwiseMethod, { label: string; description: string }> = {
+  eigenvector: {
+    label: 'Eigenvector',
+    description: 'The principal eigenvector of the comparison matrix, as in AHP'
+  },
+  'geometric-mean': {
+    label: 'Geometric mean',
+    description: 'The geometric mean of each row of the comparison matrix'
+  }
+};
+
+/**
+ * Names of every consideration across the wheels, matched as the
+ * alignment settings describe
+ *
+ * @param wheels - Wheels of the decision
+ * @param settings - How considerations are matched across wheels
+ * @returns One name per distinct consideration
+ */
+export function pairwiseConsiderations(wheels: Wheel[], settings?: AlignmentSettings): string[] {
+  return alignConsiderations(wheels, settings).rows.map(row => row.name);
+}
+
+/**
+ * Every pair of considerations, in a fixed order
+ *
+ * @param count - Number of considerations
+ * @returns count × (count - 1) / 2 questions
+ */
+export function pairwiseQuestions(count: number): PairwiseQuestion[] {
+  const questions: PairwiseQuestion[] = [];
+  for (let first = 0; first < count; first++) {
+    for (let second = first + 1; second < count; second++) {
+      questions.push({ first, second });
+    }
+  }
+  return questions;
+}
+
+/**
+ * Answers to the questionnaire from saved comparisons
+ *
+ * @param names - Considerations being compared
+ * @param comparisons - Comparisons saved with the project
+ * @returns Answer per question of pairwiseQuestions(names.length); null where the pair wasn't compared
+ */
+export function answersFromComparisons(names: string[], comparisons: CriteriaComparison[]): PairwiseAnswer[] {
+  return pairwiseQuestions(names.length).map(question =>
+    findComparison(comparisons, names[question.first], names[question.second])
+  );
+}
+
+/**
+ * Saves questionnaire answers alongside earlier comparisons
+ *
+ * Comparisons of the pairs that were asked about are replaced by the new
+ * answers (or dropped if skipped); those of considerations no longer in the
+ * questionnaire are kept for when they come back.
+ *
+ * @param names - Considerations that were compared
+ * @param answers - Answer per question of pairwiseQuestions(names.length)
+ * @param existing - Comparisons saved with the project
+ * @returns Comparisons to save
+ */
+export function mergeComparisons(
+  names: string[],
+  answers: PairwiseAnswer[],
+  existing: CriteriaComparison[]
+): CriteriaComparison[] {
+  const questions = pairwiseQuestions(names.length);
+  const asked = (comparison: CriteriaComparison): boolean =>
+    questions.some(q => findComparison([comparison], names[q.first], names[q.second]) !== null);
+
+  const answered = questions.flatMap((question, index): CriteriaComparison[] => {
+    const value = answers[index];
+    return value === null || value === undefined
+      ? []
+      : [{ first: names[question.first], second: names[question.second], value }];
+  });
+
+  return [...existing.filter(comparison => !asked(comparison)), ...answered];
+}
+
+/**
+ * Builds the reciprocal comparison matrix from the answers
+ *
+ * Unanswered questions count as equal importance.
+ *
+ * @param count - Number of considerations
+ * @param questions - Questions as returned by pairwiseQuestions
+ * @param answers - Answer per question
+ * @returns Square matrix where matrix[i][j] says how much i matters over j
+ */
+export function buildPairwiseMatrix(
+  count: number,
+  questions: PairwiseQuestion[],
+  answers: PairwiseAnswer[]
+): number[][] {
+  const matrix = Array.from({ length: count }, () => new Array(count).fill(1));
+  questions.forEach((question, index) => {
+    const answer = answers[index];
+    if (answer !== null && answer !== undefined && answer > 0) {
+      matrix[question.first][question.second] = answer;
+      matrix[question.second][question.first] = 1 / answer;
+    }
+  });
+  return matrix;
+}
+
+/**
+ * Priority vector from the geometric mean of each row, normalised to sum to 1
+ *
+ * @example
+ * geometricMeanPriorities([[1, 3], [1 / 3, 1]]) // Returns: [0.75, 0.25]
+ */
+export function geometricMeanPriorities(matrix: number[][]): number[] {
+  const n = matrix.length;
+  if (n === 0) return [];
+
+  const means = matrix.map(row => Math.pow(row.reduce((acc, value) => acc * value, 1), 1 / n));
+  const total = means.reduce((acc, value) => acc + value, 0);
+  return means.map(value => value / total);
+}
+
+/**
+ * Scales priorities to whole importance weights
+ *
+ * The most important consideration gets MAX_WEIGHT and the rest keep their
+ * ratio to it as closely as whole numbers allow, never going below
+ * MIN_WEIGHT.
+ *
+ * @example
+ * prioritiesToWeights([0.5, 0.3, 0.2]) // Returns: [5, 3, 2]
+ */
+export function prioritiesToWeights(priorities: number[]): number[] {
+  const highest = Math.max(...priorities, 0);
+  if (highest === 0) {
+    return priorities.map(() => APP_CONSTANTS.DEFAULT_WEIGHT);
+  }
+  return priorities.map(p => validateWeight((p / highest) * APP_CONSTANTS.MAX_WEIGHT));
+}
+
+/**
+ * Finds circular preferences: triples where A beats B, B beats C and C beats A
+ *
+ * @param matrix - Reciprocal comparison matrix
+ * @returns Each cycle once
+ */
+export function findPairwiseCycles(matrix: number[][]): PairwiseCycle[] {
+  const n = matrix.length;
+  const beats = (a: number, b: number): boolean => matrix[a][b] > 1;
+  const cycles: PairwiseCycle[] = [];
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      for (let k = j + 1; k < n; k++) {
+        if (beats(i, j) && beats(j, k) && beats(k, i)) {
+          cycles.push({ members: [i, j, k] });
+        } else if (beats(i, k) && beats(k, j) && beats(j, i)) {
+          cycles.push({ members: [i, k, j] });
+        }
+      }
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Turns the answers into weights and checks them for consistency
+ *
+ * @param count - Number of considerations
+ * @param answers - Answer per question of pairwiseQuestions(count)
+ * @param method - How priorities are derived from the matrix
+ * @returns Priorities, weights and consistency findings
+ *
+ * @example
+ * derivePairwiseWeights(2, [3], 'eigenvector').weights // Returns: [5, 2]
+ */
+export function derivePairwiseWeights(
+  count: number,
+  answers: PairwiseAnswer[],
+  method: PairwiseMethod = 'eigenvector'
+): PairwiseResult {
+  const questions = pairwiseQuestions(count);
+  const matrix = buildPairwiseMatrix(count, questions, answers);
+  const priorities = method === 'geometric-mean' ? geometricMeanPriorities(matrix) : ahpPriorities(matrix);
+  const ratio = consistencyRatio(matrix);
+
+  // The answer furthest (on a log scale) from what the weights imply
+  let worstQuestion: number | null = null;
+  let worstDeviation = Math.log(2);
+  questions.forEach((question, index) => {
+    if (answers[index] === null || answers[index] === undefined) return;
+    const implied = priorities[question.first] / priorities[question.second];
+    const deviation = Math.abs(Math.log(matrix[question.first][question.second] / implied));
+    if (deviation > worstDeviation) {
+      worstDeviation = deviation;
+      worstQuestion = index;
+    }
+  });
+
+  return {
+    priorities,
+    weights: prioritiesToWeights(priorities),
+    consistencyRatio: ratio,
+    inconsistent: ratio > AHP_CONSISTENCY_LIMIT,
+    cycles: findPairwiseCycles(matrix),
+    worstQuestion
+  };
+}
+
+/**
+ * Gives every matching consideration in every wheel its new weight
+ *
+ * @param wheels - Wheels of the decision
+ * @param weights - Weight per consideration name, as listed by pairwiseConsiderations
+ * @param settings - How considerations are matched across wheels
+ * @returns Updated wheels; considerations without a weight are unchanged
+ */
+export function applyPairwiseWeights(
+  wheels: Wheel[],
+  weights: Map<string, number>,
+  settings?: AlignmentSettings
+): Wheel[] {
+  const bySegment = new Map<string, number>();
+  alignConsiderations(wheels, settings).rows.forEach(row => {
+    const weight = weights.get(row.name);
+    if (weight === undefined) return;
+    row.cells.forEach((cell, wheelIndex) => {
+      if (cell) bySegment.set(`${wheels[wheelIndex].id}-${cell.segment.id}`, validateWeight(weight));
+    });
+  });
+
+  return wheels.map(wheel => ({
+    ...wheel,
+    segments: wheel.segments.map(segment => {
+      const weight = bySegment.get(`${wheel.id}-${segment.id}`);
+      return weight === undefined ? segment : { ...segment, weight };
+    })
+  }));
+}
@@ -0,0 +1,606 @@
+/**
+ * PDF Report Builder
+ *
+ * Lays out a printable decision report with jsPDF, entirely client-side:
+ * - A title page with the decision name, description and opportunities
+ * - One page per wheel with its drawing and a table of ratings, followed by
+ *   its notes, pros, cons, links and rationales when it has any
+ * - A final page ranking the opportunities, naming the winner and adding the
+ *   "considerations don't match" caveat when it applies
+ *
+ * Wheels are drawn as vector shapes from the shared SVG layout engine, so the
+ * report matches the screen. The builder has no DOM dependencies.
+ *
+ * Note: jsPDF's built-in fonts only cover Latin-1; typographic quotes and
+ * dashes are simplified and other characters are replaced with '?'.
+ */
+
+import { GState, jsPDF } from 'jspdf';
+import { AlignmentSettings, CriteriaComparison, ScoringMethodId, Wheel } from '../types';
+import {
+  calculateAverage,
+  calculateWeightedAverage,
+  describeDealBreakers,
+  getDealBreakerFailures,
+  getHighestRatedWheels,
+  hasCustomWeights,
+  rankWheels,
+  SCORING_METHODS,
+  scoreWheels
+} from './calculations';
+import { alignConsiderations } from './alignment';
+import { hasSegmentNotes, hasWheelNotes } from './notes';
+import {
+  formatSegmentValue,
+  layoutWheel,
+  WHEEL_CENTER,
+  WHEEL_RADIUS,
+  WHEEL_SIZE,
+  WHEEL_STYLE,
+  WheelLayoutOptions
+} from './svgRenderer';
+
+/** Supported paper sizes */
+export type PdfPageSize = 'a4' | 'letter';
+
+/** Supported page orientations */
+export type PdfOrientation = 'portrait' | 'landscape';
+
+/**
+ * Options for the PDF report
+ */
+export interface PdfReportOptions extends WheelLayoutOptions {
+  /** Paper size (default A4) */
+  pageSize?: PdfPageSize;
+  /** Page orientation (default portrait) */
+  orientation?: PdfOrientation;
+  /** Optional description printed on the title page */
+  description?: string;
+  /** Date printed on the title page (default now) */
+  generatedAt?: Date;
+  /** How considerations are matched when checking they line up */
+  alignment?: AlignmentSettings;
+  /** Method used to rank the opportunities (default weighted sum) */
+  scoring?: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  comparisons?: CriteriaComparison[];
+}
+
+/** Page margin in millimetres */
+const MARGIN = 18;
+
+/** Point-to-millimetre factor for font sizes */
+const PT_TO_MM = 0.3528;
+
+const TEXT_DARK = '#111827';
+const TEXT_BODY = '#374151';
+const TEXT_MUTED = '#6b7280';
+const RULE_COLOR = '#e5e7eb';
+
+/**
+ * Replaces characters the built-in PDF fonts cannot show
+ */
+function pdfText(text: string): string {
+  return text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+/**
+ * Converts #rgb or #rrggbb to RGB components
+ */
+function hexToRgb(hex: string): [number, number, number] {
+  const digits = hex.replace('#', '');
+  const full = digits.length === 3 ? digits.split('').map(d => d + d).join('') : digits;
+  const value = parseInt(full, 16);
+  return Number.isNaN(value) ? [0, 0, 0] : [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function setFill(doc: jsPDF, hex: string): void {
+  doc.setFillColor(...hexToRgb(hex));
+}
+
+function setStroke(doc: jsPDF, hex: string): void {
+  doc.setDrawColor(...hexToRgb(hex));
+}
+
+function setTextColor(doc: jsPDF, hex: string): void {
+  doc.setTextColor(...hexToRgb(hex));
+}
+
+/**
+ * Builds path operations for a pie slice, approximating the arc with cubic
+ * Bézier curves of at most 90° each
+ *
+ * @param cx - Center x in page units
+ * @param cy - Center y in page units
+ * @param radius - Radius in page units
+ * @param startAngle - Start angle in radians
+ * @param endAngle - End angle in radians
+ * @returns Operations for jsPDF's path()
+ */
+function wedgeOps(
+  cx: number,
+  cy: number,
+  radius: number,
+  startAngle: number,
+  endAngle: number
+): Array<{ op: string; c: number[] }> {
+  const ops = [
+    { op: 'm', c: [cx, cy] },
+    { op: 'l', c: [cx + radius * Math.cos(startAngle), cy + radius * Math.sin(startAngle)] }
+  ];
+
+  const pieces = Math.max(1, Math.ceil((endAngle - startAngle) / (Math.PI / 2)));
+  const step = (endAngle - startAngle) / pieces;
+  const k = (4 / 3) * Math.tan(step / 4);
+
+  for (let i = 0; i < pieces; i++) {
+    const a0 = startAngle + i * step;
+    const a1 = a0 + step;
+    ops.push({
+      op: 'c',
+      c: [
+        cx + radius * (Math.cos(a0) - k * Math.sin(a0)),
+        cy + radius * (Math.sin(a0) + k * Math.cos(a0)),
+        cx + radius * (Math.cos(a1) + k * Math.sin(a1)),
+        cy + radius * (Math.sin(a1) - k * Math.cos(a1)),
+        cx + radius * Math.cos(a1),
+        cy + radius * Math.sin(a1)
+      ]
+    });
+  }
+
+  ops.push({ op: 'h', c: [] });
+  return ops;
+}
+
+/**
+ * Draws a wheel as vector shapes
+ *
+ * @param doc - Target document
+ * @param wheel - Wheel to draw
+ * @param x - Left edge of the drawing in page units
+ * @param y - Top edge of the drawing in page units
+ * @param size - Width and height of the drawing in page units
+ * @param options - Layout options
+ */
+function drawWheel(doc: jsPDF, wheel: Wheel, x: number, y: number, size: number, options: WheelLayoutOptions): void {
+  const scale = size / WHEEL_SIZE;
+  const cx = x + WHEEL_CENTER * scale;
+  const cy = y + WHEEL_CENTER * scale;
+  const wedges = layoutWheel(wheel, options);
+  const failed = new Set(getDealBreakerFailures(wheel).map(f => f.segmentId));
+
+  wedges.forEach(wedge => {
+    const segment = wheel.segments[wedge.index];
+    const isFailing = failed.has(segment.id);
+
+    // Outline
+    setStroke(doc, WHEEL_STYLE.outline);
+    doc.setLineWidth(2 * scale);
+    doc.path(wedgeOps(cx, cy, WHEEL_RADIUS * scale, wedge.startAngle, wedge.endAngle)).stroke();
+
+    // Filled portion based on rating
+    if (wedge.fillRadius > 0) {
+      doc.saveGraphicsState();
+      doc.setGState(new GState({ opacity: WHEEL_STYLE.fillOpacity }));
+      setFill(doc, wheel.color);
+      doc.path(wedgeOps(cx, cy, wedge.fillRadius * scale, wedge.startAngle, wedge.endAngle)).fill();
+      doc.restoreGraphicsState();
+    }
+
+    // Divider
+    setStroke(doc, WHEEL_STYLE.divider);
+    doc.setLineWidth(scale);
+    doc.line(x + wedge.divider.x1 * scale, y + wedge.divider.y1 * scale, x + wedge.divider.x2 * scale, y + wedge.divider.y2 * scale);
+
+    // Labels
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize((WHEEL_STYLE.labelFontSize * scale) / PT_TO_MM);
+    setTextColor(doc, WHEEL_STYLE.labelColor);
+    doc.text(pdfText(segment.name), x + wedge.label.x * scale, y + wedge.label.y * scale, {
+      align: 'center',
+      baseline: 'middle'
+    });
+
+    doc.setFont('helvetica', isFailing ? 'bold' : 'normal');
+    doc.setFontSize((WHEEL_STYLE.valueFontSize * scale) / PT_TO_MM);
+    setTextColor(doc, isFailing ? WHEEL_STYLE.dealBreaker : WHEEL_STYLE.valueColor);
+    doc.text(pdfText(formatSegmentValue(segment)), x + wedge.label.x * scale, y + (wedge.label.y + WHEEL_STYLE.valueOffset) * scale, {
+      align: 'center',
+      baseline: 'middle'
+    });
+  });
+
+  // Deal-breaker outlines on top of every wedge
+  wedges
+    .filter(wedge => failed.has(wheel.segments[wedge.index].id))
+    .forEach(wedge => {
+      setStroke(doc, WHEEL_STYLE.dealBreaker);
+      doc.setLineWidth(WHEEL_STYLE.dealBreakerWidth * scale);
+      doc.path(wedgeOps(cx, cy, WHEEL_RADIUS * scale, wedge.startAngle, wedge.endAngle)).stroke();
+    });
+
+  // Center decoration
+  setFill(doc, '#ffffff');
+  setStroke(doc, WHEEL_STYLE.divider);
+  doc.setLineWidth(2 * scale);
+  doc.circle(cx, cy, 8 * scale, 'FD');
+}
+
+/**
+ * Draws a table of the wheel's ratings
+ *
+ * @param doc - Target document
+ * @param wheel - Wheel whose segments are listed
+ * @param x - Left edge in page units
+ * @param y - Top edge in page units
+ * @param width - Table width in page units
+ * @param maxHeight - Height available in page units
+ * @param showWeights - Include the importance column
+ */
+function drawRatingsTable(
+  doc: jsPDF,
+  wheel: Wheel,
+  x: number,
+  y: number,
+  width: number,
+  maxHeight: number,
+  showWeights: boolean
+): void {
+  const rows = wheel.segments.length + 2;
+  const rowHeight = Math.min(8, maxHeight / rows);
+  const fontSize = Math.min(10, (rowHeight * 0.6) / PT_TO_MM);
+  const ratingX = x + width * (showWeights ? 0.62 : 0.8);
+  const weightX = x + width;
+
+  doc.setFontSize(fontSize);
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  setTextColor(doc, TEXT_MUTED);
+  doc.text('Consideration', x, y + rowHeight * 0.65);
+  doc.text('Rating', ratingX, y + rowHeight * 0.65, { align: 'right' });
+  if (showWeights) {
+    doc.text('Importance', weightX, y + rowHeight * 0.65, { align: 'right' });
+  }
+  setStroke(doc, TEXT_MUTED);
+  doc.setLineWidth(0.3);
+  doc.line(x, y + rowHeight, x + width, y + rowHeight);
+
+  // Rows
+  doc.setFont('helvetica', 'normal');
+  wheel.segments.forEach((segment, index) => {
+    const rowY = y + rowHeight * (index + 1);
+    const [name] = doc.splitTextToSize(pdfText(segment.name), width * 0.55) as string[];
+
+    setTextColor(doc, TEXT_BODY);
+    doc.text(name, x, rowY + rowHeight * 0.65);
+    if (segment.minimum !== undefined && segment.value < segment.minimum) {
+      setTextColor(doc, WHEEL_STYLE.dealBreaker);
+    }
+    doc.text(pdfText(`${formatSegmentValue(segment)} / 10`), ratingX, rowY + rowHeight * 0.65, { align: 'right' });
+    setTextColor(doc, TEXT_BODY);
+    if (showWeights) {
+      doc.text(`${segment.weight} / 5`, weightX, rowY + rowHeight * 0.65, { align: 'right' });
+    }
+
+    setStroke(doc, RULE_COLOR);
+    doc.setLineWidth(0.2);
+    doc.line(x, rowY + rowHeight, x + width, rowY + rowHeight);
+  });
+
+  // Average
+  const footerY = y + rowHeight * (wheel.segments.length + 1);
+  doc.setFont('helvetica', 'bold');
+  setTextColor(doc, TEXT_DARK);
+  doc.text(showWeights ? 'Weighted average' : 'Average', x, footerY + rowHeight * 0.65);
+  doc.text(`${calculateWeightedAverage(wheel).toFixed(1)} / 10`, ratingX, footerY + rowHeight * 0.65, { align: 'right' });
+}
+
+/**
+ * Writes a wheel's notes, pros, cons, links and each consideration's
+ * rationale, starting on a new page and continuing onto more as needed
+ *
+ * @param doc - Target document
+ * @param wheel - Wheel whose notes are written
+ */
+function drawNotesPages(doc: jsPDF, wheel: Wheel): void {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = doc.internal.pageSize.getWidth() - MARGIN * 2;
+  const bottom = pageHeight - MARGIN - 4;
+  const lineHeight = 5;
+
+  doc.addPage();
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  setTextColor(doc, TEXT_DARK);
+  doc.text(pdfText(`${wheel.name} - Notes`), MARGIN, MARGIN + 4);
+  let y = MARGIN + 14;
+
+  /** Writes wrapped text, moving to a new page when it would run off this one */
+  const write = (text: string, indent = 0, color = TEXT_BODY, style: 'normal' | 'bold' = 'normal'): void => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(10);
+    setTextColor(doc, color);
+    text.split('\n').flatMap(part => doc.splitTextToSize(pdfText(part), contentWidth - indent) as string[]).forEach(line => {
+      if (y > bottom) {
+        doc.addPage();
+        y = MARGIN + 4;
+      }
+      doc.text(line, MARGIN + indent, y);
+      y += lineHeight;
+    });
+  };
+
+  const heading = (text: string): void => {
+    if (y + lineHeight * 2 > bottom) {
+      doc.addPage();
+      y = MARGIN + 4;
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    setTextColor(doc, TEXT_DARK);
+    doc.text(pdfText(text), MARGIN, y);
+    y += lineHeight + 1;
+  };
+
+  const list = (title: string, items: string[] | undefined): void => {
+    if (!items?.length) return;
+    heading(title);
+    items.forEach(item => write(`- ${item}`, 2));
+    y += 3;
+  };
+
+  if (wheel.notes) {
+    heading('Notes');
+    write(wheel.notes);
+    y += 3;
+  }
+  list('Pros', wheel.pros);
+  list('Cons', wheel.cons);
+  list('Links', wheel.links);
+
+  const explained = wheel.segments.filter(hasSegmentNotes);
+  if (explained.length > 0) {
+    heading('Rationale');
+    explained.forEach(segment => {
+      write(`${segment.name} (${formatSegmentValue(segment)} / 10)`, 0, TEXT_BODY, 'bold');
+      if (segment.rationale) {
+        write(segment.rationale, 4);
+      }
+      segment.links?.forEach(link => write(link, 4, TEXT_MUTED));
+      y += 2;
+    });
+  }
+}
+
+/**
+ * Writes page numbers on every page
+ */
+function drawPageNumbers(doc: jsPDF, title: string): void {
+  const pageCount = doc.getNumberOfPages();
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    setTextColor(doc, TEXT_MUTED);
+    doc.text(pdfText(title), MARGIN, height - MARGIN / 2);
+    doc.text(`Page ${page} of ${pageCount}`, width - MARGIN, height - MARGIN / 2, { align: 'right' });
+  }
+}
+
+/**
+ * Builds a multi-page PDF report for a decision
+ *
+ * @param title - Decision name for the title page and footers
+ * @param wheels - Wheels to report on
+ * @param options - Paper, orientation and layout options
+ * @returns The jsPDF document, ready to save or convert to a Blob
+ *
+ * @example
+ * const doc = buildPdfReport('Office move', wheels, { pageSize: 'letter', orientation: 'landscape' });
+ * doc.save('office-move.pdf');
+ */
+export function buildPdfReport(title: string, wheels: Wheel[], options: PdfReportOptions = {}): jsPDF {
+  const { pageSize = 'a4', orientation = 'portrait', description = '', generatedAt = new Date() } = options;
+  const doc = new jsPDF({ unit: 'mm', format: pageSize, orientation });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const weighted = hasCustomWeights(wheels);
+
+  doc.setProperties({ title: pdfText(title), subject: 'Decision report' });
+
+  // Title page
+  let y = pageHeight * 0.3;
+  const contentBottom = pageHeight - MARGIN - 4;
+
+  /** Moves to a new page when the next `height` mm would run off this one */
+  const ensureSpace = (height: number): void => {
+    if (y + height > contentBottom) {
+      doc.addPage();
+      y = MARGIN + 4;
+    }
+  };
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  setTextColor(doc, TEXT_DARK);
+  const titleLines = doc.splitTextToSize(pdfText(title), contentWidth) as string[];
+  doc.text(titleLines, pageWidth / 2, y, { align: 'center' });
+  y += titleLines.length * 12;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  setTextColor(doc, TEXT_MUTED);
+  doc.text(`Decision report - ${generatedAt.toLocaleDateString()}`, pageWidth / 2, y, { align: 'center' });
+  y += 12;
+
+  if (description.trim()) {
+    setTextColor(doc, TEXT_BODY);
+    const lines = doc.splitTextToSize(pdfText(description.trim()), contentWidth * 0.8) as string[];
+    doc.text(lines, pageWidth / 2, y, { align: 'center' });
+    y += lines.length * 5 + 8;
+  }
+
+  doc.setFontSize(12);
+  wheels.forEach(wheel => {
+    ensureSpace(2);
+    const label = pdfText(`${wheel.name} (${wheel.segments.length} considerations)`);
+    const labelWidth = doc.getTextWidth(label);
+    const left = (pageWidth - labelWidth) / 2;
+    setFill(doc, wheel.color);
+    doc.circle(left - 5, y - 1.3, 2, 'F');
+    setTextColor(doc, TEXT_BODY);
+    doc.text(label, left, y);
+    y += 8;
+  });
+
+  // One page per wheel
+  wheels.forEach(wheel => {
+    doc.addPage();
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(20);
+    setTextColor(doc, TEXT_DARK);
+    doc.text(pdfText(wheel.name), MARGIN, MARGIN + 4);
+
+    const top = MARGIN + 12;
+    const bottom = pageHeight - MARGIN - 4;
+
+    if (orientation === 'landscape') {
+      const size = Math.min(contentWidth * 0.55, bottom - top);
+      drawWheel(doc, wheel, MARGIN, top, size, options);
+      const tableX = MARGIN + size + 8;
+      drawRatingsTable(doc, wheel, tableX, top, pageWidth - MARGIN - tableX, bottom - top, weighted);
+    } else {
+      const size = Math.min(contentWidth, (bottom - top) * 0.55);
+      drawWheel(doc, wheel, (pageWidth - size) / 2, top, size, options);
+      drawRatingsTable(doc, wheel, MARGIN, top + size + 6, contentWidth, bottom - top - size - 6, weighted);
+    }
+
+    if (hasWheelNotes(wheel) || wheel.segments.some(hasSegmentNotes)) {
+      drawNotesPages(doc, wheel);
+    }
+  });
+
+  // Ranking page
+  doc.addPage();
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  setTextColor(doc, TEXT_DARK);
+  doc.text('Overall Comparison', MARGIN, MARGIN + 4);
+  y = MARGIN + 12;
+
+  const result = scoreWheels(wheels, options.scoring, options.alignment, options.comparisons);
+  const method = SCORING_METHODS[result.method];
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  setTextColor(doc, TEXT_MUTED);
+  doc.text(pdfText(`Ranked by ${method.label} (${method.scoreLabel})${weighted ? ', weighted by importance' : ''}`), MARGIN, y);
+  y += 8;
+
+  // Same order as the app: qualifying wheels by score, then the disqualified
+  const ranked = rankWheels(wheels, result.scores).map(index => ({ wheel: wheels[index], avg: result.scores[index] }));
+
+  ranked.forEach(({ wheel, avg }, index) => {
+    // The score bar hangs 9mm below the name
+    ensureSpace(9);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    setTextColor(doc, TEXT_BODY);
+    const label = getDealBreakerFailures(wheel).length > 0 ? `${wheel.name} (disqualified)` : wheel.name;
+    doc.text(pdfText(`${index + 1}. ${label}`), MARGIN, y);
+
+    const score = weighted && result.method === 'weighted-sum'
+      ? `${method.formatScore(avg)} (simple avg ${calculateAverage(wheel).toFixed(1)})`
+      : method.formatScore(avg);
+    setTextColor(doc, TEXT_DARK);
+    doc.text(score, pageWidth - MARGIN, y, { align: 'right' });
+
+    setFill(doc, RULE_COLOR);
+    doc.roundedRect(MARGIN, y + 2, contentWidth, 7, 3.5, 3.5, 'F');
+    if (avg > 0) {
+      setFill(doc, wheel.color);
+      doc.roundedRect(MARGIN, y + 2, Math.max(7, (contentWidth * avg) / 10), 7, 3.5, 3.5, 'F');
+    }
+    y += 18;
+  });
+
+  // Winner
+  const winners = getHighestRatedWheels(wheels, options.scoring, options.alignment, options.comparisons);
+  y += 4;
+  ensureSpace(12);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  setTextColor(doc, TEXT_DARK);
+  if (winners.length === 1) {
+    // Disqualified wheels aren't in the running, so the lead is over the best qualifier
+    const qualified = ranked.filter(r => getDealBreakerFailures(r.wheel).length === 0);
+    const margin = qualified.length > 1 ? qualified[0].avg - qualified[1].avg : 0;
+    const lead = result.method === 'weighted-sum' ? `${margin.toFixed(1)} points ahead of` : 'ahead of';
+    const outscored = ranked.some(r => r.avg > qualified[0].avg);
+    const verdict = outscored
+      ? `${winners[0].name} is the highest-scoring opportunity that meets every must-have`
+      : `${winners[0].name} scores highest`;
+    const text = qualified.length > 1 ? `${verdict}, ${lead} ${qualified[1].wheel.name}` : verdict;
+    doc.text(doc.splitTextToSize(pdfText(text), contentWidth) as string[], MARGIN, y);
+  } else if (winners.length === 0) {
+    doc.text('No opportunity meets every must-have minimum', MARGIN, y);
+  } else if (winners.length > 1) {
+    doc.text(
+      doc.splitTextToSize(pdfText(`Tied at the top: ${winners.map(w => w.name).join(', ')}`), contentWidth) as string[],
+      MARGIN,
+      y
+    );
+  }
+  y += 14;
+
+  // Caveat
+  if (!alignConsiderations(wheels, options.alignment).aligned) {
+    const caveat =
+      "Note: The considerations don't match across all opportunities. This comparison is based on the " +
+      "average rating of each opportunity's own considerations, not a direct side-by-side comparison of the same factors.";
+    const lines = doc.splitTextToSize(caveat, contentWidth - 8) as string[];
+    const boxHeight = lines.length * 5 + 6;
+    ensureSpace(boxHeight);
+
+    setFill(doc, '#fffbeb');
+    setStroke(doc, '#fde68a');
+    doc.setLineWidth(0.3);
+    doc.rect(MARGIN, y, contentWidth, boxHeight, 'FD');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    setTextColor(doc, '#92400e');
+    doc.text(lines, MARGIN + 4, y + 6);
+    y += boxHeight + 6;
+  }
+
+  // Disqualifications and caveats from the scoring method
+  const dealBreakerNotes = wheels
+    .map(wheel => ({ wheel, failures: getDealBreakerFailures(wheel) }))
+    .filter(({ failures }) => failures.length > 0)
+    .map(({ wheel, failures }) => `${wheel.name} is disqualified: ${describeDealBreakers(failures)}.`);
+  const notes = [...dealBreakerNotes, ...result.notes];
+  if (notes.length > 0) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    setTextColor(doc, TEXT_MUTED);
+    notes.forEach(note => {
+      const lines = doc.splitTextToSize(pdfText(note), contentWidth) as string[];
+      ensureSpace(lines.length * 5);
+      doc.text(lines, MARGIN, y);
+      y += lines.length * 5 + 2;
+    });
+  }
+
+  drawPageNumbers(doc, title);
+  return doc;
+}
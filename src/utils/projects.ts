@@ -0,0 +1,105 @@
+/**
+ * Project Utilities
+ *
+ * Pure functions for creating and updating decision projects in the
+ * workspace. None of these mutate their inputs.
+ */
+
+import { Project, Wheel } from '../types';
+import { validateDescription, validateProjectName } from './validation';
+import { DEFAULT_GROUP_SETTINGS } from './group';
+
+/**
+ * Generates a unique project ID
+ *
+ * Uses crypto.randomUUID where available and falls back to a
+ * timestamp/random combination in older browsers.
+ */
+export function generateProjectId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Creates a new project
+ *
+ * @param name - Project name (will be validated)
+ * @param wheels - Initial wheels
+ * @param nextWheelId - ID for the next wheel; defaults to one past the highest wheel ID
+ * @returns The new project
+ *
+ * @example
+ * createProject('Vendor Selection', wheels) // Returns: { id: '…', name: 'Vendor Selection', … }
+ */
+export function createProject(name: string, wheels: Wheel[], nextWheelId?: number): Project {
+  const now = new Date().toISOString();
+  return {
+    id: generateProjectId(),
+    name: validateProjectName(name),
+    description: '',
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+    wheels,
+    nextWheelId: nextWheelId ?? Math.max(0, ...wheels.map(w => w.id)) + 1,
+    group: DEFAULT_GROUP_SETTINGS,
+    snapshots: [],
+    criteriaComparisons: []
+  };
+}
+
+/**
+ * Creates a copy of a project under a new ID
+ *
+ * @param project - Project to copy
+ * @returns An unarchived copy named "<name> (copy)"
+ */
+export function duplicateProject(project: Project): Project {
+  const copy = createProject(`${project.name} (copy)`, structuredClone(project.wheels), project.nextWheelId);
+  return {
+    ...copy,
+    description: project.description,
+    group: structuredClone(project.group),
+    snapshots: structuredClone(project.snapshots),
+    criteriaComparisons: structuredClone(project.criteriaComparisons)
+  };
+}
+
+/**
+ * Applies changes to one project and stamps its updatedAt time
+ *
+ * @param projects - All projects
+ * @param projectId - ID of the project to change
+ * @param changes - Fields to update
+ * @returns New projects array
+ */
+export function updateProject(
+  projects: Project[],
+  projectId: string,
+  changes: Partial<Omit<Project, 'id' | 'createdAt' | 'updatedAt'>>
+): Project[] {
+  const updatedAt = new Date().toISOString();
+  return projects.map(p => {
+    if (p.id !== projectId) return p;
+
+    const next: Project = { ...p, ...changes, updatedAt };
+    if (changes.name !== undefined) next.name = validateProjectName(changes.name);
+    if (changes.description !== undefined) next.description = validateDescription(changes.description);
+    return next;
+  });
+}
+
+/**
+ * Picks the project to open when the given one is no longer available
+ *
+ * @param projects - Remaining projects
+ * @returns ID of the most recently updated unarchived project, or null
+ */
+export function pickFallbackProjectId(projects: Project[]): string | null {
+  const candidates = projects
+    .filter(p => !p.archived)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  return candidates[0]?.id ?? null;
+}
@@ -0,0 +1,376 @@
+/**
+ * Sensitivity Analysis
+ *
+ * Answers "what would it take to change the winner?". Every rating (and,
+ * when weights are in use, every weight) is nudged one step at a time until
+ * the set of top-rated wheels changes, which gives the smallest single edit
+ * that flips or ties the ranking. A tornado analysis shows how far each
+ * factor can swing the leader's margin across its full range.
+ *
+ * Every whole value on the scale is tried, nearest first, so the search is
+ * exhaustive rather than approximate. Group ratings can be fractional (a
+ * mean of 6.5, say), so the candidates are the whole values rather than
+ * steps from the current one, which keeps the scale ends among them.
+ * Winners are decided with the selected scoring method by the same rules as
+ * getHighestRatedWheels, exactly as the rest of the app ranks them.
+ *
+ * A weighted sum scores each wheel on its own, so an edit only rescores the
+ * wheel it touches and every wheel can be searched cheaply. TOPSIS and AHP
+ * compare wheels with each other, so every edit rescores them all; their
+ * search is limited to the leader and the runner-up, and the report lists
+ * which wheels were searched so the verdict can say so.
+ */
+
+import { AlignmentSettings, APP_CONSTANTS, CriteriaComparison, ScoringMethodId, Segment, Wheel } from '../types';
+import { hasCustomWeights, highestScoringWheels, isDisqualified, rankWheels, scoreWheels, weightedScore } from './calculations';
+
+/** What is being changed */
+export type SensitivityKind = 'rating' | 'weight';
+
+/** How robust the current winner is */
+export type SensitivityVerdict = 'no-winner' | 'tied' | 'knife-edge' | 'sensitive' | 'robust';
+
+/**
+ * A single edit that changes who is top-rated
+ */
+export interface WinnerChange {
+  /** Wheel whose segment is edited */
+  wheelId: number;
+  /** Segment being edited */
+  segmentId: number;
+  /** Name of the consideration */
+  consideration: string;
+  /** Whether the rating or the weight changes */
+  kind: SensitivityKind;
+  /** Current value */
+  from: number;
+  /** Value that changes the outcome */
+  to: number;
+  /** Whether a new wheel wins outright, the top spot becomes shared, or no wheel qualifies any more */
+  outcome: 'flip' | 'tie' | 'no-winner';
+  /** IDs of the top-rated wheels after the edit */
+  winners: number[];
+}
+
+/**
+ * The smallest outcome-changing edits for one consideration of one wheel
+ */
+export interface ConsiderationSensitivity {
+  wheelId: number;
+  segmentId: number;
+  consideration: string;
+  /** Smallest rating change, or null if no rating changes the winner */
+  rating: WinnerChange | null;
+  /** Smallest weight change, or null if none does (or weights aren't in use) */
+  weight: WinnerChange | null;
+}
+
+/**
+ * One bar of the tornado chart
+ *
+ * Margins are the leader's score minus the best rival's, so a negative
+ * value means the current leader would lose.
+ */
+export interface TornadoBar {
+  wheelId: number;
+  segmentId: number;
+  consideration: string;
+  kind: SensitivityKind;
+  /** Leader's margin with this factor at its least favourable extreme */
+  low: number;
+  /** Leader's margin with this factor at its most favourable extreme */
+  high: number;
+  /** high - low */
+  swing: number;
+}
+
+/**
+ * Complete sensitivity analysis of a decision
+ */
+export interface SensitivityReport {
+  /** IDs of the current top-rated wheels */
+  winners: number[];
+  /** Current leader's margin over the best rival (0 when tied) */
+  margin: number;
+  /** IDs of the wheels whose ratings and weights were searched */
+  searched: number[];
+  /** Smallest winner-changing edits, one entry per segment of every searched wheel */
+  considerations: ConsiderationSensitivity[];
+  /** Tornado bars, largest swing first */
+  tornado: TornadoBar[];
+  /** The smallest edit overall, relative to each scale, or null if nothing single-handedly changes the winner */
+  closest: WinnerChange | null;
+  /** Plain-language robustness */
+  verdict: SensitivityVerdict;
+}
+
+/**
+ * Verdict thresholds, as a fraction of the edited scale
+ *
+ * A winner that falls to a 1-point rating change is knife-edge; one that
+ * survives any change of less than 3 points is robust.
+ */
+export const SENSITIVITY_THRESHOLDS = {
+  knifeEdge: 0.1,
+  robust: 0.3
+} as const;
+
+/**
+ * Range of a rating or weight
+ */
+function scaleOf(kind: SensitivityKind): { min: number; max: number } {
+  return kind === 'rating'
+    ? { min: APP_CONSTANTS.MIN_VALUE, max: APP_CONSTANTS.MAX_VALUE }
+    : { min: APP_CONSTANTS.MIN_WEIGHT, max: APP_CONSTANTS.MAX_WEIGHT };
+}
+
+/**
+ * Size of a change as a fraction of its scale, so ratings and weights compare fairly
+ *
+ * @param change - Edit to measure
+ * @returns Value between 0 and 1
+ */
+export function relativeChange(change: WinnerChange): number {
+  const { min, max } = scaleOf(change.kind);
+  return Math.abs(change.to - change.from) / (max - min);
+}
+
+/**
+ * How wheels are scored while searching
+ */
+interface ScoringContext {
+  method: ScoringMethodId;
+  alignment?: AlignmentSettings;
+  comparisons?: CriteriaComparison[];
+  /** Scores of the unedited wheels */
+  scores: number[];
+  /** Whether each unedited wheel fails a must-have */
+  disqualified: boolean[];
+}
+
+/**
+ * Scores and must-have status of every wheel after one edit
+ */
+interface EditOutcome {
+  scores: number[];
+  disqualified: boolean[];
+}
+
+/**
+ * Works out the outcome of replacing one segment's rating or weight
+ *
+ * Only the edited wheel is rechecked against its must-haves. A weighted sum
+ * rescores just that wheel; TOPSIS and AHP rescore them all.
+ *
+ * @param wheels - Wheels being compared, unedited
+ * @param wheelIndex - Index of the wheel being edited
+ * @param segment - Segment being edited
+ * @param kind - Whether the rating or the weight changes
+ * @param value - New rating or weight
+ * @param scoring - Scoring method and the unedited outcome
+ */
+function outcomeOf(
+  wheels: Wheel[],
+  wheelIndex: number,
+  segment: Segment,
+  kind: SensitivityKind,
+  value: number,
+  scoring: ScoringContext
+): EditOutcome {
+  const field: keyof Pick<Segment, 'value' | 'weight'> = kind === 'rating' ? 'value' : 'weight';
+  const wheel = wheels[wheelIndex];
+  const edited: Wheel = {
+    ...wheel,
+    segments: wheel.segments.map(seg => (seg.id === segment.id ? { ...seg, [field]: value } : seg))
+  };
+  const disqualified = scoring.disqualified.map((flag, index) => (index === wheelIndex ? isDisqualified(edited) : flag));
+
+  if (scoring.method === 'weighted-sum') {
+    return {
+      scores: scoring.scores.map((score, index) => (index === wheelIndex ? weightedScore(edited) : score)),
+      disqualified
+    };
+  }
+
+  const editedWheels = wheels.map((w, index) => (index === wheelIndex ? edited : w));
+  return {
+    scores: scoreWheels(editedWheels, scoring.method, scoring.alignment, scoring.comparisons).scores,
+    disqualified
+  };
+}
+
+/**
+ * Leader's unrounded score minus the best of the qualifying rest
+ */
+function marginOf(outcome: EditOutcome, leaderIndex: number): number {
+  const rivals = outcome.scores.filter((_, index) => index !== leaderIndex && !outcome.disqualified[index]);
+  if (leaderIndex === -1 || rivals.length === 0) return 0;
+  return outcome.scores[leaderIndex] - Math.max(...rivals);
+}
+
+/**
+ * IDs of the top-rated wheels, sorted for comparison
+ */
+function winnerIds(wheels: Wheel[], outcome: EditOutcome): number[] {
+  return highestScoringWheels(wheels, outcome.scores, outcome.disqualified).map(w => w.id).sort((a, b) => a - b);
+}
+
+/**
+ * Finds the smallest change to one segment that changes the winners
+ *
+ * Tries the whole values of the scale nearest first (upwards before
+ * downwards at equal distance), so the first hit is the smallest.
+ */
+function smallestChange(
+  wheels: Wheel[],
+  wheelIndex: number,
+  segment: Segment,
+  kind: SensitivityKind,
+  current: number[],
+  scoring: ScoringContext
+): WinnerChange | null {
+  const { min, max } = scaleOf(kind);
+  const from = kind === 'rating' ? segment.value : segment.weight;
+  const wheel = wheels[wheelIndex];
+
+  const candidates = Array.from({ length: max - min + 1 }, (_, i) => min + i)
+    .filter(to => to !== from)
+    .sort((a, b) => Math.abs(a - from) - Math.abs(b - from) || b - a);
+
+  for (const to of candidates) {
+    const winners = winnerIds(wheels, outcomeOf(wheels, wheelIndex, segment, kind, to, scoring));
+    if (winners.join(',') !== current.join(',')) {
+      return {
+        wheelId: wheel.id,
+        segmentId: segment.id,
+        consideration: segment.name,
+        kind,
+        from,
+        to,
+        outcome: winners.length === 0 ? 'no-winner' : winners.length > 1 ? 'tie' : 'flip',
+        winners
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Analyzes how fragile the current winner is
+ *
+ * @param wheels - Wheels being compared
+ * @param method - Scoring method that decides the winner
+ * @param alignment - How considerations are matched for TOPSIS and AHP
+ * @param comparisons - The user's pairwise judgements of the considerations, for AHP
+ * @returns Report, or null when there are fewer than two wheels
+ *
+ * @example
+ * const report = analyzeSensitivity(wheels);
+ * report?.verdict // 'robust'
+ * report?.closest // { consideration: 'Commute', from: 6, to: 9, outcome: 'flip', ... }
+ */
+export function analyzeSensitivity(
+  wheels: Wheel[],
+  method: ScoringMethodId = 'weighted-sum',
+  alignment?: AlignmentSettings,
+  comparisons?: CriteriaComparison[]
+): SensitivityReport | null {
+  if (wheels.length < 2) {
+    return null;
+  }
+
+  const { scores } = scoreWheels(wheels, method, alignment, comparisons);
+  const scoring: ScoringContext = { method, alignment, comparisons, scores, disqualified: wheels.map(isDisqualified) };
+  const winners = winnerIds(wheels, scoring);
+  const leaderIndex = wheels.findIndex(w => w.id === winners[0]);
+  const includeWeights = hasCustomWeights(wheels);
+  const margin = winners.length === 1 ? marginOf(scoring, leaderIndex) : 0;
+
+  const considerations: ConsiderationSensitivity[] = [];
+  const tornado: TornadoBar[] = [];
+  const kinds: SensitivityKind[] = includeWeights ? ['rating', 'weight'] : ['rating'];
+
+  // Every wheel for a weighted sum; the top two otherwise (see above)
+  const searched = method === 'weighted-sum'
+    ? wheels.map((_, index) => index)
+    : rankWheels(wheels, scores).slice(0, 2);
+
+  searched.forEach(wheelIndex => {
+    const wheel = wheels[wheelIndex];
+    wheel.segments.forEach(segment => {
+      considerations.push({
+        wheelId: wheel.id,
+        segmentId: segment.id,
+        consideration: segment.name,
+        rating: smallestChange(wheels, wheelIndex, segment, 'rating', winners, scoring),
+        weight: includeWeights ? smallestChange(wheels, wheelIndex, segment, 'weight', winners, scoring) : null
+      });
+
+      // Without a leader there is no lead to swing
+      if (winners.length === 0) return;
+
+      kinds.forEach(kind => {
+        const { min, max } = scaleOf(kind);
+        const marginAt = (value: number): number =>
+          marginOf(outcomeOf(wheels, wheelIndex, segment, kind, value, scoring), leaderIndex);
+        const atMin = marginAt(min);
+        const atMax = marginAt(max);
+        const low = Math.min(atMin, atMax);
+        const high = Math.max(atMin, atMax);
+        tornado.push({ wheelId: wheel.id, segmentId: segment.id, consideration: segment.name, kind, low, high, swing: high - low });
+      });
+    });
+  });
+
+  tornado.sort((a, b) => b.swing - a.swing);
+
+  let closest: WinnerChange | null = null;
+  for (const entry of considerations) {
+    for (const change of [entry.rating, entry.weight]) {
+      if (change && (!closest || relativeChange(change) < relativeChange(closest))) {
+        closest = change;
+      }
+    }
+  }
+
+  let verdict: SensitivityVerdict;
+  if (winners.length === 0) {
+    verdict = 'no-winner';
+  } else if (winners.length > 1) {
+    verdict = 'tied';
+  } else if (!closest || relativeChange(closest) >= SENSITIVITY_THRESHOLDS.robust) {
+    verdict = 'robust';
+  } else if (relativeChange(closest) <= SENSITIVITY_THRESHOLDS.knifeEdge) {
+    verdict = 'knife-edge';
+  } else {
+    verdict = 'sensitive';
+  }
+
+  return { winners, margin, searched: searched.map(index => wheels[index].id), considerations, tornado, closest, verdict };
+}
+
+/**
+ * Describes a winner-changing edit in plain language
+ *
+ * @param change - Edit to describe
+ * @param wheels - Wheels, for names
+ * @returns Sentence such as "Raising Flat's Location from 6 to 8 would make Flat the winner"
+ */
+export function describeWinnerChange(change: WinnerChange, wheels: Wheel[]): string {
+  const name = (id: number): string => wheels.find(w => w.id === id)?.name ?? '';
+  const verb = change.to > change.from ? 'Raising' : 'Lowering';
+  const subject = `${name(change.wheelId)}'s ${change.consideration}`;
+  const what = change.kind === 'rating' ? subject : `the weight of ${subject}`;
+  const names = change.winners.map(name);
+  let result: string;
+  if (change.outcome === 'no-winner') {
+    result = 'would leave no opportunity meeting every must-have';
+  } else if (change.outcome === 'tie') {
+    result = `would tie ${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  } else {
+    result = `would make ${names[0]} the winner`;
+  }
+
+  return `${verb} ${what} from ${change.from} to ${change.to} ${result}`;
+}
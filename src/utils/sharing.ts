@@ -0,0 +1,249 @@
+/**
+ * Share Link Utilities
+ *
+ * Encodes a decision into the URL fragment so it can be sent as a link, and
+ * decodes such links back into wheels. The fragment never reaches a server.
+ *
+ * Link format: #share=<version>.<codec>.<payload>
+ * - version: SHARE_FORMAT_VERSION, bumped if the compact layout changes
+ * - codec: 'd' for deflate-raw, 'j' for plain JSON (browsers without CompressionStream)
+ * - payload: base64url-encoded bytes
+ *
+ * Security measures:
+ * - Payload and decompressed sizes are capped before parsing
+ * - Decoded data goes through sanitizeImportedWheels, i.e. the same
+ *   validators used for direct user input
+ */
+
+import { Wheel } from '../types';
+import { applyImport, ImportIssue, MAX_IMPORT_FILE_SIZE, sanitizeImportedWheels } from './imports';
+import { validateProjectName } from './validation';
+
+/** Current version of the share link format */
+export const SHARE_FORMAT_VERSION = 1;
+
+/** Fragment key that marks a share link */
+const SHARE_KEY = 'share=';
+
+/** Maximum accepted encoded payload length (characters) */
+const MAX_PAYLOAD_LENGTH = 64 * 1024;
+
+/**
+ * Compact wheel layout used in links: [name, color, [[name, value, weight, minimum?, low?, high?], ...]]
+ *
+ * The must-have minimum and uncertainty range are only present when set, so
+ * older links still decode. A range without a minimum stores null in its place.
+ */
+type CompactSegment =
+  | [string, number, number]
+  | [string, number, number, number]
+  | [string, number, number, number | null, number, number];
+type CompactWheel = [string, string, CompactSegment[]];
+
+/**
+ * Compact decision layout used in links
+ */
+interface CompactDecision {
+  /** Decision title */
+  t: string;
+  /** Wheels */
+  w: CompactWheel[];
+}
+
+/**
+ * A decision decoded from a share link
+ */
+export interface SharedDecision {
+  /** Title of the shared decision */
+  title: string;
+  /** Validated wheels with fresh IDs */
+  wheels: Wheel[];
+  /** Fields that were rejected or repaired while decoding */
+  issues: ImportIssue[];
+}
+
+/**
+ * Encodes bytes as base64url without padding
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes base64url (with or without padding) into bytes
+ */
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/**
+ * Reads a stream into a single byte array, stopping at a size limit
+ *
+ * @throws Error if the stream produces more than maxBytes
+ */
+async function readStream(stream: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error('Shared decision is too large');
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
+
+/**
+ * Whether the browser can compress links
+ */
+function supportsCompression(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/**
+ * Encodes a decision as a share fragment (without the leading '#')
+ *
+ * @param title - Decision title
+ * @param wheels - Wheels to share
+ * @returns Fragment such as 'share=1.d.q1ZKzs8tyM9LzSlWsoo21...'
+ *
+ * @example
+ * const fragment = await encodeShareFragment('Office Move', wheels);
+ * const url = buildShareUrl(fragment);
+ */
+export async function encodeShareFragment(title: string, wheels: Wheel[]): Promise<string> {
+  const compact: CompactDecision = {
+    t: title,
+    w: wheels.map(wheel => [
+      wheel.name,
+      wheel.color,
+      wheel.segments.map((seg): CompactSegment => {
+        if (seg.range) return [seg.name, seg.value, seg.weight, seg.minimum ?? null, seg.range.low, seg.range.high];
+        return seg.minimum !== undefined ? [seg.name, seg.value, seg.weight, seg.minimum] : [seg.name, seg.value, seg.weight];
+      })
+    ])
+  };
+
+  const bytes = new TextEncoder().encode(JSON.stringify(compact));
+
+  if (!supportsCompression()) {
+    return `${SHARE_KEY}${SHARE_FORMAT_VERSION}.j.${toBase64Url(bytes)}`;
+  }
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const compressed = await readStream(stream, MAX_IMPORT_FILE_SIZE);
+
+  return `${SHARE_KEY}${SHARE_FORMAT_VERSION}.d.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Builds a full share URL for the current page
+ *
+ * @param fragment - Fragment from encodeShareFragment
+ * @returns Absolute URL
+ */
+export function buildShareUrl(fragment: string): string {
+  return `${window.location.origin}${window.location.pathname}#${fragment}`;
+}
+
+/**
+ * Extracts a share fragment from a location hash
+ *
+ * @param hash - Value of window.location.hash
+ * @returns The fragment without '#', or null if the hash is not a share link
+ */
+export function getShareFragment(hash: string): string | null {
+  const fragment = hash.startsWith('#') ? hash.slice(1) : hash;
+  return fragment.startsWith(SHARE_KEY) ? fragment : null;
+}
+
+/**
+ * Decodes a share fragment into a validated decision
+ *
+ * @param fragment - Fragment from getShareFragment
+ * @returns Validated title and wheels
+ * @throws Error if the link is malformed, from an unknown version, or contains no valid wheels
+ */
+export async function decodeShareFragment(fragment: string): Promise<SharedDecision> {
+  const [version, codec, payload] = fragment.slice(SHARE_KEY.length).split('.');
+
+  if (Number(version) !== SHARE_FORMAT_VERSION) {
+    throw new Error('This link was made with a different version of the app');
+  }
+  if (!payload || payload.length > MAX_PAYLOAD_LENGTH) {
+    throw new Error('Share link is empty or too long');
+  }
+
+  let json: string;
+  try {
+    const bytes = fromBase64Url(payload);
+
+    if (codec === 'd') {
+      if (!supportsCompression()) {
+        throw new Error('This browser cannot open compressed links');
+      }
+      const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      json = new TextDecoder().decode(await readStream(stream, MAX_IMPORT_FILE_SIZE));
+    } else if (codec === 'j') {
+      json = new TextDecoder().decode(bytes);
+    } else {
+      throw new Error('Unknown share link encoding');
+    }
+  } catch (error) {
+    console.error('Share link decode error:', error);
+    throw new Error(error instanceof Error && error.message.startsWith('This browser')
+      ? error.message
+      : 'Share link is damaged or incomplete');
+  }
+
+  let compact: Partial<CompactDecision>;
+  try {
+    compact = JSON.parse(json);
+  } catch {
+    throw new Error('Share link is damaged or incomplete');
+  }
+
+  // Expand to the exported JSON shape so the standard import validation applies
+  const expanded = Array.isArray(compact.w)
+    ? compact.w.map(raw => {
+      const [name, color, segments] = Array.isArray(raw) ? raw : [];
+      return {
+        name,
+        color,
+        segments: Array.isArray(segments)
+          ? segments.map(seg => {
+            const [segName, value, weight, minimum, low, high] = Array.isArray(seg) ? seg : [];
+            return { name: segName, value, weight, minimum, range: low !== undefined ? { low, high } : undefined };
+          })
+          : segments
+      };
+    })
+    : null;
+
+  const { wheels, issues } = sanitizeImportedWheels(expanded);
+  const { wheels: remapped } = applyImport([], wheels, 1, 'replace');
+
+  return {
+    title: validateProjectName(typeof compact.t === 'string' ? compact.t : ''),
+    wheels: remapped,
+    issues
+  };
+}
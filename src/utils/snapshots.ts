@@ -0,0 +1,208 @@
+/**
+ * Decision Snapshots
+ *
+ * Named copies of a project's wheels, taken as the decision evolves (after
+ * a second viewing, a revised quote…), and the differences between any two
+ * of them: opportunities and considerations added, removed or renamed, and
+ * ratings that moved.
+ *
+ * Considerations are matched by segment ID first, so a renamed
+ * consideration is recognised as the same one, then by name as the
+ * alignment settings describe.
+ */
+
+import { AlignmentSettings, APP_CONSTANTS, DecisionSnapshot, Segment, Wheel } from '../types';
+import { alignConsiderations } from './alignment';
+import { validateSnapshotName } from './validation';
+
+/**
+ * A consideration whose name changed
+ */
+export interface RenamedConsideration {
+  /** Segment ID in the later wheel */
+  segmentId: number;
+  from: string;
+  to: string;
+}
+
+/**
+ * A consideration whose rating changed
+ */
+export interface RatingChange {
+  /** Segment ID in the later wheel */
+  segmentId: number;
+  /** Name in the later wheel */
+  name: string;
+  before: number;
+  after: number;
+  /** after - before */
+  delta: number;
+}
+
+/**
+ * How one opportunity changed between two snapshots
+ */
+export interface WheelDiff {
+  /** Wheel ID */
+  wheelId: number;
+  /** Name in the later snapshot, or the earlier one if it was removed */
+  name: string;
+  /** Color in the later snapshot, or the earlier one if it was removed */
+  color: string;
+  /** Whether the opportunity exists in only one of the two */
+  status: 'added' | 'removed' | 'kept';
+  /** Name in the earlier snapshot when it was renamed */
+  previousName?: string;
+  /** Considerations only in the later snapshot */
+  added: string[];
+  /** Considerations only in the earlier snapshot */
+  removed: string[];
+  /** Considerations that were renamed */
+  renamed: RenamedConsideration[];
+  /** Ratings that moved, largest change first */
+  changes: RatingChange[];
+  /** Earlier rating per segment ID of the later wheel, for every matched consideration */
+  previousValues: Map<number, number>;
+}
+
+/**
+ * Generates a unique snapshot ID
+ */
+function generateSnapshotId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `snapshot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Takes a snapshot of the wheels
+ *
+ * @param name - Snapshot name (will be validated)
+ * @param wheels - Wheels to copy
+ * @returns The new snapshot, holding a deep copy of the wheels
+ */
+export function createSnapshot(name: string, wheels: Wheel[]): DecisionSnapshot {
+  return {
+    id: generateSnapshotId(),
+    name: validateSnapshotName(name),
+    createdAt: new Date().toISOString(),
+    wheels: structuredClone(wheels)
+  };
+}
+
+/**
+ * Adds a snapshot to a project's list, dropping the oldest beyond the limit
+ *
+ * @param snapshots - Existing snapshots, oldest first
+ * @param snapshot - Snapshot to add
+ * @returns New list, at most MAX_SNAPSHOTS long
+ */
+export function addSnapshot(snapshots: DecisionSnapshot[], snapshot: DecisionSnapshot): DecisionSnapshot[] {
+  return [...snapshots, snapshot].slice(-APP_CONSTANTS.MAX_SNAPSHOTS);
+}
+
+/**
+ * Pairs up the considerations of two versions of a wheel
+ *
+ * @returns Matched [earlier, later] pairs and the unmatched segments of each
+ */
+function matchSegments(
+  before: Wheel,
+  after: Wheel,
+  settings?: AlignmentSettings
+): { pairs: Array<[Segment, Segment]>; removed: Segment[]; added: Segment[] } {
+  const pairs: Array<[Segment, Segment]> = [];
+  const afterById = new Map(after.segments.map(s => [s.id, s]));
+  const unmatchedBefore = before.segments.filter(s => {
+    const match = afterById.get(s.id);
+    if (!match) return true;
+    pairs.push([s, match]);
+    afterById.delete(s.id);
+    return false;
+  });
+  const unmatchedAfter = after.segments.filter(s => afterById.has(s.id));
+
+  // Segments recreated under new IDs are matched by name
+  const rows = alignConsiderations(
+    [{ ...before, segments: unmatchedBefore }, { ...after, segments: unmatchedAfter }],
+    settings
+  ).rows;
+  const removed: Segment[] = [];
+  const added: Segment[] = [];
+  rows.forEach(row => {
+    const [earlier, later] = row.cells;
+    if (earlier && later) pairs.push([earlier.segment, later.segment]);
+    else if (earlier) removed.push(earlier.segment);
+    else if (later) added.push(later.segment);
+  });
+
+  return { pairs, removed, added };
+}
+
+/**
+ * Compares two sets of wheels
+ *
+ * @param before - Earlier wheels
+ * @param after - Later wheels
+ * @param settings - How considerations recreated under new IDs are matched
+ * @returns One entry per opportunity in either set, later order first then removed ones
+ *
+ * @example
+ * diffWheels(snapshot.wheels, wheels)[0].changes
+ * // Returns: [{ segmentId: 2, name: 'Location', before: 5, after: 8, delta: 3 }]
+ */
+export function diffWheels(before: Wheel[], after: Wheel[], settings?: AlignmentSettings): WheelDiff[] {
+  const empty = { added: [], removed: [], renamed: [], changes: [], previousValues: new Map<number, number>() };
+
+  const kept = after.map((wheel): WheelDiff => {
+    const earlier = before.find(w => w.id === wheel.id);
+    if (!earlier) {
+      return { ...empty, wheelId: wheel.id, name: wheel.name, color: wheel.color, status: 'added', added: wheel.segments.map(s => s.name) };
+    }
+
+    const { pairs, removed, added } = matchSegments(earlier, wheel, settings);
+    return {
+      wheelId: wheel.id,
+      name: wheel.name,
+      color: wheel.color,
+      status: 'kept',
+      previousName: earlier.name !== wheel.name ? earlier.name : undefined,
+      added: added.map(s => s.name),
+      removed: removed.map(s => s.name),
+      renamed: pairs
+        .filter(([a, b]) => a.name !== b.name)
+        .map(([a, b]) => ({ segmentId: b.id, from: a.name, to: b.name })),
+      changes: pairs
+        .filter(([a, b]) => a.value !== b.value)
+        .map(([a, b]) => ({ segmentId: b.id, name: b.name, before: a.value, after: b.value, delta: b.value - a.value }))
+        .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta)),
+      previousValues: new Map(pairs.map(([a, b]) => [b.id, a.value]))
+    };
+  });
+
+  const gone = before
+    .filter(wheel => !after.some(w => w.id === wheel.id))
+    .map((wheel): WheelDiff => ({
+      ...empty,
+      wheelId: wheel.id,
+      name: wheel.name,
+      color: wheel.color,
+      status: 'removed',
+      removed: wheel.segments.map(s => s.name)
+    }));
+
+  return [...kept, ...gone];
+}
+
+/**
+ * Checks whether a wheel diff records any change
+ */
+export function hasWheelChanges(diff: WheelDiff): boolean {
+  return diff.status !== 'kept' ||
+    diff.previousName !== undefined ||
+    diff.added.length > 0 ||
+    diff.removed.length > 0 ||
+    diff.renamed.length > 0 ||
+    diff.changes.length > 0;
+}
@@ -0,0 +1,502 @@
+/**
+ * Persistence Utilities
+ *
+ * Saves and restores the application state in localStorage under a single
+ * versioned key. Older saved data is upgraded through a chain of migrations
+ * so changes to the Wheel/Segment shapes never strand a user's work.
+ *
+ * Failure handling:
+ * - Storage may be missing or blocked (e.g. some private browsing modes)
+ * - Writes may exceed the browser's quota
+ * - Saved data may be corrupt or from a newer app version
+ * None of these throw; callers receive a result object describing what happened.
+ */
+
+import { APP_CONSTANTS, PersistedAppState, Wheel } from '../types';
+import { createProject } from './projects';
+import { DEFAULT_ALIGNMENT_SETTINGS } from './alignment';
+import { SCORING_METHODS } from './calculations';
+import { AGGREGATION_METHODS, DEFAULT_GROUP_SETTINGS } from './group';
+
+/** Current version of the persisted data schema */
+export const STORAGE_SCHEMA_VERSION = 10;
+
+/**
+ * Envelope written to localStorage around the application state
+ */
+interface StoredEnvelope {
+  /** Schema version the state was written with */
+  version: number;
+  /** ISO timestamp of when the state was saved */
+  savedAt: string;
+  /** The application state itself */
+  state: unknown;
+}
+
+/**
+ * Outcome of loading saved state
+ */
+export type LoadResult =
+  | { status: 'loaded'; state: PersistedAppState; savedAt: Date; migratedFrom: number | null }
+  | { status: 'empty' }
+  | { status: 'error'; message: string };
+
+/**
+ * Outcome of saving state
+ */
+export type SaveResult =
+  | { ok: true; savedAt: Date }
+  | { ok: false; reason: 'quota' | 'unavailable' | 'unknown'; message: string };
+
+/**
+ * Upgrades saved state from one schema version to the next
+ */
+type Migration = (state: unknown) => unknown;
+
+/**
+ * Migrations keyed by the version they upgrade FROM
+ *
+ * When the shape of PersistedAppState changes, bump STORAGE_SCHEMA_VERSION
+ * and add an entry here that converts the previous version's state.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v0: a bare Wheel[], the format wheel-only JSON exports used
+  0: (state) => {
+    const wheels = Array.isArray(state) ? state : [];
+    const maxId = wheels.reduce(
+      (max: number, w: { id?: unknown }) => (typeof w?.id === 'number' ? Math.max(max, w.id) : max),
+      0
+    );
+    return {
+      wheels,
+      nextWheelId: maxId + 1,
+      selectedSegment: null,
+      useNumberSelector: false
+    };
+  },
+  // v1 → v2: segments gain an importance weight; wedge sizing preference added
+  1: (state) => {
+    const prev = state as { wheels?: Array<{ segments?: Array<Record<string, unknown>> }> };
+    return {
+      ...prev,
+      wheels: (prev.wheels ?? []).map(wheel => ({
+        ...wheel,
+        segments: (wheel.segments ?? []).map(seg => ({
+          ...seg,
+          weight: APP_CONSTANTS.DEFAULT_WEIGHT
+        }))
+      })),
+      weightedWedges: false
+    };
+  },
+  // v2 → v3: the single comparison becomes the first project in a workspace
+  2: (state) => {
+    const { wheels, nextWheelId, ...rest } = state as { wheels: Wheel[]; nextWheelId: number };
+    const project = createProject('My Decision', wheels, nextWheelId);
+    return { ...rest, projects: [project], activeProjectId: project.id };
+  },
+  // v3 → v4: configurable consideration matching (synonyms, fuzzy matching)
+  3: (state) => ({
+    ...(state as Record<string, unknown>),
+    alignment: DEFAULT_ALIGNMENT_SETTINGS
+  }),
+  // v4 → v5: selectable scoring method
+  4: (state) => ({
+    ...(state as Record<string, unknown>),
+    scoringMethod: 'weighted-sum'
+  }),
+  // v5 → v6: projects can be rated by a group
+  5: (state) => {
+    const prev = state as { projects?: Array<Record<string, unknown>> };
+    return {
+      ...prev,
+      projects: (prev.projects ?? []).map(project => ({ ...project, group: DEFAULT_GROUP_SETTINGS }))
+    };
+  },
+  // v6 → v7: user-defined consideration templates
+  6: (state) => ({
+    ...(state as Record<string, unknown>),
+    templates: []
+  }),
+  // v7 → v8: the three-opportunity cap becomes a setting
+  7: (state) => ({
+    ...(state as Record<string, unknown>),
+    wheelLimit: APP_CONSTANTS.DEFAULT_WHEEL_LIMIT
+  }),
+  // v8 → v9: projects keep named snapshots
+  8: (state) => {
+    const prev = state as { projects?: Array<Record<string, unknown>> };
+    return {
+      ...prev,
+      projects: (prev.projects ?? []).map(project => ({ ...project, snapshots: [] }))
+    };
+  },
+  // v9 → v10: projects remember the pairwise comparisons of their considerations
+  9: (state) => {
+    const prev = state as { projects?: Array<Record<string, unknown>> };
+    return {
+      ...prev,
+      projects: (prev.projects ?? []).map(project => ({ ...project, criteriaComparisons: [] }))
+    };
+  },
+};
+
+/**
+ * Returns localStorage if it can be used, or null
+ *
+ * Accessing localStorage can itself throw (e.g. when cookies are blocked),
+ * so the lookup is guarded.
+ */
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detects quota errors across browser implementations
+ */
+function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014
+  );
+}
+
+/**
+ * Checks that a value maps rater IDs to numeric ratings
+ */
+function isRatings(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(rating => typeof rating === 'number');
+}
+
+/**
+ * Checks that a value is an array of strings
+ */
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Checks that a value is a low/high rating range
+ */
+function isRatingRange(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const range = value as Record<string, unknown>;
+  return typeof range.low === 'number' && typeof range.high === 'number';
+}
+
+/**
+ * Checks that a value has the structure of a Wheel
+ */
+function isWheel(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const wheel = value as Record<string, unknown>;
+
+  return (
+    typeof wheel.id === 'number' &&
+    typeof wheel.name === 'string' &&
+    typeof wheel.color === 'string' &&
+    Array.isArray(wheel.segments) &&
+    wheel.segments.every((seg: Record<string, unknown>) =>
+      seg &&
+      typeof seg.id === 'number' &&
+      typeof seg.name === 'string' &&
+      typeof seg.value === 'number' &&
+      typeof seg.weight === 'number' &&
+      (seg.minimum === undefined || typeof seg.minimum === 'number') &&
+      (seg.ratings === undefined || isRatings(seg.ratings)) &&
+      (seg.range === undefined || isRatingRange(seg.range)) &&
+      (seg.rationale === undefined || typeof seg.rationale === 'string') &&
+      (seg.links === undefined || isStringList(seg.links))
+    ) &&
+    (wheel.notes === undefined || typeof wheel.notes === 'string') &&
+    [wheel.pros, wheel.cons, wheel.links].every(list => list === undefined || isStringList(list))
+  );
+}
+
+/**
+ * Checks that a value has the structure of AlignmentSettings
+ */
+function isAlignmentSettings(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const settings = value as Record<string, unknown>;
+
+  return (
+    typeof settings.fuzzyMatching === 'boolean' &&
+    typeof settings.fuzzyThreshold === 'number' &&
+    Array.isArray(settings.synonyms) &&
+    settings.synonyms.every(group => Array.isArray(group) && group.every(name => typeof name === 'string'))
+  );
+}
+
+/**
+ * Checks that a value has the structure of GroupSettings
+ */
+function isGroupSettings(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const group = value as Record<string, unknown>;
+
+  return (
+    typeof group.aggregation === 'string' &&
+    group.aggregation in AGGREGATION_METHODS &&
+    typeof group.blind === 'boolean' &&
+    Array.isArray(group.raters) &&
+    group.raters.every((rater: Record<string, unknown>) =>
+      rater &&
+      typeof rater.id === 'string' &&
+      typeof rater.name === 'string' &&
+      typeof rater.submitted === 'boolean'
+    )
+  );
+}
+
+/**
+ * Checks that a value has the structure of a ConsiderationTemplate
+ */
+function isTemplate(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const template = value as Record<string, unknown>;
+
+  return (
+    typeof template.id === 'string' &&
+    typeof template.name === 'string' &&
+    typeof template.description === 'string' &&
+    Array.isArray(template.considerations) &&
+    template.considerations.every((c: Record<string, unknown>) =>
+      c &&
+      typeof c.name === 'string' &&
+      (c.weight === undefined || typeof c.weight === 'number') &&
+      (c.description === undefined || typeof c.description === 'string')
+    )
+  );
+}
+
+/**
+ * Checks that a value has the structure of a DecisionSnapshot
+ */
+function isSnapshot(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const snapshot = value as Record<string, unknown>;
+
+  return (
+    typeof snapshot.id === 'string' &&
+    typeof snapshot.name === 'string' &&
+    typeof snapshot.createdAt === 'string' &&
+    Array.isArray(snapshot.wheels) &&
+    snapshot.wheels.every(isWheel)
+  );
+}
+
+/**
+ * Checks that a value has the structure of a CriteriaComparison
+ */
+function isCriteriaComparison(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const comparison = value as Record<string, unknown>;
+
+  return (
+    typeof comparison.first === 'string' &&
+    typeof comparison.second === 'string' &&
+    typeof comparison.value === 'number' &&
+    comparison.value > 0
+  );
+}
+
+/**
+ * Checks that a value has the structure of PersistedAppState
+ */
+function isPersistedAppState(value: unknown): value is PersistedAppState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const state = value as Record<string, unknown>;
+
+  if (
+    !Array.isArray(state.projects) ||
+    state.projects.length === 0 ||
+    typeof state.activeProjectId !== 'string' ||
+    typeof state.weightedWedges !== 'boolean' ||
+    !isAlignmentSettings(state.alignment) ||
+    !(typeof state.scoringMethod === 'string' && state.scoringMethod in SCORING_METHODS) ||
+    !Array.isArray(state.templates) ||
+    !state.templates.every(isTemplate) ||
+    typeof state.wheelLimit !== 'number'
+  ) {
+    return false;
+  }
+
+  const projectsValid = state.projects.every(project =>
+    project &&
+    typeof project.id === 'string' &&
+    typeof project.name === 'string' &&
+    typeof project.description === 'string' &&
+    typeof project.createdAt === 'string' &&
+    typeof project.updatedAt === 'string' &&
+    typeof project.archived === 'boolean' &&
+    typeof project.nextWheelId === 'number' &&
+    isGroupSettings(project.group) &&
+    Array.isArray(project.wheels) &&
+    project.wheels.every(isWheel) &&
+    Array.isArray(project.snapshots) &&
+    project.snapshots.every(isSnapshot) &&
+    Array.isArray(project.criteriaComparisons) &&
+    project.criteriaComparisons.every(isCriteriaComparison)
+  );
+
+  return projectsValid && state.projects.some(p => p.id === state.activeProjectId);
+}
+
+/**
+ * Runs migrations until the state reaches the current schema version
+ *
+ * @param version - Version the state was saved with
+ * @param state - Saved state
+ * @returns Migrated state
+ * @throws Error if a migration step is missing
+ */
+function migrate(version: number, state: unknown): unknown {
+  let current = state;
+  for (let v = version; v < STORAGE_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) {
+      throw new Error(`No migration from schema version ${v}`);
+    }
+    current = step(current);
+  }
+  return current;
+}
+
+/**
+ * Loads the saved application state
+ *
+ * @returns Result describing the loaded state, an empty store, or an error
+ *
+ * @example
+ * const result = loadAppState();
+ * if (result.status === 'loaded') setWheels(result.state.wheels);
+ */
+export function loadAppState(): LoadResult {
+  const storage = getStorage();
+  if (!storage) {
+    return { status: 'error', message: 'Browser storage is unavailable; changes will not be saved' };
+  }
+
+  try {
+    const raw = storage.getItem(APP_CONSTANTS.STORAGE_KEY);
+    if (raw === null) {
+      return { status: 'empty' };
+    }
+
+    const parsed: unknown = JSON.parse(raw);
+
+    // Legacy data without an envelope is treated as version 0
+    const envelope: StoredEnvelope = Array.isArray(parsed)
+      ? { version: 0, savedAt: new Date().toISOString(), state: parsed }
+      : parsed as StoredEnvelope;
+
+    if (typeof envelope.version !== 'number') {
+      throw new Error('Saved data has no schema version');
+    }
+
+    if (envelope.version > STORAGE_SCHEMA_VERSION) {
+      return { status: 'error', message: 'Saved data is from a newer version of the app' };
+    }
+
+    const state = migrate(envelope.version, envelope.state);
+    if (!isPersistedAppState(state)) {
+      throw new Error('Saved data has an invalid structure');
+    }
+
+    const savedAt = new Date(envelope.savedAt);
+
+    return {
+      status: 'loaded',
+      state,
+      savedAt: isNaN(savedAt.getTime()) ? new Date() : savedAt,
+      migratedFrom: envelope.version === STORAGE_SCHEMA_VERSION ? null : envelope.version
+    };
+  } catch (error) {
+    console.error('Load error:', error);
+    return { status: 'error', message: 'Saved data could not be read and was ignored' };
+  }
+}
+
+/**
+ * Saves the application state
+ *
+ * @param state - State to persist
+ * @returns Result with the save time, or the reason saving failed
+ */
+export function saveAppState(state: PersistedAppState): SaveResult {
+  const storage = getStorage();
+  if (!storage) {
+    return { ok: false, reason: 'unavailable', message: 'Browser storage is unavailable; changes will not be saved' };
+  }
+
+  const savedAt = new Date();
+  const envelope: StoredEnvelope = {
+    version: STORAGE_SCHEMA_VERSION,
+    savedAt: savedAt.toISOString(),
+    state
+  };
+
+  try {
+    storage.setItem(APP_CONSTANTS.STORAGE_KEY, JSON.stringify(envelope));
+    return { ok: true, savedAt };
+  } catch (error) {
+    console.error('Save error:', error);
+
+    if (isQuotaExceededError(error)) {
+      return { ok: false, reason: 'quota', message: 'Storage is full; recent changes were not saved' };
+    }
+    return { ok: false, reason: 'unknown', message: 'Changes could not be saved' };
+  }
+}
+
+/**
+ * Removes all saved application data
+ *
+ * @returns true if the data was removed (or storage is unavailable and there is nothing to remove)
+ */
+export function clearAppState(): boolean {
+  const storage = getStorage();
+  if (!storage) {
+    return true;
+  }
+
+  try {
+    storage.removeItem(APP_CONSTANTS.STORAGE_KEY);
+    return true;
+  } catch (error) {
+    console.error('Clear error:', error);
+    return false;
+  }
+}
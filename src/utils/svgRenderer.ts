@@ -0,0 +1,773 @@
+/**
+ * SVG Rendering Engine
+ *
+ * Pure, DOM-independent layout and rendering of decision wheels and the
+ * radar chart. The same geometry drives the on-screen CircleWheel and
+ * RadarChart, the export preview and every exporter, so downloaded files
+ * always match what is shown in the app and can be produced headless
+ * (tests, Node scripts).
+ *
+ * Rendering happens in two steps:
+ * 1. Build a lightweight SvgNode tree from wheels and layout options
+ * 2. Serialize the tree to markup with serializeSvg
+ *
+ * Security measures:
+ * - All text content and attribute values are XML-escaped on serialization,
+ *   so wheel and segment names can never inject markup
+ */
+
+import { AlignmentSettings, CriteriaComparison, ScoringMethodId, Segment, Wheel } from '../types';
+import { getDealBreakerFailures, hasCustomWeights, isDisqualified, SCORING_METHODS, scoreWheels } from './calculations';
+import { AlignmentReport, alignConsiderations } from './alignment';
+
+/**
+ * A node in a rendered SVG tree
+ */
+export interface SvgNode {
+  /** Element name, e.g. 'g' or 'path' */
+  tag: string;
+  /** Attributes in SVG (kebab-case) spelling */
+  attrs: Record<string, string | number>;
+  /** Child elements and text content */
+  children: Array<SvgNode | string>;
+}
+
+/**
+ * Geometry of one wedge of a wheel
+ */
+export interface WedgeLayout {
+  /** Index of the segment within the wheel */
+  index: number;
+  /** Start angle in radians, measured from 3 o'clock */
+  startAngle: number;
+  /** End angle in radians */
+  endAngle: number;
+  /** Path of the full wedge outline */
+  outlinePath: string;
+  /** Path of the filled portion (empty when the rating is 0) */
+  fillPath: string;
+  /** Radius of the filled portion */
+  fillRadius: number;
+  /** Band between the low and high estimates (empty without a range) */
+  rangePath: string;
+  /** Divider line from the center to the start of the wedge */
+  divider: { x1: number; y1: number; x2: number; y2: number };
+  /** Anchor point for the name label; the value sits below it */
+  label: { x: number; y: number };
+}
+
+/**
+ * One axis of the radar chart: a consideration every wheel shares
+ */
+export interface RadarAxis {
+  /** Consideration name */
+  name: string;
+  /** Angle in radians, measured from 3 o'clock */
+  angle: number;
+  /** Each wheel's segment on this axis, by wheel index */
+  segments: Segment[];
+  /** Outer end of the axis line */
+  end: { x: number; y: number };
+  /** Label position and horizontal alignment */
+  label: { x: number; y: number; anchor: 'start' | 'middle' | 'end' };
+}
+
+/**
+ * One wheel's polygon on the radar chart
+ */
+export interface RadarPolygon {
+  /** Index of the wheel */
+  wheelIndex: number;
+  /** Vertex per axis, with the rating it represents */
+  points: Array<{ x: number; y: number; value: number }>;
+  /** SVG points attribute for the polygon */
+  pointsAttr: string;
+}
+
+/**
+ * Geometry of the radar chart
+ */
+export interface RadarLayout {
+  /** Axes in drawing order, clockwise from 12 o'clock */
+  axes: RadarAxis[];
+  /** Concentric grid rings, as polygon points, with their rating */
+  rings: Array<{ value: number; pointsAttr: string }>;
+  /** One polygon per wheel */
+  polygons: RadarPolygon[];
+  /** Number of considerations left out because not every wheel has them */
+  omitted: number;
+}
+
+/**
+ * Options shared by all wheel renderers
+ */
+export interface WheelLayoutOptions {
+  /** Size wedges in proportion to segment weight instead of equally */
+  proportionalAngles?: boolean;
+}
+
+/**
+ * Options for rendering a complete decision
+ */
+export interface DecisionSvgOptions extends WheelLayoutOptions {
+  /** Include the overall comparison bars below the wheels (default true) */
+  includeComparison?: boolean;
+  /** Background fill, or null for a transparent background (default white) */
+  background?: string | null;
+  /** Include the radar chart of all wheels when they share enough considerations (default true) */
+  includeRadar?: boolean;
+  /** How considerations are matched for the radar chart and scoring */
+  alignment?: AlignmentSettings;
+  /** Method used to score the comparison bars (default weighted sum) */
+  scoring?: ScoringMethodId;
+  /** The user's pairwise judgements of the considerations, for AHP */
+  comparisons?: CriteriaComparison[];
+}
+
+/** Width and height of a single wheel drawing */
+export const WHEEL_SIZE = 440;
+
+/** Radius of a fully rated wedge */
+export const WHEEL_RADIUS = 140;
+
+/** Center of a wheel within its drawing */
+export const WHEEL_CENTER = WHEEL_SIZE / 2;
+
+/** Distance from the center to segment labels */
+const LABEL_DISTANCE = WHEEL_RADIUS + 30;
+
+/** Colors and type sizes used by wheel drawings */
+export const WHEEL_STYLE = {
+  outline: '#e5e7eb',
+  divider: '#9ca3af',
+  labelColor: '#374151',
+  labelColorSelected: '#111827',
+  valueColor: '#6b7280',
+  valueColorSelected: '#374151',
+  labelFontSize: 14,
+  valueFontSize: 12,
+  valueOffset: 16,
+  fillOpacity: 0.8,
+  dealBreaker: '#dc2626',
+  dealBreakerWidth: 3,
+  rangeOpacity: 0.25,
+  rangeDash: '4 3',
+  previous: '#111827',
+  previousDash: '6 4',
+  focus: '#2563eb',
+  increase: '#15803d',
+  decrease: '#b91c1c',
+  fontFamily: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif'
+} as const;
+
+/** Width and height of the radar chart drawing */
+export const RADAR_SIZE = 440;
+
+/** Center of the radar chart within its drawing */
+export const RADAR_CENTER = RADAR_SIZE / 2;
+
+/** Radius of a rating of 10 on the radar chart */
+export const RADAR_RADIUS = 150;
+
+/** Fewer axes than this don't make a meaningful radar chart */
+export const MIN_RADAR_AXES = 3;
+
+/** Colors used by the radar chart */
+export const RADAR_STYLE = {
+  grid: '#e5e7eb',
+  axis: '#d1d5db',
+  labelColor: '#374151',
+  labelFontSize: 13,
+  fillOpacity: 0.2,
+  strokeWidth: 2,
+  pointRadius: 4
+} as const;
+
+/** Layout of the combined decision drawing */
+const DOCUMENT_PADDING = 40;
+const WHEEL_GAP = 40;
+/** Wheels per row; more wrap onto further rows so the drawing stays a printable shape */
+const WHEEL_COLUMNS = 4;
+const COMPARISON_TITLE_HEIGHT = 40;
+const BAR_HEIGHT = 40;
+const BAR_ROW_HEIGHT = BAR_HEIGHT + 20;
+const RADAR_TITLE_HEIGHT = 40;
+const RADAR_LEGEND_HEIGHT = 40;
+const LEGEND_ROW_HEIGHT = 24;
+
+/**
+ * Escapes text for use in XML content or attribute values
+ *
+ * @param text - Raw text
+ * @returns Escaped text
+ *
+ * @example
+ * escapeXml('Cost <"A" & B>') // Returns: 'Cost &lt;&quot;A&quot; &amp; B&gt;'
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Creates an SvgNode
+ *
+ * @param tag - Element name
+ * @param attrs - Attributes
+ * @param children - Child nodes and text
+ * @returns The node
+ */
+export function svgNode(
+  tag: string,
+  attrs: Record<string, string | number> = {},
+  children: Array<SvgNode | string> = []
+): SvgNode {
+  return { tag, attrs, children };
+}
+
+/**
+ * Formats a number compactly for markup
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Serializes an SvgNode tree to markup
+ *
+ * @param node - Root node
+ * @returns SVG markup with all text and attributes escaped
+ *
+ * @example
+ * serializeSvg(svgNode('text', { x: 10 }, ['A & B'])) // Returns: '<text x="10">A &amp; B</text>'
+ */
+export function serializeSvg(node: SvgNode): string {
+  const attrs = Object.entries(node.attrs)
+    .map(([key, value]) => ` ${key}="${escapeXml(typeof value === 'number' ? formatNumber(value) : value)}"`)
+    .join('');
+
+  if (node.children.length === 0) {
+    return `<${node.tag}${attrs}/>`;
+  }
+
+  const children = node.children
+    .map(child => (typeof child === 'string' ? escapeXml(child) : serializeSvg(child)))
+    .join('');
+
+  return `<${node.tag}${attrs}>${children}</${node.tag}>`;
+}
+
+/**
+ * Builds a pie-slice path from the wheel center
+ *
+ * @param startAngle - Start angle in radians
+ * @param endAngle - End angle in radians
+ * @param radius - Outer radius
+ * @returns SVG path data, or an empty string for a zero radius
+ */
+function wedgePath(startAngle: number, endAngle: number, radius: number): string {
+  if (radius <= 0) return '';
+
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+  const x1 = WHEEL_CENTER + radius * Math.cos(startAngle);
+  const y1 = WHEEL_CENTER + radius * Math.sin(startAngle);
+  const x2 = WHEEL_CENTER + radius * Math.cos(endAngle);
+  const y2 = WHEEL_CENTER + radius * Math.sin(endAngle);
+
+  return `M ${WHEEL_CENTER} ${WHEEL_CENTER} L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z`;
+}
+
+/**
+ * Builds the path of a wedge between two radii
+ *
+ * @param startAngle - Start angle in radians
+ * @param endAngle - End angle in radians
+ * @param inner - Inner radius
+ * @param outer - Outer radius
+ * @returns SVG path data; a plain wedge when the inner radius is 0
+ */
+function bandPath(startAngle: number, endAngle: number, inner: number, outer: number): string {
+  if (outer <= inner) return '';
+  if (inner <= 0) return wedgePath(startAngle, endAngle, outer);
+
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+  const point = (radius: number, angle: number): string =>
+    `${WHEEL_CENTER + radius * Math.cos(angle)} ${WHEEL_CENTER + radius * Math.sin(angle)}`;
+
+  return `M ${point(inner, startAngle)} L ${point(outer, startAngle)} ` +
+    `A ${outer} ${outer} 0 ${largeArc} 1 ${point(outer, endAngle)} L ${point(inner, endAngle)} ` +
+    `A ${inner} ${inner} 0 ${largeArc} 0 ${point(inner, startAngle)} Z`;
+}
+
+/**
+ * Computes the geometry of every wedge in a wheel
+ *
+ * Wedges start at 12 o'clock and run clockwise. Each is either an equal
+ * share of the circle or, with proportionalAngles, a share proportional to
+ * the segment's weight. The filled radius scales with the rating (0-10);
+ * an uncertain rating also gets a band from its low to its high estimate.
+ *
+ * @param wheel - Wheel to lay out
+ * @param options - Layout options
+ * @returns One WedgeLayout per segment, in segment order
+ */
+export function layoutWheel(wheel: Wheel, options: WheelLayoutOptions = {}): WedgeLayout[] {
+  const shares = options.proportionalAngles
+    ? wheel.segments.map(s => s.weight)
+    : wheel.segments.map(() => 1);
+  const totalShare = shares.reduce((acc, share) => acc + share, 0) || 1;
+
+  // Start angle of each segment, plus the closing angle
+  const boundaries = shares.reduce<number[]>(
+    (acc, share) => [...acc, acc[acc.length - 1] + (share / totalShare) * 2 * Math.PI],
+    [-Math.PI / 2]
+  );
+
+  return wheel.segments.map((segment, index) => {
+    const startAngle = boundaries[index];
+    const endAngle = boundaries[index + 1];
+    const midAngle = (startAngle + endAngle) / 2;
+    const fillRadius = WHEEL_RADIUS * (segment.value / 10);
+
+    return {
+      index,
+      startAngle,
+      endAngle,
+      outlinePath: wedgePath(startAngle, endAngle, WHEEL_RADIUS),
+      fillPath: wedgePath(startAngle, endAngle, fillRadius),
+      fillRadius,
+      rangePath: segment.range
+        ? bandPath(startAngle, endAngle, WHEEL_RADIUS * (segment.range.low / 10), WHEEL_RADIUS * (segment.range.high / 10))
+        : '',
+      divider: {
+        x1: WHEEL_CENTER,
+        y1: WHEEL_CENTER,
+        x2: WHEEL_CENTER + WHEEL_RADIUS * Math.cos(startAngle),
+        y2: WHEEL_CENTER + WHEEL_RADIUS * Math.sin(startAngle)
+      },
+      label: {
+        x: WHEEL_CENTER + LABEL_DISTANCE * Math.cos(midAngle),
+        y: WHEEL_CENTER + LABEL_DISTANCE * Math.sin(midAngle)
+      }
+    };
+  });
+}
+
+/**
+ * Text shown under a segment's name: its rating, its range when uncertain,
+ * and the minimum when the rating falls short of a must-have
+ *
+ * @param segment - Segment to label
+ * @returns e.g. "7", "6 (4–8)" or "2 (min 4)"
+ */
+export function formatSegmentValue(segment: Segment): string {
+  let text = String(segment.value);
+  if (segment.range) {
+    text += ` (${segment.range.low}–${segment.range.high})`;
+  }
+  if (segment.minimum !== undefined && segment.value < segment.minimum) {
+    text += ` (min ${segment.minimum})`;
+  }
+  return text;
+}
+
+/**
+ * Builds the static drawing of one wheel
+ *
+ * The result is a group sized WHEEL_SIZE × WHEEL_SIZE at the origin.
+ * Wedges that fail a must-have minimum get a red outline.
+ *
+ * @param wheel - Wheel to render
+ * @param options - Layout options
+ * @returns Group node
+ */
+export function buildWheelNode(wheel: Wheel, options: WheelLayoutOptions = {}): SvgNode {
+  const wedges = layoutWheel(wheel, options);
+  const failed = new Set(getDealBreakerFailures(wheel).map(f => f.segmentId));
+
+  const wedgeNodes = wedges.map(wedge => {
+    const segment = wheel.segments[wedge.index];
+    const isFailing = failed.has(segment.id);
+    const children: SvgNode[] = [
+      svgNode('path', { d: wedge.outlinePath, fill: 'none', stroke: WHEEL_STYLE.outline, 'stroke-width': 2 })
+    ];
+
+    if (wedge.fillPath) {
+      children.push(svgNode('path', { d: wedge.fillPath, fill: wheel.color, opacity: WHEEL_STYLE.fillOpacity }));
+    }
+
+    if (wedge.rangePath) {
+      children.push(svgNode('path', {
+        d: wedge.rangePath,
+        fill: wheel.color,
+        'fill-opacity': WHEEL_STYLE.rangeOpacity,
+        stroke: wheel.color,
+        'stroke-width': 1.5,
+        'stroke-dasharray': WHEEL_STYLE.rangeDash
+      }));
+    }
+
+    children.push(
+      svgNode('line', { ...wedge.divider, stroke: WHEEL_STYLE.divider, 'stroke-width': 1 }),
+      svgNode(
+        'text',
+        {
+          x: wedge.label.x,
+          y: wedge.label.y,
+          'text-anchor': 'middle',
+          'dominant-baseline': 'middle',
+          'font-size': WHEEL_STYLE.labelFontSize,
+          'font-weight': 500,
+          fill: WHEEL_STYLE.labelColor
+        },
+        [segment.name]
+      ),
+      svgNode(
+        'text',
+        {
+          x: wedge.label.x,
+          y: wedge.label.y + WHEEL_STYLE.valueOffset,
+          'text-anchor': 'middle',
+          'dominant-baseline': 'middle',
+          'font-size': WHEEL_STYLE.valueFontSize,
+          'font-weight': isFailing ? 700 : 400,
+          fill: isFailing ? WHEEL_STYLE.dealBreaker : WHEEL_STYLE.valueColor
+        },
+        [formatSegmentValue(segment)]
+      )
+    );
+
+    return svgNode('g', {}, children);
+  });
+
+  // Drawn last so neighbouring wedges can't cover them
+  const dealBreakerNodes = wedges
+    .filter(wedge => failed.has(wheel.segments[wedge.index].id))
+    .map(wedge => svgNode('path', {
+      d: wedge.outlinePath,
+      fill: 'none',
+      stroke: WHEEL_STYLE.dealBreaker,
+      'stroke-width': WHEEL_STYLE.dealBreakerWidth,
+      'stroke-linejoin': 'round'
+    }));
+
+  return svgNode('g', {}, [
+    ...wedgeNodes,
+    ...dealBreakerNodes,
+    svgNode('circle', {
+      cx: WHEEL_CENTER,
+      cy: WHEEL_CENTER,
+      r: 8,
+      fill: 'white',
+      stroke: WHEEL_STYLE.divider,
+      'stroke-width': 2
+    })
+  ]);
+}
+
+/**
+ * Computes the geometry of a radar chart of all wheels
+ *
+ * Only considerations that every wheel has become axes; the alignment report
+ * decides which segments count as the same consideration.
+ *
+ * @param wheels - Wheels to plot
+ * @param report - Alignment of the wheels' considerations
+ * @returns Layout, or null when fewer than MIN_RADAR_AXES considerations are shared
+ */
+export function layoutRadar(wheels: Wheel[], report: AlignmentReport): RadarLayout | null {
+  const shared = report.rows.filter(row => row.cells.every(cell => cell !== null));
+  if (wheels.length === 0 || shared.length < MIN_RADAR_AXES) {
+    return null;
+  }
+
+  const angleOf = (index: number): number => -Math.PI / 2 + (index / shared.length) * 2 * Math.PI;
+  const pointAt = (angle: number, radius: number): { x: number; y: number } => ({
+    x: RADAR_CENTER + radius * Math.cos(angle),
+    y: RADAR_CENTER + radius * Math.sin(angle)
+  });
+  const toAttr = (points: Array<{ x: number; y: number }>): string =>
+    points.map(p => `${formatNumber(p.x)},${formatNumber(p.y)}`).join(' ');
+
+  const axes: RadarAxis[] = shared.map((row, index) => {
+    const angle = angleOf(index);
+    const label = pointAt(angle, RADAR_RADIUS + 18);
+    const cos = Math.cos(angle);
+    return {
+      name: row.name,
+      angle,
+      segments: row.cells.map(cell => cell!.segment),
+      end: pointAt(angle, RADAR_RADIUS),
+      label: { ...label, anchor: Math.abs(cos) < 0.1 ? 'middle' : cos > 0 ? 'start' : 'end' }
+    };
+  });
+
+  const rings = [2, 4, 6, 8, 10].map(value => ({
+    value,
+    pointsAttr: toAttr(axes.map(axis => pointAt(axis.angle, (RADAR_RADIUS * value) / 10)))
+  }));
+
+  const polygons = wheels.map((_, wheelIndex) => {
+    const points = axes.map(axis => {
+      const value = axis.segments[wheelIndex].value;
+      return { ...pointAt(axis.angle, (RADAR_RADIUS * value) / 10), value };
+    });
+    return { wheelIndex, points, pointsAttr: toAttr(points) };
+  });
+
+  return { axes, rings, polygons, omitted: report.rows.length - shared.length };
+}
+
+/**
+ * Builds the static radar chart drawing
+ *
+ * The result is a group sized RADAR_SIZE × RADAR_SIZE at the origin.
+ *
+ * @param wheels - Wheels to plot
+ * @param layout - Radar geometry from layoutRadar
+ * @returns Group node
+ */
+export function buildRadarNode(wheels: Wheel[], layout: RadarLayout): SvgNode {
+  const children: SvgNode[] = [
+    ...layout.rings.map(ring =>
+      svgNode('polygon', { points: ring.pointsAttr, fill: 'none', stroke: RADAR_STYLE.grid, 'stroke-width': 1 })
+    ),
+    ...layout.axes.map(axis =>
+      svgNode('line', { x1: RADAR_CENTER, y1: RADAR_CENTER, x2: axis.end.x, y2: axis.end.y, stroke: RADAR_STYLE.axis, 'stroke-width': 1 })
+    ),
+    ...layout.axes.map(axis =>
+      svgNode(
+        'text',
+        {
+          x: axis.label.x,
+          y: axis.label.y,
+          'text-anchor': axis.label.anchor,
+          'dominant-baseline': 'middle',
+          'font-size': RADAR_STYLE.labelFontSize,
+          fill: RADAR_STYLE.labelColor
+        },
+        [axis.name]
+      )
+    )
+  ];
+
+  layout.polygons.forEach(polygon => {
+    const color = wheels[polygon.wheelIndex].color;
+    children.push(
+      svgNode('polygon', {
+        points: polygon.pointsAttr,
+        fill: color,
+        'fill-opacity': RADAR_STYLE.fillOpacity,
+        stroke: color,
+        'stroke-width': RADAR_STYLE.strokeWidth
+      }),
+      ...polygon.points.map(point =>
+        svgNode('circle', { cx: point.x, cy: point.y, r: RADAR_STYLE.pointRadius, fill: color })
+      )
+    );
+  });
+
+  return svgNode('g', {}, children);
+}
+
+/**
+ * Builds a legend of wheel names and colours, wrapping onto more lines
+ * when the names don't fit on one
+ *
+ * @param wheels - Wheels to list
+ * @param width - Width available; each line is centered
+ * @returns Group node starting at y = 0, and the height it takes up
+ */
+function buildLegendNode(wheels: Wheel[], width: number): { node: SvgNode; height: number } {
+  // Approximate text width; good enough to space short names evenly
+  const itemWidths = wheels.map(wheel => 24 + wheel.name.length * 7.5 + 24);
+  const available = width - DOCUMENT_PADDING * 2;
+
+  // Fill each line before wrapping to the next
+  const lines: number[][] = [[]];
+  let lineWidth = 0;
+  itemWidths.forEach((itemWidth, index) => {
+    const line = lines[lines.length - 1];
+    if (line.length > 0 && lineWidth + itemWidth > available) {
+      lines.push([index]);
+      lineWidth = itemWidth;
+    } else {
+      line.push(index);
+      lineWidth += itemWidth;
+    }
+  });
+
+  const children: SvgNode[] = [];
+  lines.forEach((line, row) => {
+    const total = line.reduce((acc, index) => acc + itemWidths[index], 0);
+    let x = (width - total) / 2;
+    const y = row * LEGEND_ROW_HEIGHT;
+    line.forEach(index => {
+      const wheel = wheels[index];
+      children.push(
+        svgNode('rect', { x, y, width: 14, height: 14, rx: 3, fill: wheel.color }),
+        svgNode('text', { x: x + 20, y: y + 7, 'dominant-baseline': 'middle', 'font-size': 13, fill: '#374151' }, [wheel.name])
+      );
+      x += itemWidths[index];
+    });
+  });
+
+  return { node: svgNode('g', {}, children), height: RADAR_LEGEND_HEIGHT + (lines.length - 1) * LEGEND_ROW_HEIGHT };
+}
+
+/**
+ * Builds the overall comparison bars, titled with the scoring method used
+ *
+ * @param wheels - Wheels to compare
+ * @param width - Width available for the section
+ * @param options - Scoring method and consideration matching
+ * @returns Group node starting at y = 0
+ */
+function buildComparisonNode(wheels: Wheel[], width: number, options: DecisionSvgOptions): SvgNode {
+  const barWidth = width - DOCUMENT_PADDING * 2;
+  const result = scoreWheels(wheels, options.scoring, options.alignment, options.comparisons);
+  const method = SCORING_METHODS[result.method];
+  const title = `Overall Comparison (${method.label}${hasCustomWeights(wheels) ? ', weighted' : ''})`;
+
+  const children: SvgNode[] = [
+    svgNode(
+      'text',
+      { x: width / 2, y: 0, 'text-anchor': 'middle', 'font-size': 20, 'font-weight': 'bold', fill: '#111827' },
+      [title]
+    )
+  ];
+
+  wheels.forEach((wheel, index) => {
+    const score = result.scores[index];
+    const percentage = (score / 10) * 100;
+    const fillWidth = (barWidth * percentage) / 100;
+    const barY = COMPARISON_TITLE_HEIGHT + index * BAR_ROW_HEIGHT;
+
+    children.push(
+      svgNode('text', { x: DOCUMENT_PADDING, y: barY + 15, 'font-size': 14, 'font-weight': 600, fill: '#374151' }, [
+        wheel.name,
+        ...(isDisqualified(wheel) ? [svgNode('tspan', { fill: WHEEL_STYLE.dealBreaker }, [' (disqualified)'])] : [])
+      ]),
+      svgNode(
+        'text',
+        { x: width - DOCUMENT_PADDING, y: barY + 15, 'text-anchor': 'end', 'font-size': 16, 'font-weight': 'bold', fill: '#111827' },
+        [method.formatScore(score)]
+      ),
+      svgNode('rect', { x: DOCUMENT_PADDING, y: barY + 20, width: barWidth, height: BAR_HEIGHT, rx: BAR_HEIGHT / 2, fill: '#E5E7EB' }),
+      svgNode('rect', { x: DOCUMENT_PADDING, y: barY + 20, width: fillWidth, height: BAR_HEIGHT, rx: BAR_HEIGHT / 2, fill: wheel.color })
+    );
+
+    if (fillWidth > 60) {
+      children.push(
+        svgNode(
+          'text',
+          {
+            x: DOCUMENT_PADDING + fillWidth - 15,
+            y: barY + 20 + BAR_HEIGHT / 2 + 5,
+            'text-anchor': 'end',
+            'font-size': 12,
+            'font-weight': 600,
+            fill: 'white'
+          },
+          [`${percentage.toFixed(0)}%`]
+        )
+      );
+    }
+  });
+
+  return svgNode('g', {}, children);
+}
+
+/**
+ * Builds the drawing of a complete decision: the wheels in rows of up to
+ * WHEEL_COLUMNS, followed by the radar chart (when the wheels share enough considerations)
+ * and the overall comparison bars
+ *
+ * @param wheels - Wheels to render
+ * @param options - Layout, section and background options
+ * @returns Root svg node with width, height and viewBox set
+ */
+export function buildDecisionSvg(wheels: Wheel[], options: DecisionSvgOptions = {}): SvgNode {
+  const { includeComparison = true, includeRadar = true, background = 'white' } = options;
+
+  const columns = Math.min(Math.max(wheels.length, 1), WHEEL_COLUMNS);
+  const rows = Math.max(Math.ceil(wheels.length / WHEEL_COLUMNS), 1);
+  const width = WHEEL_SIZE * columns + WHEEL_GAP * (columns - 1) + DOCUMENT_PADDING * 2;
+  const sections: SvgNode[] = [];
+
+  wheels.forEach((wheel, index) => {
+    const row = Math.floor(index / WHEEL_COLUMNS);
+    const column = index % WHEEL_COLUMNS;
+    // A shorter last row is centred under the full ones
+    const inRow = Math.min(WHEEL_COLUMNS, wheels.length - row * WHEEL_COLUMNS);
+    const rowInset = ((columns - inRow) * (WHEEL_SIZE + WHEEL_GAP)) / 2;
+    const xOffset = DOCUMENT_PADDING + rowInset + column * (WHEEL_SIZE + WHEEL_GAP);
+    const yOffset = DOCUMENT_PADDING + row * (WHEEL_SIZE + WHEEL_GAP);
+    sections.push(
+      svgNode('g', { transform: `translate(${xOffset}, ${yOffset})` }, [buildWheelNode(wheel, options)])
+    );
+  });
+  let y = DOCUMENT_PADDING + rows * WHEEL_SIZE + (rows - 1) * WHEEL_GAP;
+
+  const radar = includeRadar && wheels.length > 1
+    ? layoutRadar(wheels, alignConsiderations(wheels, options.alignment))
+    : null;
+  if (radar) {
+    const legend = buildLegendNode(wheels, width);
+    y += DOCUMENT_PADDING;
+    sections.push(
+      svgNode(
+        'text',
+        { x: width / 2, y, 'text-anchor': 'middle', 'font-size': 20, 'font-weight': 'bold', fill: '#111827' },
+        ['Side-by-Side Profile']
+      ),
+      svgNode('g', { transform: `translate(${(width - RADAR_SIZE) / 2}, ${y + RADAR_TITLE_HEIGHT / 2})` }, [
+        buildRadarNode(wheels, radar)
+      ]),
+      svgNode('g', { transform: `translate(0, ${y + RADAR_TITLE_HEIGHT / 2 + RADAR_SIZE})` }, [
+        legend.node
+      ])
+    );
+    y += RADAR_TITLE_HEIGHT / 2 + RADAR_SIZE + legend.height;
+  }
+
+  if (includeComparison) {
+    y += DOCUMENT_PADDING;
+    sections.push(svgNode('g', { transform: `translate(0, ${y})` }, [buildComparisonNode(wheels, width, options)]));
+    y += COMPARISON_TITLE_HEIGHT + wheels.length * BAR_ROW_HEIGHT + DOCUMENT_PADDING;
+  }
+
+  const height = y;
+  const children = background ? [svgNode('rect', { width, height, fill: background }), ...sections] : sections;
+
+  return svgNode(
+    'svg',
+    {
+      xmlns: 'http://www.w3.org/2000/svg',
+      width,
+      height,
+      viewBox: `0 0 ${width} ${height}`,
+      'font-family': WHEEL_STYLE.fontFamily
+    },
+    children
+  );
+}
+
+/**
+ * Renders a complete decision as a standalone SVG document
+ *
+ * @param wheels - Wheels to render
+ * @param options - Layout and background options
+ * @returns SVG document string, including the XML declaration
+ *
+ * @example
+ * renderDecisionSvg(wheels, { proportionalAngles: true })
+ * // Returns: '<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns=...'
+ */
+export function renderDecisionSvg(wheels: Wheel[], options: DecisionSvgOptions = {}): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeSvg(buildDecisionSvg(wheels, options))}`;
+}
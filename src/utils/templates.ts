@@ -0,0 +1,350 @@
+/**
+ * Consideration Templates
+ *
+ * Ready-made sets of considerations for common decisions, plus the user's
+ * own templates saved from a wheel or imported from a file. A template lists
+ * consideration names with optional default importance weights and short
+ * descriptions of what to rate.
+ *
+ * Applying a template to every wheel aligns them on the template's
+ * considerations: ratings of considerations a wheel already has (matched by
+ * name, synonym or fuzzy match) are kept, new ones start at the midpoint, and
+ * the rest are removed.
+ */
+
+import { AlignmentSettings, APP_CONSTANTS, ConsiderationTemplate, Segment, TemplateConsideration, Wheel } from '../types';
+import { alignConsiderations, DEFAULT_ALIGNMENT_SETTINGS, normalizeConsiderationName } from './alignment';
+import {
+  sanitizeTextInput,
+  validateDescription,
+  validateSegmentName,
+  validateTemplateName,
+  validateWeight
+} from './validation';
+
+/** Prefix of built-in template IDs */
+const BUILT_IN_PREFIX = 'builtin-';
+
+/** Rating given to considerations a template adds */
+const DEFAULT_RATING = 5;
+
+/** Templates that ship with the app */
+export const BUILT_IN_TEMPLATES: ConsiderationTemplate[] = [
+  {
+    id: `${BUILT_IN_PREFIX}home-purchase`,
+    name: 'Home purchase',
+    description: 'Compare houses or flats you are thinking of buying.',
+    considerations: [
+      { name: 'Price', weight: 5, description: 'Asking price against your budget, including fees and taxes' },
+      { name: 'Location', weight: 5, description: 'The area, and how it suits your daily life' },
+      { name: 'Commute', weight: 4, description: 'Time and cost of getting to work or school' },
+      { name: 'Space', weight: 4, description: 'Bedrooms, living space and storage for your needs' },
+      { name: 'Condition', weight: 3, description: 'Repairs and renovation needed before or after moving in' },
+      { name: 'Outdoor Space', weight: 2, description: 'Garden, balcony or access to parks' },
+      { name: 'Neighbours', weight: 2, description: 'Noise, safety and the feel of the street' },
+      { name: 'Resale Value', weight: 3, description: 'How easily and well it would sell later' }
+    ]
+  },
+  {
+    id: `${BUILT_IN_PREFIX}job-offer`,
+    name: 'Job offer',
+    description: 'Weigh up job offers, or an offer against staying put.',
+    considerations: [
+      { name: 'Salary', weight: 5, description: 'Base pay, bonus and equity' },
+      { name: 'Benefits', weight: 3, description: 'Pension, health cover, holidays and other perks' },
+      { name: 'Growth', weight: 4, description: 'What you would learn and where it could lead' },
+      { name: 'Work', weight: 4, description: 'How interesting and meaningful the day-to-day work is' },
+      { name: 'Team', weight: 4, description: 'Your manager and colleagues' },
+      { name: 'Work-Life Balance', weight: 4, description: 'Hours, flexibility and on-call expectations' },
+      { name: 'Commute', weight: 3, description: 'Travel time, or remote and hybrid options' },
+      { name: 'Stability', weight: 3, description: 'Financial health and outlook of the company' }
+    ]
+  },
+  {
+    id: `${BUILT_IN_PREFIX}vendor-selection`,
+    name: 'Vendor selection',
+    description: 'Choose between suppliers, tools or service providers.',
+    considerations: [
+      { name: 'Cost', weight: 5, description: 'Total cost of ownership over the contract, not just the list price' },
+      { name: 'Features', weight: 5, description: 'How well it covers your requirements' },
+      { name: 'Reliability', weight: 4, description: 'Uptime, track record and service levels' },
+      { name: 'Support', weight: 3, description: 'Responsiveness and quality of help' },
+      { name: 'Integration', weight: 3, description: 'How easily it fits with your existing systems' },
+      { name: 'Security', weight: 4, description: 'Data protection, certifications and compliance' },
+      { name: 'Scalability', weight: 3, description: 'Whether it can grow with you' },
+      { name: 'Vendor Viability', weight: 2, description: 'Size, funding and likely future of the vendor' }
+    ]
+  },
+  {
+    id: `${BUILT_IN_PREFIX}hiring`,
+    name: 'Hiring',
+    description: 'Compare candidates for a role.',
+    considerations: [
+      { name: 'Skills', weight: 5, description: 'Technical or role-specific ability' },
+      { name: 'Experience', weight: 4, description: 'Relevant past work and results' },
+      { name: 'Problem Solving', weight: 4, description: 'How they approach unfamiliar problems' },
+      { name: 'Communication', weight: 4, description: 'Clarity in writing and conversation' },
+      { name: 'Team Fit', weight: 3, description: 'How they would work with the team, and what they would add' },
+      { name: 'Growth Potential', weight: 3, description: 'Capacity to take on more over time' },
+      { name: 'Salary Expectations', weight: 2, description: 'Fit with the budget for the role' }
+    ]
+  },
+  {
+    id: `${BUILT_IN_PREFIX}relocation`,
+    name: 'Relocation',
+    description: 'Compare cities or regions to move to.',
+    considerations: [
+      { name: 'Cost of Living', weight: 5, description: 'Housing, taxes and everyday prices' },
+      { name: 'Job Market', weight: 4, description: 'Opportunities in your field' },
+      { name: 'Climate', weight: 2, description: 'Weather through the year' },
+      { name: 'Safety', weight: 4, description: 'Crime and general sense of security' },
+      { name: 'Schools', weight: 3, description: 'Education options, if they matter to you' },
+      { name: 'Healthcare', weight: 3, description: 'Access to doctors and hospitals' },
+      { name: 'Culture', weight: 3, description: 'Food, events, outdoors and things to do' },
+      { name: 'Family & Friends', weight: 4, description: 'Distance from the people you want to be near' }
+    ]
+  }
+];
+
+/**
+ * Outcome of applying a template to wheels
+ */
+export interface AppliedTemplate {
+  /** Updated wheels */
+  wheels: Wheel[];
+  /** Names of considerations removed because the template doesn't have them */
+  removed: string[];
+}
+
+/**
+ * Outcome of reading templates from a file
+ */
+export interface ParsedTemplates {
+  /** Valid templates, with fresh IDs */
+  templates: ConsiderationTemplate[];
+  /** Number of entries skipped because they had no usable considerations */
+  skipped: number;
+}
+
+/**
+ * Generates a unique ID for a user template
+ */
+function generateTemplateId(): string {
+  return `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Whether a template ships with the app (and so can't be deleted)
+ */
+export function isBuiltInTemplate(template: ConsiderationTemplate): boolean {
+  return template.id.startsWith(BUILT_IN_PREFIX);
+}
+
+/**
+ * Validates a template's considerations
+ *
+ * Names are sanitized; blanks and duplicates (after normalization) are
+ * dropped, and the list is capped at MAX_SEGMENTS.
+ */
+function sanitizeConsiderations(considerations: TemplateConsideration[]): TemplateConsideration[] {
+  const seen = new Set<string>();
+  const result: TemplateConsideration[] = [];
+
+  considerations.forEach(consideration => {
+    if (!sanitizeTextInput(consideration.name)) return;
+    const name = validateSegmentName(consideration.name);
+    const key = normalizeConsiderationName(name);
+    if (!key || seen.has(key) || result.length >= APP_CONSTANTS.MAX_SEGMENTS) return;
+    seen.add(key);
+
+    const description = consideration.description ? validateDescription(consideration.description) : '';
+    result.push({
+      name,
+      ...(consideration.weight !== undefined ? { weight: validateWeight(consideration.weight) } : {}),
+      ...(description ? { description } : {})
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Creates a template from a wheel's considerations and weights
+ *
+ * @param wheel - Wheel to copy considerations from
+ * @param name - Template name (will be validated)
+ * @param description - What the template is for (will be validated)
+ * @returns The new template
+ *
+ * @example
+ * createTemplateFromWheel(wheel, 'Car purchase', 'New or used cars')
+ * // Returns: { id: 'template-…', name: 'Car purchase', considerations: [{ name: 'Price', weight: 5 }, …] }
+ */
+export function createTemplateFromWheel(wheel: Wheel, name: string, description: string): ConsiderationTemplate {
+  return {
+    id: generateTemplateId(),
+    name: validateTemplateName(name),
+    description: validateDescription(description),
+    considerations: sanitizeConsiderations(wheel.segments.map(s => ({ name: s.name, weight: s.weight })))
+  };
+}
+
+/**
+ * Applies a template to every wheel, aligning their considerations
+ *
+ * Each wheel ends up with exactly the template's considerations, in its
+ * order. Considerations a wheel already had keep their rating, range,
+ * individual ratings, minimum and rationale; they take the template's weight
+ * when it sets one. New considerations are rated at the midpoint.
+ *
+ * @param wheels - Wheels to update
+ * @param template - Template to apply
+ * @param settings - How existing considerations are matched to the template's
+ * @returns Updated wheels and the considerations that were removed
+ *
+ * @example
+ * applyTemplate(wheels, BUILT_IN_TEMPLATES[0]).wheels[0].segments.map(s => s.name)
+ * // Returns: ['Price', 'Location', 'Commute', …]
+ */
+export function applyTemplate(
+  wheels: Wheel[],
+  template: ConsiderationTemplate,
+  settings: AlignmentSettings = DEFAULT_ALIGNMENT_SETTINGS
+): AppliedTemplate {
+  // The template as a wheel, so it can be aligned like one; segment IDs are list positions
+  const source: Wheel = {
+    id: -1,
+    name: template.name,
+    color: '',
+    segments: template.considerations.map((consideration, index) => ({
+      id: index,
+      name: consideration.name,
+      value: DEFAULT_RATING,
+      weight: consideration.weight ?? APP_CONSTANTS.DEFAULT_WEIGHT
+    }))
+  };
+  const removed = new Set<string>();
+
+  const updated = wheels.map(wheel => {
+    // Align each wheel with the template alone so other wheels can't influence the matching
+    const { rows } = alignConsiderations([source, wheel], settings);
+    let nextId = Math.max(0, ...wheel.segments.map(s => s.id)) + 1;
+
+    rows
+      .filter(row => row.cells[0] === null)
+      .forEach(row => removed.add(row.cells[1]!.segment.name));
+
+    const segments: Segment[] = rows
+      .filter(row => row.cells[0] !== null)
+      .map(row => {
+        const consideration = template.considerations[row.cells[0]!.segment.id];
+        const existing = row.cells[1]?.segment;
+        return {
+          ...(existing ?? { id: nextId++, value: DEFAULT_RATING }),
+          name: validateSegmentName(consideration.name),
+          weight: validateWeight(consideration.weight ?? existing?.weight ?? APP_CONSTANTS.DEFAULT_WEIGHT)
+        };
+      });
+
+    return { ...wheel, segments };
+  });
+
+  return { wheels: updated, removed: [...removed] };
+}
+
+/**
+ * Adds or replaces user templates
+ *
+ * A template with the same name as a saved one (ignoring case and
+ * punctuation) replaces it; others are appended up to MAX_TEMPLATES.
+ *
+ * @param saved - Current user templates
+ * @param added - Templates to add
+ * @returns Updated templates and the names of any that didn't fit
+ */
+export function mergeTemplates(
+  saved: ConsiderationTemplate[],
+  added: ConsiderationTemplate[]
+): { templates: ConsiderationTemplate[]; dropped: string[] } {
+  const templates = [...saved];
+  const dropped: string[] = [];
+
+  added.forEach(template => {
+    const key = normalizeConsiderationName(template.name);
+    const index = templates.findIndex(t => normalizeConsiderationName(t.name) === key);
+    if (index !== -1) {
+      templates[index] = { ...template, id: templates[index].id };
+    } else if (templates.length < APP_CONSTANTS.MAX_TEMPLATES) {
+      templates.push(template);
+    } else {
+      dropped.push(template.name);
+    }
+  });
+
+  return { templates, dropped };
+}
+
+/**
+ * Validates one imported template
+ *
+ * @returns The template with a fresh ID, or null if it has no usable considerations
+ */
+function sanitizeTemplate(raw: unknown): ConsiderationTemplate | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const template = raw as Record<string, unknown>;
+  if (!Array.isArray(template.considerations)) return null;
+
+  const considerations = sanitizeConsiderations(
+    template.considerations
+      .filter((c): c is Record<string, unknown> => !!c && typeof c === 'object' && typeof c.name === 'string')
+      .map(c => ({
+        name: c.name as string,
+        ...(typeof c.weight === 'number' ? { weight: c.weight } : {}),
+        ...(typeof c.description === 'string' ? { description: c.description } : {})
+      }))
+  );
+  if (considerations.length === 0) return null;
+
+  return {
+    id: generateTemplateId(),
+    name: validateTemplateName(typeof template.name === 'string' ? template.name : ''),
+    description: validateDescription(typeof template.description === 'string' ? template.description : ''),
+    considerations
+  };
+}
+
+/**
+ * Parses and validates templates from an exported JSON file
+ *
+ * Accepts the file written by exportTemplatesToJSON, a bare array of
+ * templates, or a single template.
+ *
+ * @param text - File contents
+ * @returns Valid templates and how many entries were skipped
+ * @throws Error if the text is not valid JSON or contains no usable templates
+ */
+export function parseTemplatesJSON(text: string): ParsedTemplates {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const rawTemplates = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { templates?: unknown }).templates)
+      ? (data as { templates: unknown[] }).templates
+      : [data];
+
+  const templates = rawTemplates
+    .map(sanitizeTemplate)
+    .filter((template): template is ConsiderationTemplate => template !== null);
+
+  if (templates.length === 0) {
+    throw new Error('File contains no templates with considerations');
+  }
+
+  return { templates, skipped: rawTemplates.length - templates.length };
+}
@@ -0,0 +1,187 @@
+/**
+ * Pairwise Tournament
+ *
+ * Narrows a long list of opportunities down to a final two or three through
+ * head-to-head matches. Opportunities are seeded by score; each round the
+ * lowest seeds play each other (best remaining against worst remaining) and
+ * the top seeds get a bye, with only as many matches as are needed so the
+ * field never drops below the target. Winners advance until the target is
+ * reached.
+ *
+ * The functions are pure: every change returns a new tournament.
+ */
+
+/**
+ * A head-to-head between two opportunities
+ */
+export interface TournamentMatch {
+  /** Wheel ID of the higher seed */
+  first: number;
+  /** Wheel ID of the lower seed */
+  second: number;
+  /** Wheel ID of the winner, or null while undecided */
+  winner: number | null;
+}
+
+/**
+ * One round of matches
+ */
+export interface TournamentRound {
+  /** Matches played this round */
+  matches: TournamentMatch[];
+  /** Wheel IDs that advance without playing */
+  byes: number[];
+}
+
+/**
+ * A tournament in progress or finished
+ */
+export interface Tournament {
+  /** Wheel IDs in seed order, best first */
+  seeds: number[];
+  /** Number of finalists to narrow down to */
+  target: number;
+  /** Rounds so far; the last one may be undecided */
+  rounds: TournamentRound[];
+}
+
+/** Finalist counts offered to the user */
+export const TOURNAMENT_TARGETS = [2, 3] as const;
+
+/**
+ * Builds a round for the given contestants
+ *
+ * @param contestants - Wheel IDs in seed order
+ * @param target - Number of finalists
+ */
+function buildRound(contestants: number[], target: number): TournamentRound {
+  const matchCount = Math.min(Math.floor(contestants.length / 2), contestants.length - target);
+  const byeCount = contestants.length - matchCount * 2;
+  const playing = contestants.slice(byeCount);
+
+  return {
+    byes: contestants.slice(0, byeCount),
+    matches: Array.from({ length: matchCount }, (_, i) => ({
+      first: playing[i],
+      second: playing[playing.length - 1 - i],
+      winner: null
+    }))
+  };
+}
+
+/**
+ * Wheel IDs that come through a round, in seed order
+ *
+ * Undecided matches contribute nobody.
+ */
+function advancing(round: TournamentRound, seeds: number[]): number[] {
+  const through = [
+    ...round.byes,
+    ...round.matches.map(match => match.winner).filter((id): id is number => id !== null)
+  ];
+  return seeds.filter(id => through.includes(id));
+}
+
+/**
+ * Starts a tournament
+ *
+ * @param seeds - Wheel IDs in seed order, best first
+ * @param target - Number of finalists (at least 1)
+ * @returns A tournament with its first round drawn, or no rounds when the
+ *   field is already small enough
+ *
+ * @example
+ * createTournament([1, 2, 3, 4, 5], 3).rounds[0]
+ * // Returns: { byes: [1], matches: [{ first: 2, second: 5, … }, { first: 3, second: 4, … }] }
+ */
+export function createTournament(seeds: number[], target: number): Tournament {
+  const finalists = Math.max(1, target);
+  return {
+    seeds,
+    target: finalists,
+    rounds: seeds.length > finalists ? [buildRound(seeds, finalists)] : []
+  };
+}
+
+/**
+ * Records the winner of a match
+ *
+ * Changing the result of an earlier round discards the rounds after it,
+ * since their draw depended on it. When the round is complete and more
+ * opportunities remain than the target, the next round is drawn.
+ *
+ * @param tournament - Current tournament
+ * @param roundIndex - Round of the match
+ * @param matchIndex - Match within the round
+ * @param winnerId - Wheel ID of the winner; must be one of the two players
+ * @returns Updated tournament
+ */
+export function recordMatchWinner(
+  tournament: Tournament,
+  roundIndex: number,
+  matchIndex: number,
+  winnerId: number
+): Tournament {
+  const round = tournament.rounds[roundIndex];
+  const match = round?.matches[matchIndex];
+  if (!match || (winnerId !== match.first && winnerId !== match.second)) {
+    return tournament;
+  }
+
+  const updatedRound: TournamentRound = {
+    ...round,
+    matches: round.matches.map((m, i) => (i === matchIndex ? { ...m, winner: winnerId } : m))
+  };
+  const rounds = [...tournament.rounds.slice(0, roundIndex), updatedRound];
+
+  if (updatedRound.matches.every(m => m.winner !== null)) {
+    const through = advancing(updatedRound, tournament.seeds);
+    if (through.length > tournament.target) {
+      rounds.push(buildRound(through, tournament.target));
+    }
+  }
+
+  return { ...tournament, rounds };
+}
+
+/**
+ * Finds the next match to decide
+ *
+ * @returns Position of the first undecided match, or null when there is none
+ */
+export function nextMatch(tournament: Tournament): { roundIndex: number; matchIndex: number } | null {
+  for (let roundIndex = 0; roundIndex < tournament.rounds.length; roundIndex++) {
+    const matchIndex = tournament.rounds[roundIndex].matches.findIndex(m => m.winner === null);
+    if (matchIndex !== -1) {
+      return { roundIndex, matchIndex };
+    }
+  }
+  return null;
+}
+
+/**
+ * The opportunities left at the end of the tournament
+ *
+ * @returns Wheel IDs of the finalists in seed order, or null while matches remain
+ */
+export function tournamentFinalists(tournament: Tournament): number[] | null {
+  if (nextMatch(tournament) !== null) {
+    return null;
+  }
+
+  const last = tournament.rounds[tournament.rounds.length - 1];
+  return last ? advancing(last, tournament.seeds) : tournament.seeds;
+}
+
+/**
+ * Checks that a tournament still matches the wheels being compared
+ *
+ * Adding or removing an opportunity invalidates the draw.
+ *
+ * @param tournament - Tournament to check
+ * @param wheelIds - IDs of the current wheels
+ * @returns True when both contain exactly the same IDs
+ */
+export function isTournamentCurrent(tournament: Tournament, wheelIds: number[]): boolean {
+  return tournament.seeds.length === wheelIds.length && wheelIds.every(id => tournament.seeds.includes(id));
+}
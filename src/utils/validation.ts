@@ -5,7 +5,7 @@
  * All user inputs should be validated and sanitized using these utilities.
  */
 
-import { APP_CONSTANTS } from '../types';
+import { APP_CONSTANTS, RatingRange } from '../types';
 
 /**
  * Sanitizes user text input to prevent XSS attacks
@@ -78,6 +78,148 @@ export function validateSegmentName(name: string): string {
   return sanitized.slice(0, APP_CONSTANTS.MAX_SEGMENT_NAME_LENGTH);
 }
 
+/**
+ * Validates and sanitizes project name
+ *
+ * @param name - Raw project name from user input
+ * @returns Sanitized and validated project name
+ *
+ * @example
+ * validateProjectName('Office Move') // Returns: 'Office Move'
+ * validateProjectName('') // Returns: 'Untitled Decision'
+ */
+export function validateProjectName(name: string): string {
+  const sanitized = sanitizeTextInput(name);
+
+  if (!sanitized || sanitized.length === 0) {
+    return 'Untitled Decision';
+  }
+
+  return sanitized.slice(0, APP_CONSTANTS.MAX_PROJECT_NAME_LENGTH);
+}
+
+/**
+ * Validates and sanitizes a template's name
+ *
+ * @param name - Raw template name from user input
+ * @returns Sanitized and validated template name
+ *
+ * @example
+ * validateTemplateName('Car purchase') // Returns: 'Car purchase'
+ * validateTemplateName('') // Returns: 'Untitled Template'
+ */
+export function validateTemplateName(name: string): string {
+  const sanitized = sanitizeTextInput(name);
+
+  if (!sanitized || sanitized.length === 0) {
+    return 'Untitled Template';
+  }
+
+  return sanitized.slice(0, APP_CONSTANTS.MAX_PROJECT_NAME_LENGTH);
+}
+
+/**
+ * Validates and sanitizes a snapshot's name
+ *
+ * @param name - Raw snapshot name from user input
+ * @returns Sanitized and validated snapshot name
+ *
+ * @example
+ * validateSnapshotName('After second viewing') // Returns: 'After second viewing'
+ * validateSnapshotName('') // Returns: 'Snapshot'
+ */
+export function validateSnapshotName(name: string): string {
+  const sanitized = sanitizeTextInput(name);
+
+  if (!sanitized || sanitized.length === 0) {
+    return 'Snapshot';
+  }
+
+  return sanitized.slice(0, APP_CONSTANTS.MAX_PROJECT_NAME_LENGTH);
+}
+
+/**
+ * Validates and sanitizes a rater's name
+ *
+ * @param name - Raw rater name from user input
+ * @returns Sanitized and validated rater name
+ *
+ * @example
+ * validateRaterName('Sam') // Returns: 'Sam'
+ * validateRaterName('') // Returns: 'Unnamed Rater'
+ */
+export function validateRaterName(name: string): string {
+  const sanitized = sanitizeTextInput(name);
+
+  if (!sanitized || sanitized.length === 0) {
+    return 'Unnamed Rater';
+  }
+
+  return sanitized.slice(0, APP_CONSTANTS.MAX_NAME_LENGTH);
+}
+
+/**
+ * Sanitizes free-text descriptions
+ *
+ * Unlike names, descriptions may be empty.
+ *
+ * @param description - Raw description from user input
+ * @returns Sanitized description no longer than MAX_DESCRIPTION_LENGTH
+ */
+export function validateDescription(description: string): string {
+  return sanitizeTextInput(description).slice(0, APP_CONSTANTS.MAX_DESCRIPTION_LENGTH);
+}
+
+/**
+ * Sanitizes notes and rationales
+ *
+ * Like descriptions, notes may be empty. Line breaks are kept.
+ *
+ * @param note - Raw note from user input
+ * @returns Sanitized note no longer than MAX_NOTE_LENGTH
+ */
+export function validateNote(note: string): string {
+  return sanitizeTextInput(note).slice(0, APP_CONSTANTS.MAX_NOTE_LENGTH);
+}
+
+/**
+ * Sanitizes a single pro or con
+ *
+ * @param point - Raw text from user input
+ * @returns Sanitized text no longer than MAX_POINT_LENGTH (empty if nothing remains)
+ */
+export function validatePoint(point: string): string {
+  return sanitizeTextInput(point).slice(0, APP_CONSTANTS.MAX_POINT_LENGTH);
+}
+
+/**
+ * Validates a reference link
+ *
+ * Only absolute http and https addresses are accepted, so a link can never
+ * run script or open a local file when clicked.
+ *
+ * @param link - Raw address from user input
+ * @returns Normalized address, or null if it isn't a usable web link
+ *
+ * @example
+ * validateLink('https://example.com/report') // Returns: 'https://example.com/report'
+ * validateLink('example.com') // Returns: null
+ * validateLink('javascript:alert(1)') // Returns: null
+ */
+export function validateLink(link: string): string | null {
+  const sanitized = sanitizeTextInput(link);
+  if (!sanitized || sanitized.length > APP_CONSTANTS.MAX_LINK_LENGTH) {
+    return null;
+  }
+
+  try {
+    const url = new URL(sanitized);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Validates and clamps numeric values to allowed range
  *
@@ -107,6 +249,76 @@ export function validateValue(value: number | string): number {
   );
 }
 
+/**
+ * Validates an uncertainty range around a rating
+ *
+ * Both ends are clamped to 0-10, put in order and widened where needed so
+ * the most likely rating always lies within the range.
+ *
+ * @param range - Raw low and high estimates
+ * @param value - Most likely rating
+ * @returns Validated range with low ≤ value ≤ high
+ *
+ * @example
+ * validateRange({ low: 4, high: 8 }, 6) // Returns: { low: 4, high: 8 }
+ * validateRange({ low: 7, high: 3 }, 8) // Returns: { low: 3, high: 8 }
+ */
+export function validateRange(range: { low: number | string; high: number | string }, value: number): RatingRange {
+  const a = validateValue(range.low);
+  const b = validateValue(range.high);
+  return {
+    low: Math.min(a, b, Math.floor(value)),
+    high: Math.max(a, b, Math.ceil(value))
+  };
+}
+
+/**
+ * Validates and clamps importance weights to allowed range
+ *
+ * @param weight - Raw weight from user input
+ * @returns Validated integer between MIN_WEIGHT and MAX_WEIGHT
+ *
+ * @example
+ * validateWeight(4) // Returns: 4
+ * validateWeight(9) // Returns: 5 (clamped to max)
+ * validateWeight('abc') // Returns: 3 (default)
+ */
+export function validateWeight(weight: number | string): number {
+  const numWeight = typeof weight === 'string' ? parseInt(weight, 10) : weight;
+
+  if (isNaN(numWeight) || !isFinite(numWeight)) {
+    return APP_CONSTANTS.DEFAULT_WEIGHT;
+  }
+
+  return Math.max(
+    APP_CONSTANTS.MIN_WEIGHT,
+    Math.min(APP_CONSTANTS.MAX_WEIGHT, Math.round(numWeight))
+  );
+}
+
+/**
+ * Validates and clamps the maximum number of opportunities per decision
+ *
+ * @param limit - Raw limit from user input
+ * @returns Validated integer between MIN_WHEELS and MAX_WHEELS
+ *
+ * @example
+ * validateWheelLimit('8') // Returns: 8
+ * validateWheelLimit(100) // Returns: 20 (clamped to max)
+ */
+export function validateWheelLimit(limit: number | string): number {
+  const numLimit = typeof limit === 'string' ? parseInt(limit, 10) : limit;
+
+  if (isNaN(numLimit) || !isFinite(numLimit)) {
+    return APP_CONSTANTS.DEFAULT_WHEEL_LIMIT;
+  }
+
+  return Math.max(
+    APP_CONSTANTS.MIN_WHEELS,
+    Math.min(APP_CONSTANTS.MAX_WHEELS, Math.round(numLimit))
+  );
+}
+
 /**
  * Validates hex color code
  *